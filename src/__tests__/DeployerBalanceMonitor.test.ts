@@ -0,0 +1,87 @@
+import { useMemoryDatabase } from "./helpers/memoryDatabase";
+import { AGENT_TYPES } from "../config/agents";
+import { Safe as SafeModel } from "../models/Safe";
+import { SpendEntry, ISpendEntryDocument } from "../models/SpendEntry";
+import DeployerBalanceMonitor from "../services/DeployerBalanceMonitor";
+
+const db = useMemoryDatabase();
+
+const spot = AGENT_TYPES.find((type) => type.name === "spot")!;
+
+const spend = (entry: Partial<ISpendEntryDocument>) =>
+  SpendEntry.record({
+    safeId: "safe-1",
+    userId: "user-1",
+    agentType: "spot",
+    networkKey: "sepolia",
+    chainId: 11155111,
+    deployerAddress: "0x1111111111111111111111111111111111111111",
+    txHash: "0xabc",
+    gasUsed: "0",
+    gasPrice: "1",
+    costWei: "0",
+    ...entry,
+  });
+
+describe("DeployerBalanceMonitor", () => {
+  const monitor = DeployerBalanceMonitor.getInstance();
+
+  beforeEach(() => db.reset());
+
+  it("checks default networks and networks with deployments or spend", async () => {
+    const safe = new SafeModel({
+      safeId: "safe-1",
+      userInfo: {
+        userId: "user-1",
+        walletAddress: "0x2222222222222222222222222222222222222222",
+        agentType: "spot",
+        preferences: {
+          defaultNetworks: [],
+          autoExpand: false,
+          notifications: { email: false, webhook: false },
+        },
+      },
+      config: {
+        owners: ["0x2222222222222222222222222222222222222222"],
+        threshold: 1,
+        saltNonce: "1",
+        safeVersion: "1.4.1",
+      },
+    });
+    await safe.addDeployment("polygon", {
+      chainId: 137,
+      address: "0x3333333333333333333333333333333333333333",
+      deploymentStatus: "deployed",
+    });
+    await spend({ networkKey: "optimism", chainId: 10 });
+
+    const used = await monitor["getUsedNetworks"]();
+    const networks = monitor["getNetworksToCheck"](spot, used.get("spot"));
+
+    expect(networks.sort()).toEqual(
+      [...spot.defaultNetworks, "optimism", "polygon"].sort()
+    );
+    // Mainnets the agent never used are not checked
+    expect(networks).not.toContain("ethereum");
+    expect(monitor["getNetworksToCheck"](spot)).toEqual(spot.defaultNetworks);
+  });
+
+  it("keeps used networks within the agent type's allowed networks", () => {
+    const restricted = { ...spot, allowedNetworks: ["sepolia", "polygon"] };
+
+    expect(
+      monitor["getNetworksToCheck"](restricted, new Set(["polygon", "base"]))
+    ).toEqual(["sepolia", "polygon"]);
+  });
+
+  it("averages the gas of successful deployments only", async () => {
+    await spend({ gasUsed: "300000", outcome: "deployed" });
+    await spend({ gasUsed: "200000" });
+    await spend({ gasUsed: "900000", outcome: "reverted" });
+    await spend({ gasUsed: "21000", outcome: "cancelled" });
+
+    const averages = await monitor["getAverageDeploymentGas"]();
+
+    expect(averages.get("sepolia")).toBe(250000n);
+  });
+});
@@ -0,0 +1,169 @@
+import { useMemoryDatabase } from "./helpers/memoryDatabase";
+import { DeploymentJob } from "../models/DeploymentJob";
+import DeploymentQueue from "../services/DeploymentQueue";
+import logger from "../config/logger";
+
+const db = useMemoryDatabase();
+
+const LOCK_TTL_MS = 60000;
+
+async function createJob(
+  jobId: string,
+  overrides: Partial<DeploymentJob> = {}
+): Promise<DeploymentJob> {
+  const job = new DeploymentJob({
+    jobId,
+    safeId: "safe-1",
+    type: "deploy",
+    status: "queued",
+    networks: {
+      sepolia: { networkKey: "sepolia", status: "pending" },
+      base_sepolia: { networkKey: "base_sepolia", status: "pending" },
+    },
+    maxAttempts: 3,
+    ...overrides,
+  });
+  return await job.save();
+}
+
+describe("DeploymentJob claim and lock", () => {
+  beforeEach(() => db.reset());
+
+  it("claims the oldest queued job and locks it for the worker", async () => {
+    await createJob("newer", { createdAt: new Date(2000) });
+    await createJob("older", { createdAt: new Date(1000) });
+
+    const job = await DeploymentJob.claimNext("worker-a", LOCK_TTL_MS);
+
+    expect(job?.jobId).toBe("older");
+    expect(job?.status).toBe("running");
+    expect(job?.lockedBy).toBe("worker-a");
+    expect(job?.attempts).toBe(1);
+    expect(job!.lockExpiresAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("does not hand a locked job to another worker until the lock expires", async () => {
+    await createJob("job-1");
+    await DeploymentJob.claimNext("worker-a", LOCK_TTL_MS);
+
+    expect(await DeploymentJob.claimNext("worker-b", LOCK_TTL_MS)).toBeNull();
+
+    // The worker died: its lock ran out
+    await db
+      .collection("deployment_jobs")
+      .updateOne(
+        { jobId: "job-1" },
+        { $set: { lockExpiresAt: new Date(Date.now() - 1) } }
+      );
+
+    const reclaimed = await DeploymentJob.claimNext("worker-b", LOCK_TTL_MS);
+    expect(reclaimed?.lockedBy).toBe("worker-b");
+    expect(reclaimed?.attempts).toBe(2);
+  });
+
+  it("skips re-queued jobs until their retry delay has passed", async () => {
+    await createJob("job-1", {
+      availableAt: new Date(Date.now() + LOCK_TTL_MS),
+    });
+    expect(await DeploymentJob.claimNext("worker-a", LOCK_TTL_MS)).toBeNull();
+
+    await db
+      .collection("deployment_jobs")
+      .updateOne(
+        { jobId: "job-1" },
+        { $set: { availableAt: new Date(Date.now() - 1) } }
+      );
+    expect(
+      (await DeploymentJob.claimNext("worker-a", LOCK_TTL_MS))?.jobId
+    ).toBe("job-1");
+  });
+
+  it("fails expired jobs that used their last attempt instead of claiming them", async () => {
+    await createJob("job-1", {
+      status: "running",
+      attempts: 3,
+      lockedBy: "worker-a",
+      lockExpiresAt: new Date(Date.now() - 1),
+    });
+
+    expect(await DeploymentJob.claimNext("worker-b", LOCK_TTL_MS)).toBeNull();
+    expect(await DeploymentJob.failExhausted()).toBe(1);
+
+    const job = await DeploymentJob.findByJobId("job-1");
+    expect(job?.status).toBe("failed");
+    expect(job?.lockedBy).toBeUndefined();
+  });
+
+  it("extends the lock only for the worker holding it", async () => {
+    await createJob("job-1");
+    await DeploymentJob.claimNext("worker-a", LOCK_TTL_MS);
+
+    expect(
+      await DeploymentJob.extendLock("job-1", "worker-b", LOCK_TTL_MS)
+    ).toBe(false);
+    expect(
+      await DeploymentJob.extendLock("job-1", "worker-a", LOCK_TTL_MS)
+    ).toBe(true);
+  });
+});
+
+describe("DeploymentQueue job runs", () => {
+  const queue = DeploymentQueue.getInstance();
+
+  beforeEach(() => db.reset());
+  afterEach(() => {
+    queue["processor"] = null;
+  });
+
+  // Deploys sepolia and fails base_sepolia
+  const partialProcessor = async (job: DeploymentJob) => {
+    job.networks.sepolia.status = "deployed";
+    job.networks.base_sepolia.status = "failed";
+  };
+
+  it("re-queues a job with failed networks while attempts remain", async () => {
+    await createJob("job-1");
+    const job = (await DeploymentJob.claimNext("worker-a", LOCK_TTL_MS))!;
+    queue["processor"] = partialProcessor;
+
+    await queue["runJob"](job);
+
+    const stored = (await DeploymentJob.findByJobId("job-1"))!;
+    expect(stored.status).toBe("queued");
+    expect(stored.availableAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(stored.getPendingNetworks()).toEqual(["base_sepolia"]);
+  });
+
+  it("ends as partial once the last attempt leaves networks undeployed", async () => {
+    await createJob("job-1", { attempts: 2 });
+    const job = (await DeploymentJob.claimNext("worker-a", LOCK_TTL_MS))!;
+    queue["processor"] = partialProcessor;
+
+    await queue["runJob"](job);
+
+    const stored = (await DeploymentJob.findByJobId("job-1"))!;
+    expect(stored.status).toBe("partial");
+    expect(stored.completedAt).toBeInstanceOf(Date);
+  });
+
+  it("logs a failing final save instead of leaving the rejection unhandled", async () => {
+    await createJob("job-1");
+    queue["processor"] = partialProcessor;
+    queue["running"] = true;
+    const save = jest
+      .spyOn(DeploymentJob.prototype, "save")
+      .mockRejectedValue(new Error("write conflict"));
+
+    await queue["poll"]();
+    queue["running"] = false;
+    // Let the detached run settle
+    await new Promise((resolve) => setImmediate(resolve));
+    save.mockRestore();
+
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining("could not be saved"),
+      expect.any(Error)
+    );
+    expect(queue["activeJobs"].size).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+import { ethers } from "ethers";
+import FeeStrategy from "../services/FeeStrategy";
+import ProviderPool from "../services/ProviderPool";
+
+// Sepolia is bounded to 1-20 gwei
+const gwei = (value: string) => ethers.parseUnits(value, "gwei");
+
+describe("FeeStrategy", () => {
+  const strategy = new FeeStrategy({
+    baseFeeMultiplier: 2,
+    gasLimitMarginPercent: 20,
+  });
+  const pool = ProviderPool.getInstance();
+  let send: jest.SpyInstance;
+  let getProvider: jest.SpyInstance;
+
+  // Fee history whose last base fee is the next block's
+  const feeHistory = (baseFee: bigint, rewards: bigint[]) =>
+    send.mockResolvedValue({
+      baseFeePerGas: [gwei("1"), ethers.toQuantity(baseFee)],
+      reward: rewards.map((reward) => [ethers.toQuantity(reward)]),
+    });
+
+  beforeEach(() => {
+    send = jest.spyOn(pool, "send");
+    getProvider = jest.spyOn(pool, "getProvider");
+  });
+
+  afterEach(() => {
+    send.mockRestore();
+    getProvider.mockRestore();
+  });
+
+  describe("quote", () => {
+    it("quotes the base fee with headroom plus the median priority fee", async () => {
+      feeHistory(gwei("5"), [gwei("3"), gwei("1"), gwei("2")]);
+
+      const quote = await strategy.quote("sepolia", 100000n);
+
+      expect(quote.type).toBe("eip1559");
+      expect(quote.maxFeePerGas).toBe(gwei("12").toString());
+      expect(quote.maxPriorityFeePerGas).toBe(gwei("2").toString());
+      expect(quote.gasLimit).toBe("120000");
+      expect(quote.estimatedCostWei).toBe((120000n * gwei("12")).toString());
+    });
+
+    it("caps the max fee at the network max", async () => {
+      feeHistory(gwei("10"), [gwei("2")]);
+
+      const quote = await strategy.quote("sepolia", 100000n);
+
+      expect(quote.maxFeePerGas).toBe(gwei("20").toString());
+    });
+
+    it("raises the max fee to the network min", async () => {
+      feeHistory(gwei("0.1"), [0n]);
+
+      const quote = await strategy.quote("sepolia", 100000n);
+
+      expect(quote.maxFeePerGas).toBe(gwei("1").toString());
+      expect(quote.maxPriorityFeePerGas).toBe("0");
+    });
+
+    it("refuses to quote while the network fee is above the max", async () => {
+      feeHistory(gwei("19"), [gwei("2")]);
+
+      await expect(strategy.quote("sepolia", 100000n)).rejects.toThrow(
+        "above the configured max of 20 gwei"
+      );
+    });
+
+    it("falls back to the legacy gas price without fee history", async () => {
+      send.mockRejectedValue(new Error("method not found"));
+      getProvider.mockReturnValue({
+        getFeeData: async () => ({ gasPrice: gwei("0.5") }),
+      } as never);
+
+      const quote = await strategy.quote("sepolia", 100000n);
+
+      expect(quote.type).toBe("legacy");
+      expect(quote.gasPrice).toBe(gwei("1").toString());
+      expect(quote.estimatedCostWei).toBe((120000n * gwei("1")).toString());
+    });
+  });
+
+  describe("bumpFees", () => {
+    const overrides: ethers.TransactionRequest = {
+      type: 2,
+      gasLimit: 120000n,
+      maxFeePerGas: gwei("10"),
+      maxPriorityFeePerGas: gwei("2"),
+    };
+
+    it("raises both EIP-1559 fees by the percentage, rounded up", () => {
+      const bumped = strategy.bumpFees("sepolia", overrides, 10)!;
+
+      expect(bumped.maxFeePerGas).toBe(gwei("11") + 1n);
+      expect(bumped.maxPriorityFeePerGas).toBe(gwei("2.2") + 1n);
+      expect(bumped.gasLimit).toBe(120000n);
+    });
+
+    it("raises the gas price of legacy transactions", () => {
+      const bumped = strategy.bumpFees(
+        "sepolia",
+        { type: 0, gasLimit: 21000n, gasPrice: gwei("10") },
+        25
+      )!;
+
+      expect(bumped.gasPrice).toBe(gwei("12.5") + 1n);
+    });
+
+    it("returns null when the bump would pass the network max", () => {
+      expect(strategy.bumpFees("sepolia", overrides, 100)).toBeNull();
+      // Cancellations may go above it
+      expect(
+        strategy.bumpFees("sepolia", overrides, 100, false)?.maxFeePerGas
+      ).toBe(gwei("20") + 1n);
+    });
+  });
+});
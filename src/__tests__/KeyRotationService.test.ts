@@ -0,0 +1,201 @@
+import { ethers } from "ethers";
+import { useMemoryDatabase } from "./helpers/memoryDatabase";
+import { Safe as SafeModel } from "../models/Safe";
+import { KeyRotation } from "../models/KeyRotation";
+import { SafeTransaction } from "../models/SafeTransaction";
+import ProviderPool from "../services/ProviderPool";
+import KeyRotationService from "../services/KeyRotationService";
+
+const db = useMemoryDatabase();
+
+const USER = "0x1111111111111111111111111111111111111111";
+const OLD_AGENT = "0x2222222222222222222222222222222222222222";
+const NEW_AGENT = "0x3333333333333333333333333333333333333333";
+const SEPOLIA_SAFE = "0x4444444444444444444444444444444444444444";
+const BASE_SAFE = "0x5555555555555555555555555555555555555555";
+
+const ownersInterface = new ethers.Interface([
+  "function getOwners() view returns (address[])",
+]);
+
+// On-chain owners per Safe address, read through getOwners()
+let onChainOwners: Record<string, string[]>;
+
+async function createSafe(
+  networks: Partial<Record<"sepolia" | "base_sepolia", string>>,
+  overrides: Partial<SafeModel> = {}
+): Promise<SafeModel> {
+  const safe = new SafeModel({
+    safeId: "safe-1",
+    userInfo: {
+      userId: "user-1",
+      walletAddress: USER,
+      agentType: "spot",
+      preferences: {
+        defaultNetworks: [],
+        autoExpand: false,
+        notifications: { email: false, webhook: false },
+      },
+    },
+    config: {
+      owners: [USER, OLD_AGENT],
+      threshold: 1,
+      saltNonce: "1",
+      safeVersion: "1.4.1",
+    },
+    status: "active",
+    ...overrides,
+  });
+  await safe.save();
+  for (const [networkKey, address] of Object.entries(networks)) {
+    await safe.addDeployment(networkKey, {
+      chainId: networkKey === "sepolia" ? 11155111 : 84532,
+      address,
+      deploymentStatus: "deployed",
+    });
+  }
+  return safe;
+}
+
+async function rotate(): Promise<KeyRotation> {
+  const service = KeyRotationService.getInstance();
+  const rotation = new KeyRotation({
+    rotationId: "rotation-1",
+    agentType: "spot",
+    fromAddress: OLD_AGENT,
+    toAddress: NEW_AGENT,
+    status: "running",
+  });
+  await service["collectSafes"](rotation);
+  await rotation.save();
+  await service["rotateSafe"](rotation, rotation.safes[0]);
+  return rotation;
+}
+
+describe("KeyRotationService owner swaps", () => {
+  const service = KeyRotationService.getInstance();
+  let getProvider: jest.SpyInstance;
+  let propose: jest.SpyInstance;
+
+  beforeEach(() => {
+    db.reset();
+    onChainOwners = {};
+    getProvider = jest.spyOn(ProviderPool.getInstance(), "getProvider");
+    getProvider.mockReturnValue({
+      call: async (tx: { to: string }) =>
+        ownersInterface.encodeFunctionResult("getOwners", [
+          onChainOwners[tx.to.toLowerCase()],
+        ]),
+    } as never);
+
+    // Threshold 1: the agent executes its swap right away
+    propose = jest
+      .spyOn(service["safeTransactionService"], "proposeTransaction")
+      .mockImplementation(async (safeId, request) => {
+        onChainOwners[request.to.toLowerCase()] = [USER, NEW_AGENT];
+        return new SafeTransaction({
+          safeId,
+          safeTxHash: `0x${request.networkKey}`,
+          status: "executed",
+          txHash: "0xabc",
+        });
+      });
+  });
+
+  afterEach(() => {
+    getProvider.mockRestore();
+    propose.mockRestore();
+  });
+
+  it("updates the owners once the swap is confirmed on every deployment", async () => {
+    await createSafe({ sepolia: SEPOLIA_SAFE, base_sepolia: BASE_SAFE });
+    onChainOwners[SEPOLIA_SAFE.toLowerCase()] = [USER, OLD_AGENT];
+    onChainOwners[BASE_SAFE.toLowerCase()] = [USER, OLD_AGENT];
+
+    const rotation = await rotate();
+
+    expect(propose).toHaveBeenCalledTimes(2);
+    expect(rotation.safes[0].ownersUpdated).toBe(true);
+    const safe = (await SafeModel.findOne({ safeId: "safe-1" }))!;
+    expect(safe.config.owners).toEqual([USER, NEW_AGENT]);
+    expect(safe.config.initialOwners).toEqual([USER, OLD_AGENT]);
+  });
+
+  it("rotates a partially deployed Safe on the networks it is deployed to", async () => {
+    await createSafe({ sepolia: SEPOLIA_SAFE });
+    onChainOwners[SEPOLIA_SAFE.toLowerCase()] = [USER, OLD_AGENT];
+
+    const rotation = await rotate();
+
+    expect(Object.keys(rotation.safes[0].networks)).toEqual(["sepolia"]);
+    expect(rotation.safes[0].networks.sepolia.status).toBe("confirmed");
+    const safe = (await SafeModel.findOne({ safeId: "safe-1" }))!;
+    expect(safe.config.owners).toEqual([USER, NEW_AGENT]);
+    // New networks would need the rotated-out key at the same address
+    expect(safe.hasRotatedOwners()).toBe(true);
+  });
+
+  it("updates the owners and freeze agent of a frozen Safe without proposing swaps", async () => {
+    await createSafe(
+      { sepolia: SEPOLIA_SAFE, base_sepolia: BASE_SAFE },
+      {
+        status: "suspended",
+        freeze: {
+          action: "freeze",
+          status: "completed",
+          agentAddress: OLD_AGENT,
+          networks: {},
+          requestedAt: new Date(),
+        },
+      }
+    );
+    // The freeze removed the agent on-chain
+    onChainOwners[SEPOLIA_SAFE.toLowerCase()] = [USER];
+    onChainOwners[BASE_SAFE.toLowerCase()] = [USER];
+
+    const rotation = await rotate();
+
+    expect(propose).not.toHaveBeenCalled();
+    expect(
+      Object.values(rotation.safes[0].networks).map((n) => n.status)
+    ).toEqual(["skipped", "skipped"]);
+    expect(rotation.safes[0].ownersUpdated).toBe(true);
+    const safe = (await SafeModel.findOne({ safeId: "safe-1" }))!;
+    expect(safe.config.owners).toEqual([USER, NEW_AGENT]);
+    expect(safe.freeze?.agentAddress).toBe(NEW_AGENT);
+    expect(safe.status).toBe("suspended");
+  });
+
+  it("swaps the networks a partial freeze left the agent on", async () => {
+    await createSafe({ sepolia: SEPOLIA_SAFE, base_sepolia: BASE_SAFE });
+    onChainOwners[SEPOLIA_SAFE.toLowerCase()] = [USER];
+    onChainOwners[BASE_SAFE.toLowerCase()] = [USER, OLD_AGENT];
+
+    const rotation = await rotate();
+
+    expect(propose).toHaveBeenCalledTimes(1);
+    expect(rotation.safes[0].networks.sepolia.status).toBe("skipped");
+    expect(rotation.safes[0].networks.base_sepolia.status).toBe("confirmed");
+    expect(rotation.safes[0].ownersUpdated).toBe(true);
+  });
+
+  it("keeps the owners while a swap waits for signatures", async () => {
+    await createSafe({ sepolia: SEPOLIA_SAFE });
+    onChainOwners[SEPOLIA_SAFE.toLowerCase()] = [USER, OLD_AGENT];
+    propose.mockResolvedValue(
+      new SafeTransaction({
+        safeId: "safe-1",
+        safeTxHash: "0xsepolia",
+        status: "pending",
+        threshold: 2,
+      })
+    );
+
+    const rotation = await rotate();
+
+    expect(rotation.safes[0].networks.sepolia.status).toBe("proposed");
+    expect(rotation.safes[0].ownersUpdated).toBe(false);
+    const safe = (await SafeModel.findOne({ safeId: "safe-1" }))!;
+    expect(safe.config.owners).toEqual([USER, OLD_AGENT]);
+  });
+});
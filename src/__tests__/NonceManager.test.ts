@@ -0,0 +1,117 @@
+import { ethers } from "ethers";
+import NonceManager from "../services/NonceManager";
+
+const CHAIN_ID = 11155111;
+
+/**
+ * Provider whose latest and pending transaction counts are set by the test
+ */
+function chainAt(latest: number, pending = latest) {
+  const counts = { latest, pending };
+  const provider = {
+    getTransactionCount: jest.fn(
+      async (_address: string, blockTag: "latest" | "pending") =>
+        counts[blockTag]
+    ),
+  };
+  return { counts, provider: provider as unknown as ethers.Provider };
+}
+
+describe("NonceManager", () => {
+  const manager = NonceManager.getInstance();
+  let address: string;
+
+  // Every test uses its own signer so state does not carry over
+  beforeEach(() => {
+    address = ethers.Wallet.createRandom().address;
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const acquire = (provider: ethers.Provider) =>
+    manager.acquire(CHAIN_ID, address, provider);
+
+  it("hands out consecutive nonces before the chain sees them as pending", async () => {
+    const { provider } = chainAt(5);
+
+    const first = await acquire(provider);
+    await first.commit();
+    const second = await acquire(provider);
+    await second.commit();
+
+    expect([first.nonce, second.nonce]).toEqual([5, 6]);
+  });
+
+  it("serializes concurrent acquires until the lease is settled", async () => {
+    const { provider } = chainAt(5);
+
+    const first = await acquire(provider);
+    let secondNonce: number | undefined;
+    const second = acquire(provider).then((lease) => {
+      secondNonce = lease.nonce;
+      return lease;
+    });
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(secondNonce).toBeUndefined();
+
+    await first.commit();
+    await (await second).commit();
+    expect(secondNonce).toBe(6);
+  });
+
+  it("rewinds to a released nonce that was the last one handed out", async () => {
+    const { provider } = chainAt(5);
+
+    await (await acquire(provider)).commit();
+    const unsent = await acquire(provider);
+    await unsent.release();
+
+    const next = await acquire(provider);
+    await next.commit();
+    expect(next.nonce).toBe(6);
+  });
+
+  it("fills released gaps before moving past the highest nonce", async () => {
+    const { counts, provider } = chainAt(5);
+    for (let i = 0; i < 3; i++) {
+      await (await acquire(provider)).commit();
+    }
+    // Nonce 6 was released after 7 went out
+    const key = `${CHAIN_ID}:${address.toLowerCase()}`;
+    await manager["local"].addGap(key, 6);
+    await manager["local"].addGap(key, 3);
+    counts.pending = 6;
+
+    const gap = await acquire(provider);
+    await gap.commit();
+    const next = await acquire(provider);
+    await next.commit();
+
+    // 3 is below the chain's pending nonce, so it was used meanwhile
+    expect([gap.nonce, next.nonce]).toEqual([6, 8]);
+  });
+
+  it("resyncs from the chain when allocated nonces never became pending", async () => {
+    const { provider } = chainAt(5);
+    await (await acquire(provider)).commit();
+    await (await acquire(provider)).commit();
+
+    // Still nothing pending a while later: both transactions were dropped
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now + 10 * 60 * 1000);
+
+    const lease = await acquire(provider);
+    await lease.commit();
+    expect(lease.nonce).toBe(5);
+  });
+
+  it("does not resync right after allocating", async () => {
+    const { provider } = chainAt(5);
+    await (await acquire(provider)).commit();
+
+    const lease = await acquire(provider);
+    await lease.commit();
+    expect(lease.nonce).toBe(6);
+  });
+});
@@ -0,0 +1,67 @@
+import { ethers } from "ethers";
+import { getNetwork } from "../config/networks";
+import ProviderPool from "../services/ProviderPool";
+
+describe("ProviderPool.getProvider", () => {
+  const network = getNetwork("sepolia");
+  const fallbackRpcs = network.fallbackRpcs;
+  const pool = ProviderPool.getInstance();
+  let rpcs = 0;
+
+  const endpoints = () => pool["pools"].get("sepolia")!.endpoints;
+
+  beforeEach(() => {
+    // A new URL per test gives each test a new pool
+    network.fallbackRpcs = [`https://fallback-${++rpcs}.example`];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    network.fallbackRpcs = fallbackRpcs;
+  });
+
+  it("reuses the provider of a ranking seen before", () => {
+    const first = pool.getProvider("sepolia");
+    const [primary, fallback] = endpoints();
+    expect(pool.getProvider("sepolia")).toBe(first);
+
+    primary.recordFailure(new Error("timeout"));
+    const second = pool.getProvider("sepolia");
+    expect(second).not.toBe(first);
+
+    fallback.recordFailure(new Error("timeout"));
+    fallback.recordFailure(new Error("timeout"));
+    expect(pool.getProvider("sepolia")).toBe(first);
+  });
+
+  it("destroys a replaced provider after callers had time to finish", () => {
+    jest.useFakeTimers();
+    const first = pool.getProvider("sepolia") as ethers.FallbackProvider;
+    const destroy = jest.spyOn(first, "destroy");
+
+    jest.advanceTimersByTime(5 * 60 * 1000 + 1);
+    const second = pool.getProvider("sepolia");
+    expect(second).not.toBe(first);
+    expect(destroy).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(30 * 60 * 1000);
+    expect(destroy).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the endpoint providers that raw requests go through", () => {
+    jest.useFakeTimers();
+    const first = pool.getProvider("sepolia");
+
+    jest.advanceTimersByTime(5 * 60 * 1000 + 1);
+    pool.getProvider("sepolia");
+    jest.advanceTimersByTime(30 * 60 * 1000);
+
+    expect(first.destroyed).toBe(true);
+    expect(endpoints().every((endpoint) => !endpoint.provider.destroyed)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { useMemoryDatabase } from "./helpers/memoryDatabase";
+import { Safe as SafeModel } from "../models/Safe";
+
+const db = useMemoryDatabase();
+
+const OWNER = "0x1111111111111111111111111111111111111111";
+
+function createSafe(safeId: string, status: SafeModel["status"] = "active") {
+  return new SafeModel({
+    safeId,
+    userInfo: {
+      userId: "user-1",
+      walletAddress: OWNER,
+      preferences: {
+        defaultNetworks: [],
+        autoExpand: false,
+        notifications: { email: false, webhook: false },
+      },
+    },
+    config: {
+      owners: [OWNER],
+      threshold: 1,
+      saltNonce: "1",
+      safeVersion: "1.4.1",
+    },
+    status,
+  });
+}
+
+const deploy = (safe: SafeModel, networkKey: "sepolia" | "base_sepolia") =>
+  safe.addDeployment(networkKey, {
+    chainId: networkKey === "sepolia" ? 11155111 : 84532,
+    address: "0x2222222222222222222222222222222222222222",
+    deploymentStatus: "deployed",
+  });
+
+describe("Safe.findForReconciliation", () => {
+  beforeEach(() => db.reset());
+
+  it("returns Safes with deployments and skips undeployed or archived ones", async () => {
+    await deploy(createSafe("deployed"), "sepolia");
+    await createSafe("undeployed").save();
+    await deploy(createSafe("archived", "archived"), "sepolia");
+
+    const safes = await SafeModel.findForReconciliation(10);
+
+    expect(safes.map((safe) => safe.safeId)).toEqual(["deployed"]);
+    expect(safes[0].getDeployment("sepolia")?.deploymentStatus).toBe(
+      "deployed"
+    );
+  });
+
+  it("returns never checked Safes first, then the least recently checked", async () => {
+    for (const safeId of ["recent", "stale", "new"]) {
+      await deploy(createSafe(safeId), "base_sepolia");
+    }
+    const checked = (checkedAt: Date) => ({
+      status: "ok" as const,
+      checkedAt,
+      networks: {},
+    });
+    await SafeModel.setReconciliation("recent", checked(new Date(2000)));
+    await SafeModel.setReconciliation("stale", checked(new Date(1000)));
+
+    const safes = await SafeModel.findForReconciliation(2);
+
+    expect(safes.map((safe) => safe.safeId)).toEqual(["new", "stale"]);
+  });
+});
+
+describe("Safe.hasRotatedOwners", () => {
+  it("compares the current owners with the owners the Safe was deployed with", () => {
+    const safe = createSafe("safe-1");
+    expect(safe.hasRotatedOwners()).toBe(false);
+
+    safe.config.initialOwners = [OWNER];
+    expect(safe.hasRotatedOwners()).toBe(false);
+
+    safe.config.owners = ["0x3333333333333333333333333333333333333333"];
+    expect(safe.hasRotatedOwners()).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+import { ethers } from "ethers";
+import { useMemoryDatabase } from "./helpers/memoryDatabase";
+import { Safe as SafeModel, ISafePolicy } from "../models/Safe";
+import { ISafeTransactionCall } from "../models/SafeTransaction";
+import SafePolicyService from "../services/SafePolicyService";
+
+const db = useMemoryDatabase();
+
+const TARGET = ethers.getAddress("0x1111111111111111111111111111111111111111");
+const TOKEN = ethers.getAddress("0x2222222222222222222222222222222222222222");
+const OTHER = ethers.getAddress("0x3333333333333333333333333333333333333333");
+
+const erc20 = new ethers.Interface([
+  "function transfer(address to, uint256 amount)",
+]);
+
+const call = (overrides: Partial<ISafeTransactionCall> = {}) => ({
+  to: TARGET,
+  value: "0",
+  data: "0x",
+  operation: 0,
+  ...overrides,
+});
+
+const safeWithPolicy = (policy: Partial<ISafePolicy>) =>
+  new SafeModel({
+    safeId: "safe-1",
+    policy: { enabled: true, updatedAt: new Date(), ...policy },
+  });
+
+describe("SafePolicyService.enforce", () => {
+  const service = new SafePolicyService();
+
+  beforeEach(() => db.reset());
+
+  it("allows anything without an enabled policy", async () => {
+    const safe = safeWithPolicy({ enabled: false, allowedTargets: [] });
+
+    await expect(
+      service.enforce(safe, "sepolia", [call({ to: OTHER, value: "1" })])
+    ).resolves.toBeUndefined();
+  });
+
+  it("rejects targets outside allowedTargets and records the violation", async () => {
+    const safe = safeWithPolicy({ allowedTargets: [TARGET] });
+
+    await expect(
+      service.enforce(safe, "sepolia", [call({ to: OTHER })])
+    ).rejects.toThrow("Policy violation (allowedTargets)");
+
+    expect(db.collection("policy_violations").documents).toEqual([
+      expect.objectContaining({
+        safeId: "safe-1",
+        networkKey: "sepolia",
+        rule: "allowedTargets",
+      }),
+    ]);
+  });
+
+  it("matches targets regardless of address case", async () => {
+    const safe = safeWithPolicy({ allowedTargets: [TARGET] });
+
+    await expect(
+      service.enforce(safe, "sepolia", [call({ to: TARGET.toLowerCase() })])
+    ).resolves.toBeUndefined();
+  });
+
+  it("checks token transfers against allowedTokens instead of allowedTargets", async () => {
+    const safe = safeWithPolicy({
+      allowedTargets: [TARGET],
+      allowedTokens: [TOKEN],
+    });
+    const transfer = erc20.encodeFunctionData("transfer", [OTHER, 1n]);
+
+    await expect(
+      service.enforce(safe, "sepolia", [call({ to: TOKEN, data: transfer })])
+    ).resolves.toBeUndefined();
+    await expect(
+      service.enforce(safe, "sepolia", [call({ to: OTHER, data: transfer })])
+    ).rejects.toThrow("Policy violation (allowedTokens)");
+  });
+
+  it("rejects selectors outside allowedSelectors", async () => {
+    const safe = safeWithPolicy({ allowedSelectors: ["0xa9059cbb"] });
+
+    await expect(
+      service.enforce(safe, "sepolia", [call({ data: "0x095ea7b3" })])
+    ).rejects.toThrow("Policy violation (allowedSelectors)");
+  });
+
+  it("rejects delegatecalls unless allowed", async () => {
+    await expect(
+      service.enforce(safeWithPolicy({}), "sepolia", [call({ operation: 1 })])
+    ).rejects.toThrow("Policy violation (allowDelegateCall)");
+    await expect(
+      service.enforce(safeWithPolicy({ allowDelegateCall: true }), "sepolia", [
+        call({ operation: 1 }),
+      ])
+    ).resolves.toBeUndefined();
+  });
+
+  it("limits the value of all calls of a batch together", async () => {
+    const safe = safeWithPolicy({ maxValuePerTxWei: "100" });
+
+    await expect(
+      service.enforce(safe, "sepolia", [
+        call({ value: "60" }),
+        call({ value: "60" }),
+      ])
+    ).rejects.toThrow("Policy violation (maxValuePerTxWei)");
+  });
+
+  it("counts value executed in the last 24 hours on the network toward the daily cap", async () => {
+    const safe = safeWithPolicy({ dailyValueCapWei: "100" });
+    const executed = (networkKey: string, value: string, hoursAgo: number) =>
+      db.collection("safe_transactions").insertOne({
+        safeId: "safe-1",
+        networkKey,
+        status: "executed",
+        value,
+        executedAt: new Date(Date.now() - hoursAgo * 60 * 60 * 1000),
+      });
+    await executed("sepolia", "70", 1);
+    await executed("sepolia", "500", 30); // Outside the window
+    await executed("base_sepolia", "500", 1); // Other network
+
+    await expect(
+      service.enforce(safe, "sepolia", [call({ value: "30" })])
+    ).resolves.toBeUndefined();
+    await expect(
+      service.enforce(safe, "sepolia", [call({ value: "31" })])
+    ).rejects.toThrow("Policy violation (dailyValueCapWei)");
+  });
+});
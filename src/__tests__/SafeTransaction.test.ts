@@ -0,0 +1,81 @@
+import { useMemoryDatabase } from "./helpers/memoryDatabase";
+import { SafeTransaction } from "../models/SafeTransaction";
+
+const db = useMemoryDatabase();
+
+const LEASE_MS = 60000;
+const SIGNER = "0x1111111111111111111111111111111111111111";
+
+async function createTransaction(
+  overrides: Partial<SafeTransaction> = {}
+): Promise<SafeTransaction> {
+  const transaction = new SafeTransaction({
+    transactionId: "tx-1",
+    safeId: "safe-1",
+    safeAddress: "0x2222222222222222222222222222222222222222",
+    networkKey: "sepolia",
+    chainId: 11155111,
+    to: "0x3333333333333333333333333333333333333333",
+    safeTxHash: "0xabc",
+    threshold: 1,
+    signatures: [{ signer: SIGNER, signature: "0x", submittedAt: new Date() }],
+    ...overrides,
+  });
+  return await transaction.save();
+}
+
+const claim = () =>
+  SafeTransaction.claimForExecution("safe-1", "0xabc", LEASE_MS);
+
+describe("SafeTransaction.claimForExecution", () => {
+  beforeEach(() => db.reset());
+
+  it("claims a fully signed pending transaction once", async () => {
+    await createTransaction();
+
+    const claimed = await claim();
+    expect(claimed?.status).toBe("executing");
+    expect(claimed?.executingAt).toBeInstanceOf(Date);
+
+    expect(await claim()).toBeNull();
+  });
+
+  it("does not claim a transaction that is missing signatures", async () => {
+    await createTransaction({ threshold: 2 });
+
+    expect(await claim()).toBeNull();
+  });
+
+  it("takes over an execution whose claim expired", async () => {
+    await createTransaction({ txHash: "0xdef" });
+    await claim();
+
+    // The executing process died before it could release the claim
+    await db
+      .collection("safe_transactions")
+      .updateOne(
+        { safeTxHash: "0xabc" },
+        { $set: { executingAt: new Date(Date.now() - LEASE_MS - 1) } }
+      );
+
+    const reclaimed = await claim();
+    expect(reclaimed?.status).toBe("executing");
+    expect(reclaimed!.executingAt!.getTime()).toBeGreaterThan(
+      Date.now() - LEASE_MS
+    );
+    // The submitted transaction is kept for the new execution to check
+    expect(reclaimed?.txHash).toBe("0xdef");
+  });
+
+  it("takes over executing records claimed before claims expired", async () => {
+    await createTransaction({ status: "executing" });
+
+    expect((await claim())?.status).toBe("executing");
+  });
+
+  it("does not claim finished transactions", async () => {
+    await createTransaction({ status: "executed" });
+
+    expect(await claim()).toBeNull();
+  });
+});
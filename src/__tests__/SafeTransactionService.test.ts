@@ -0,0 +1,149 @@
+import { ethers } from "ethers";
+import { useMemoryDatabase } from "./helpers/memoryDatabase";
+import { Safe as SafeModel } from "../models/Safe";
+import { SafeTransaction } from "../models/SafeTransaction";
+import SafeTransactionService from "../services/SafeTransactionService";
+
+const db = useMemoryDatabase();
+
+const agent = ethers.Wallet.createRandom();
+const owner = ethers.Wallet.createRandom();
+const cosigner = ethers.Wallet.createRandom();
+const outsider = ethers.Wallet.createRandom();
+
+const SAFE_TX_HASH = ethers.id("safe-tx-1");
+
+// Owners sign the safeTxHash, which is already the EIP-712 digest
+const sign = (wallet: ethers.HDNodeWallet) =>
+  wallet.signingKey.sign(SAFE_TX_HASH).serialized;
+
+async function createSafeTransaction(
+  threshold: number,
+  overrides: Partial<SafeTransaction> = {}
+) {
+  await new SafeModel({
+    safeId: "safe-1",
+    userInfo: {
+      userId: "user-1",
+      walletAddress: owner.address,
+      preferences: {
+        defaultNetworks: [],
+        autoExpand: false,
+        notifications: { email: false, webhook: false },
+      },
+    },
+    config: {
+      owners: [owner.address, cosigner.address, agent.address],
+      threshold,
+      saltNonce: "1",
+      safeVersion: "1.4.1",
+    },
+    status: "active",
+  }).save();
+
+  await new SafeTransaction({
+    transactionId: "tx-1",
+    safeId: "safe-1",
+    safeAddress: "0x2222222222222222222222222222222222222222",
+    networkKey: "sepolia",
+    chainId: 11155111,
+    to: "0x3333333333333333333333333333333333333333",
+    safeTxHash: SAFE_TX_HASH,
+    threshold,
+    // The agent signed when proposing
+    signatures: [
+      {
+        signer: agent.address,
+        signature: sign(agent),
+        submittedAt: new Date(),
+      },
+    ],
+    ...overrides,
+  }).save();
+}
+
+describe("SafeTransactionService.addSignature", () => {
+  const service = new SafeTransactionService();
+  let execute: jest.SpyInstance;
+
+  beforeEach(() => {
+    db.reset();
+    execute = jest
+      .spyOn(service as any, "executeIfReady")
+      .mockImplementation(async (_safe, safeTxHash) =>
+        SafeTransaction.findBySafeTxHash("safe-1", safeTxHash as string)
+      );
+  });
+
+  afterEach(() => execute.mockRestore());
+
+  const addSignature = (signature: string, expectedSigner?: string) =>
+    service.addSignature("safe-1", SAFE_TX_HASH, signature, expectedSigner);
+
+  it("stores the recovered owner's signature while below the threshold", async () => {
+    await createSafeTransaction(3);
+
+    const updated = await addSignature(sign(owner), owner.address);
+
+    expect(updated.signatures.map((s) => s.signer)).toEqual([
+      agent.address,
+      owner.address,
+    ]);
+    expect(updated.status).toBe("pending");
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("executes once a signature completes the threshold", async () => {
+    await createSafeTransaction(3);
+
+    await addSignature(sign(owner));
+    await addSignature(sign(cosigner));
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute).toHaveBeenCalledWith(
+      expect.objectContaining({ safeId: "safe-1" }),
+      SAFE_TX_HASH
+    );
+  });
+
+  it("rejects signatures of addresses that are not owners", async () => {
+    await createSafeTransaction(2);
+
+    await expect(addSignature(sign(outsider))).rejects.toThrow(
+      `${outsider.address} is not a Safe owner`
+    );
+  });
+
+  it("rejects a signature that does not recover to the expected signer", async () => {
+    await createSafeTransaction(2);
+
+    await expect(addSignature(sign(owner), cosigner.address)).rejects.toThrow(
+      `recovered signer ${owner.address} does not match`
+    );
+  });
+
+  it("rejects a second signature from the same owner", async () => {
+    await createSafeTransaction(3);
+    await addSignature(sign(owner));
+
+    await expect(addSignature(sign(owner))).rejects.toThrow(
+      `Owner ${owner.address} already signed`
+    );
+  });
+
+  it("rejects signatures that cannot be recovered", async () => {
+    await createSafeTransaction(2);
+
+    await expect(addSignature("0x1234")).rejects.toThrow(
+      "could not recover signer"
+    );
+  });
+
+  it("rejects signatures once the transaction left pending", async () => {
+    await createSafeTransaction(2, { status: "executed" });
+
+    await expect(addSignature(sign(owner))).rejects.toThrow(
+      "is executed; signatures are no longer accepted"
+    );
+  });
+});
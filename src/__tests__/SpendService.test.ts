@@ -0,0 +1,109 @@
+import { ethers } from "ethers";
+import { useMemoryDatabase } from "./helpers/memoryDatabase";
+import { SPEND_BUDGETS } from "../config/budgets";
+import SpendService from "../services/SpendService";
+
+const db = useMemoryDatabase();
+
+const ether = (value: string) => ethers.parseEther(value);
+
+describe("SpendService.reserveBudget", () => {
+  const service = new SpendService();
+  const reserve = (maxCostWei: bigint, userId = "user-1") =>
+    service.reserveBudget({
+      userId,
+      agentType: "spot",
+      networkKey: "sepolia",
+      estimatedCostWei: maxCostWei / 2n,
+      maxCostWei,
+    });
+
+  beforeAll(() => {
+    SPEND_BUDGETS.perUser.sepolia = "1";
+  });
+
+  afterAll(() => {
+    delete SPEND_BUDGETS.perUser.sepolia;
+  });
+
+  beforeEach(() => db.reset());
+
+  it("holds the maximum cost until released", async () => {
+    const first = await reserve(ether("0.6"));
+
+    // 0.6 + 0.6 would pass the budget, although the estimates would not
+    await expect(reserve(ether("0.6"))).rejects.toThrow(
+      "Spend budget exceeded for user user-1 on sepolia"
+    );
+
+    await first.release();
+    await expect(reserve(ether("0.6"))).resolves.toBeDefined();
+  });
+
+  it("counts recorded spend against the budget", async () => {
+    await db.collection("deployer_spend").insertOne({
+      userId: "user-1",
+      agentType: "spot",
+      networkKey: "sepolia",
+      costWei: ether("0.5").toString(),
+      gasUsed: "0",
+      outcome: "deployed",
+      createdAt: new Date(),
+    });
+
+    await expect(reserve(ether("0.6"))).rejects.toThrow("budget exceeded");
+    await expect(reserve(ether("0.4"))).resolves.toBeDefined();
+  });
+
+  it("keeps budgets of users apart", async () => {
+    await reserve(ether("0.9"), "user-1");
+
+    await expect(reserve(ether("0.9"), "user-2")).resolves.toBeDefined();
+  });
+
+  it("drops an expired hold while other holds of the scope keep counting", async () => {
+    await reserve(ether("0.5"));
+    await reserve(ether("0.3"));
+
+    // The worker of the first hold crashed an hour ago; deployments went on meanwhile
+    const reservations = db.collection("spend_reservations");
+    const [scope] = reservations.documents;
+    scope.holds[0].expiresAt = new Date(Date.now() - 1);
+
+    await expect(reserve(ether("0.6"))).resolves.toBeDefined();
+    expect(
+      reservations.documents[0].holds.map(
+        (hold: { amountWei: string }) => hold.amountWei
+      )
+    ).toEqual([ether("0.3").toString(), ether("0.6").toString()]);
+  });
+});
+
+describe("SpendService.getSpendReport", () => {
+  beforeEach(() => db.reset());
+
+  it("averages gas over successful deployments only", async () => {
+    const entry = (gasUsed: string, outcome: string) => ({
+      userId: "user-1",
+      agentType: "spot",
+      networkKey: "sepolia",
+      costWei: "1000",
+      gasUsed,
+      outcome,
+      createdAt: new Date(),
+    });
+    const spend = db.collection("deployer_spend");
+    await spend.insertOne(entry("300000", "deployed"));
+    await spend.insertOne(entry("200000", "deployed"));
+    await spend.insertOne(entry("50000", "reverted"));
+
+    const report = await new SpendService().getSpendReport();
+
+    expect(report.byNetwork[0]).toMatchObject({
+      deployments: 2,
+      failedTransactions: 1,
+      totalGasUsed: "550000",
+      averageGasUsed: "250000",
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { ethers } from "ethers";
+import FeeStrategy from "../services/FeeStrategy";
+import TransactionMonitor, {
+  MonitoredTransaction,
+} from "../services/TransactionMonitor";
+
+const gwei = (value: string) => ethers.parseUnits(value, "gwei");
+
+/**
+ * Deployer signer on a chain the test mines by hand
+ */
+function createChain() {
+  const address = ethers.Wallet.createRandom().address;
+  const counts = { latest: 7, pending: 7 };
+  const sent: ethers.TransactionRequest[] = [];
+  const receipts = new Map<string, object>();
+  let sendCalls = 0;
+  const chain = {
+    address,
+    counts,
+    sent,
+    // Called with the number of transactions accepted so far
+    onSend: (_count: number) => {},
+    // Called with the number of send calls, including rejected ones
+    rejectSend: (_call: number) => false,
+    mine(index: number, status = 1) {
+      const hash = `0x${index + 1}`;
+      receipts.set(hash, { hash, status, blockNumber: 100 });
+      counts.latest++;
+    },
+  };
+
+  const provider = {
+    getTransactionCount: async (_: string, tag: "latest" | "pending") =>
+      counts[tag],
+    getTransactionReceipt: async (hash: string) => receipts.get(hash) ?? null,
+  };
+  const signer = {
+    provider,
+    getAddress: async () => address,
+    estimateGas: async () => 21000n,
+    sendTransaction: async (transaction: ethers.TransactionRequest) => {
+      if (chain.rejectSend(++sendCalls)) {
+        throw new Error("replacement transaction underpriced");
+      }
+      sent.push(transaction);
+      chain.onSend(sent.length);
+      return { hash: `0x${sent.length}` };
+    },
+  };
+  return { chain, signer: signer as unknown as ethers.Signer };
+}
+
+describe("TransactionMonitor", () => {
+  const feeStrategy = new FeeStrategy();
+  let chain: ReturnType<typeof createChain>["chain"];
+  let request: MonitoredTransaction;
+  let onMined: jest.Mock;
+
+  const monitor = (config: object = {}) =>
+    new TransactionMonitor(feeStrategy, {
+      pollIntervalMs: 0,
+      stuckTimeoutMs: 0,
+      maxReplacements: 3,
+      feeBumpPercent: 15,
+      ...config,
+    });
+
+  beforeEach(() => {
+    const created = createChain();
+    chain = created.chain;
+    onMined = jest.fn();
+    request = {
+      networkKey: "sepolia",
+      signer: created.signer,
+      transaction: {
+        to: "0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67",
+        data: "0x1234",
+      },
+      feeQuote: {
+        type: "eip1559",
+        maxFeePerGas: gwei("10").toString(),
+        maxPriorityFeePerGas: gwei("1").toString(),
+        gasEstimate: "250000",
+        gasLimit: "300000",
+        estimatedCostWei: (300000n * gwei("10")).toString(),
+        quotedAt: new Date(),
+      },
+      onMined,
+    };
+  });
+
+  it("returns the receipt of an original transaction that is mined", async () => {
+    chain.onSend = () => chain.mine(0);
+
+    const result = await monitor({ stuckTimeoutMs: 60000 }).sendAndWait(
+      request
+    );
+
+    expect(result.receipt.hash).toBe("0x1");
+    expect(result.attempts.map((a) => [a.kind, a.status])).toEqual([
+      ["original", "mined"],
+    ]);
+    expect(chain.sent[0].nonce).toBe(7);
+  });
+
+  it("replaces a stuck transaction with bumped fees at the same nonce", async () => {
+    chain.onSend = (count) => count === 2 && chain.mine(1);
+
+    const result = await monitor().sendAndWait(request);
+
+    expect(result.receipt.hash).toBe("0x2");
+    expect(result.attempts.map((a) => [a.kind, a.status])).toEqual([
+      ["original", "replaced"],
+      ["replacement", "mined"],
+    ]);
+    expect(chain.sent[1]).toMatchObject({
+      nonce: 7,
+      data: "0x1234",
+      maxFeePerGas: gwei("11.5") + 1n,
+      maxPriorityFeePerGas: gwei("1.15") + 1n,
+    });
+  });
+
+  it("cancels the nonce after the last replacement and reports the cancellation", async () => {
+    chain.onSend = (count) => count === 3 && chain.mine(2);
+
+    await expect(
+      monitor({ maxReplacements: 1 }).sendAndWait(request)
+    ).rejects.toThrow("was cancelled (nonce 7");
+
+    expect(chain.sent[2]).toMatchObject({
+      to: chain.address,
+      value: 0n,
+      data: "0x",
+      nonce: 7,
+      gasLimit: 21000n,
+    });
+    expect(onMined).toHaveBeenCalledWith(
+      expect.objectContaining({ hash: "0x3" }),
+      expect.objectContaining({ kind: "cancellation", status: "mined" })
+    );
+  });
+
+  it("cancels right away when a replacement would pass the network max", async () => {
+    // Sepolia allows at most 20 gwei; a 15% bump of 19 gwei passes it
+    request.feeQuote.maxFeePerGas = gwei("19").toString();
+    chain.onSend = (count) => count === 2 && chain.mine(1);
+
+    await expect(monitor().sendAndWait(request)).rejects.toThrow(
+      "was cancelled"
+    );
+
+    expect(chain.sent.map((tx) => tx.to)).toEqual([
+      request.transaction.to,
+      chain.address,
+    ]);
+    // Freeing the nonce may pay above the max
+    expect(chain.sent[1].maxFeePerGas).toBe(gwei("21.85") + 1n);
+  });
+
+  it("keeps the previous fees when a replacement is rejected", async () => {
+    chain.rejectSend = (call) => call === 2;
+    chain.onSend = (count) => count === 2 && chain.mine(1);
+
+    const result = await monitor().sendAndWait(request);
+
+    expect(result.attempts.map((a) => [a.kind, a.status])).toEqual([
+      ["original", "replaced"],
+      ["replacement", "rejected"],
+      ["replacement", "mined"],
+    ]);
+    // Bumped from the original fees again, not from the rejected replacement
+    expect(chain.sent[1].maxFeePerGas).toBe(gwei("11.5") + 1n);
+  });
+
+  it("fails when the nonce is used by a transaction that is not ours", async () => {
+    chain.onSend = () => chain.counts.latest++;
+
+    await expect(
+      monitor({ stuckTimeoutMs: 60000 }).sendAndWait(request)
+    ).rejects.toThrow("Nonce 7 on sepolia was used by another transaction");
+  });
+
+  it("fails on a reverted receipt after reporting it", async () => {
+    chain.onSend = () => chain.mine(0, 0);
+
+    await expect(
+      monitor({ stuckTimeoutMs: 60000 }).sendAndWait(request)
+    ).rejects.toThrow("0x1 on sepolia reverted");
+    expect(onMined).toHaveBeenCalledTimes(1);
+  });
+
+  it("frees the nonce when the original transaction is rejected", async () => {
+    chain.rejectSend = (call) => call === 1;
+
+    await expect(monitor().sendAndWait(request)).rejects.toThrow(
+      "was rejected"
+    );
+
+    chain.rejectSend = () => false;
+    chain.onSend = () => chain.mine(0);
+    await monitor().sendAndWait(request);
+    expect(chain.sent[0].nonce).toBe(7);
+  });
+  describe("getMaxCostWei", () => {
+    const bump = (fee: bigint) => (fee * 115n) / 100n + 1n;
+
+    it("covers the gas limit at the fee of the last replacement", () => {
+      const lastFee = bump(bump(bump(gwei("10"))));
+
+      expect(monitor().getMaxCostWei("sepolia", request.feeQuote)).toBe(
+        300000n * lastFee
+      );
+    });
+
+    it("stops bumping at the network max fee", () => {
+      // 18 gwei bumped by 15% passes the 20 gwei max of sepolia
+      const feeQuote = {
+        ...request.feeQuote,
+        maxFeePerGas: gwei("18").toString(),
+      };
+
+      expect(monitor().getMaxCostWei("sepolia", feeQuote)).toBe(
+        300000n * gwei("18")
+      );
+    });
+
+    it("covers a cancellation bumped past the max when it costs more", () => {
+      const feeQuote = {
+        ...request.feeQuote,
+        maxFeePerGas: gwei("18").toString(),
+        gasLimit: "21000",
+      };
+
+      expect(monitor().getMaxCostWei("sepolia", feeQuote)).toBe(
+        21000n * bump(gwei("18"))
+      );
+    });
+  });
+});
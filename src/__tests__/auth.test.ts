@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import express from "express";
+import jwt from "jsonwebtoken";
+import request from "supertest";
+import {
+  authenticate,
+  authorizeOwner,
+  requireScope,
+  restrictUserQuery,
+} from "../middleware/auth";
+import errorHandler from "../middleware/errorHandler";
+
+const JWT_SECRET = "test-secret";
+const DEPLOY_KEY = "deploy-key";
+const ADMIN_KEY = "admin-key";
+
+const sha256 = (value: string) =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+// Read once on the first request
+process.env.JWT_SECRET = JWT_SECRET;
+process.env.API_KEYS = JSON.stringify([
+  { name: "signalflow", keyHash: sha256(DEPLOY_KEY), scopes: ["deploy"] },
+  { name: "ops", keyHash: sha256(ADMIN_KEY), scopes: ["admin"] },
+]);
+
+const token = (payload: object, options: jwt.SignOptions = {}) =>
+  jwt.sign(payload, JWT_SECRET, { expiresIn: "5m", ...options });
+
+// Safe owners by safeId
+const SAFE_OWNERS: Record<string, string[]> = {
+  "safe-1": ["user-1"],
+  "safe-2": ["user-2"],
+};
+
+const app = express();
+app.use(authenticate);
+app.get("/safes", requireScope("read"), restrictUserQuery, (req, res) => {
+  res.json({ userId: req.query.userId });
+});
+app.post(
+  "/safes/:safeId/deploy",
+  requireScope("deploy"),
+  authorizeOwner(async (req) => SAFE_OWNERS[req.params.safeId] || []),
+  (req, res) => res.json({ subject: req.auth?.subject })
+);
+app.use(errorHandler);
+
+describe("authentication", () => {
+  it("accepts a Bearer JWT and takes its subject and scopes", async () => {
+    const res = await request(app)
+      .post("/safes/safe-1/deploy")
+      .set(
+        "Authorization",
+        `Bearer ${token({ sub: "user-1", scope: "read deploy" })}`
+      );
+
+    expect(res.status).toBe(200);
+    expect(res.body.subject).toBe("user-1");
+  });
+
+  it("accepts a configured API key", async () => {
+    const res = await request(app)
+      .post("/safes/safe-1/deploy")
+      .set("X-API-Key", ADMIN_KEY);
+
+    expect(res.status).toBe(200);
+    expect(res.body.subject).toBe("ops");
+  });
+
+  it("rejects requests without credentials or with an unknown API key", async () => {
+    expect((await request(app).get("/safes")).status).toBe(401);
+    expect(
+      (await request(app).get("/safes").set("X-API-Key", "other-key")).status
+    ).toBe(401);
+  });
+
+  it("rejects tokens with a wrong signature, no subject or past expiry", async () => {
+    const tokens = [
+      jwt.sign({ sub: "user-1" }, "other-secret"),
+      token({ scope: "read" }),
+      token({ sub: "user-1" }, { expiresIn: -10 }),
+    ];
+    for (const invalid of tokens) {
+      const res = await request(app)
+        .get("/safes")
+        .set("Authorization", `Bearer ${invalid}`);
+      expect(res.status).toBe(401);
+    }
+  });
+});
+
+describe("authorization", () => {
+  const asUser = (userId: string, scope?: string) =>
+    `Bearer ${token({ sub: userId, ...(scope && { scope }) })}`;
+
+  it("gives tokens without scopes read access only", async () => {
+    const read = await request(app)
+      .get("/safes")
+      .set("Authorization", asUser("user-1"));
+    const deploy = await request(app)
+      .post("/safes/safe-1/deploy")
+      .set("Authorization", asUser("user-1"));
+
+    expect(read.status).toBe(200);
+    expect(deploy.status).toBe(403);
+    expect(deploy.body.message).toContain("requires the deploy scope");
+  });
+
+  it("does not let API keys use scopes they were not given", async () => {
+    const res = await request(app).get("/safes").set("X-API-Key", DEPLOY_KEY);
+
+    expect(res.status).toBe(403);
+  });
+
+  it("only lets callers reach their own Safes", async () => {
+    const res = await request(app)
+      .post("/safes/safe-2/deploy")
+      .set("Authorization", asUser("user-1", "deploy"));
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe("Forbidden");
+  });
+
+  it("lets admins reach every Safe", async () => {
+    const res = await request(app)
+      .post("/safes/safe-2/deploy")
+      .set("Authorization", asUser("user-1", "admin"));
+
+    expect(res.status).toBe(200);
+  });
+
+  it("pins list queries to the caller's userId", async () => {
+    const own = await request(app)
+      .get("/safes")
+      .set("Authorization", asUser("user-1"));
+    const other = await request(app)
+      .get("/safes?userId=user-2")
+      .set("Authorization", asUser("user-1"));
+    const admin = await request(app)
+      .get("/safes?userId=user-2")
+      .set("X-API-Key", ADMIN_KEY);
+
+    expect(own.body.userId).toBe("user-1");
+    expect(other.status).toBe(403);
+    expect(admin.body.userId).toBe("user-2");
+  });
+});
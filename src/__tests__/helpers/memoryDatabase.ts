@@ -0,0 +1,186 @@
+import { BSON, ObjectId } from "mongodb";
+import { Aggregator, Query, update } from "mingo";
+import "mingo/init/system";
+import DatabaseConnection from "../../config/database";
+
+type Document = Record<string, any>;
+
+interface FindOptions {
+  sort?: Record<string, 1 | -1>;
+  returnDocument?: "before" | "after";
+  upsert?: boolean;
+}
+
+// Round trip through BSON like the driver: undefined fields are stored as null
+const clone = (value: Document): Document =>
+  BSON.deserialize(BSON.serialize(value));
+
+/**
+ * Apply a MongoDB update document, one operator at a time, or an update pipeline
+ */
+function applyUpdate(document: Document, changes: Document | Document[]): void {
+  if (Array.isArray(changes)) {
+    const [updated] = new Aggregator(changes).run([document]);
+    Object.keys(document).forEach((field) => delete document[field]);
+    Object.assign(document, updated);
+    return;
+  }
+  for (const [operator, fields] of Object.entries(changes)) {
+    update(document, { [operator]: fields } as never);
+  }
+}
+
+/**
+ * Collection subset used by the models, evaluated in memory with mingo
+ * Queries, sorts and updates follow MongoDB semantics, so model filters are tested as written
+ */
+export class MemoryCollection {
+  public documents: Document[] = [];
+
+  private matching(filter: Document): Document[] {
+    return new Query(filter).find<Document>(this.documents).all();
+  }
+
+  private first(filter: Document, sort?: Record<string, 1 | -1>) {
+    const cursor = new Query(filter).find<Document>(this.documents);
+    return (sort ? cursor.sort(sort) : cursor).limit(1).all()[0];
+  }
+
+  async insertOne(document: Document) {
+    const stored = clone({
+      ...document,
+      _id: document._id ?? new ObjectId(),
+    });
+    this.documents.push(stored);
+    return { acknowledged: true, insertedId: stored._id };
+  }
+
+  async replaceOne(filter: Document, replacement: Document) {
+    const existing = this.first(filter);
+    if (!existing) return { matchedCount: 0, modifiedCount: 0 };
+    this.documents[this.documents.indexOf(existing)] = clone({
+      ...replacement,
+      _id: existing._id,
+    });
+    return { matchedCount: 1, modifiedCount: 1 };
+  }
+
+  async findOne(filter: Document = {}) {
+    const document = this.first(filter);
+    return document ? clone(document) : null;
+  }
+
+  find(filter: Document = {}) {
+    let sort: Record<string, 1 | -1> | undefined;
+    let limit: number | undefined;
+    let projection: Document | undefined;
+    const cursor = {
+      sort: (spec: Record<string, 1 | -1>) => {
+        sort = spec;
+        return cursor;
+      },
+      limit: (count: number) => {
+        limit = count;
+        return cursor;
+      },
+      project: (spec: Document) => {
+        projection = spec;
+        return cursor;
+      },
+      toArray: async () => {
+        let results = new Query(filter).find<Document>(
+          this.documents,
+          projection
+        );
+        if (sort) results = results.sort(sort);
+        if (limit) results = results.limit(limit);
+        return results.all().map((document) => clone(document));
+      },
+    };
+    return cursor;
+  }
+
+  async findOneAndUpdate(
+    filter: Document,
+    changes: Document | Document[],
+    options: FindOptions = {}
+  ) {
+    let document = this.first(filter, options.sort);
+    if (!document && options.upsert) {
+      // Inserted from the equality fields of the filter, like the server does
+      document = Object.fromEntries(
+        Object.entries(filter).filter(
+          ([field, value]) =>
+            !field.startsWith("$") && typeof value !== "object"
+        )
+      );
+      document._id = new ObjectId();
+      this.documents.push(document);
+      if (options.returnDocument !== "after") {
+        applyUpdate(document, changes);
+        return null;
+      }
+    }
+    if (!document) return null;
+    const before = clone(document);
+    applyUpdate(document, changes);
+    return options.returnDocument === "after" ? clone(document) : before;
+  }
+
+  async updateOne(filter: Document, changes: Document) {
+    const document = this.first(filter);
+    if (!document) return { matchedCount: 0, modifiedCount: 0 };
+    applyUpdate(document, changes);
+    return { matchedCount: 1, modifiedCount: 1 };
+  }
+
+  async updateMany(filter: Document, changes: Document) {
+    const documents = this.matching(filter);
+    documents.forEach((document) => applyUpdate(document, changes));
+    return {
+      matchedCount: documents.length,
+      modifiedCount: documents.length,
+    };
+  }
+
+  async deleteOne(filter: Document) {
+    const document = this.first(filter);
+    if (document) this.documents.splice(this.documents.indexOf(document), 1);
+    return { deletedCount: document ? 1 : 0 };
+  }
+
+  async countDocuments(filter: Document = {}) {
+    return this.matching(filter).length;
+  }
+
+  aggregate(pipeline: Document[]) {
+    return {
+      toArray: async () =>
+        new Aggregator(pipeline)
+          .run(this.documents)
+          .map((document) => clone(document)),
+    };
+  }
+}
+
+/**
+ * Point DatabaseConnection at in-memory collections for the current test file
+ */
+export function useMemoryDatabase() {
+  const collections = new Map<string, MemoryCollection>();
+  const database = {
+    collection: (name: string) => {
+      if (!collections.has(name)) collections.set(name, new MemoryCollection());
+      return collections.get(name)!;
+    },
+  };
+  jest
+    .spyOn(DatabaseConnection.getInstance(), "getDatabase")
+    .mockReturnValue(database as never);
+
+  return {
+    collection: (name: string) => database.collection(name),
+    reset: () =>
+      collections.forEach((collection) => (collection.documents = [])),
+  };
+}
@@ -0,0 +1,10 @@
+// The winston logger writes to ./logs; tests only need the calls to succeed
+jest.mock("../../config/logger", () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
@@ -0,0 +1,128 @@
+import express, { Request, Response } from "express";
+import request from "supertest";
+import { idempotency } from "../middleware/idempotency";
+
+// Redis subset used by the idempotency store
+function createRedis() {
+  const values = new Map<string, string>();
+  return {
+    isReady: true,
+    values,
+    get: async (key: string) => values.get(key) ?? null,
+    set: async (key: string, value: string, options: { NX?: boolean }) => {
+      if (options.NX && values.has(key)) return null;
+      values.set(key, value);
+      return "OK";
+    },
+    del: async (key: string) => Number(values.delete(key)),
+  };
+}
+
+describe("idempotency middleware", () => {
+  let redis: ReturnType<typeof createRedis>;
+  let handled: number;
+  let respond: (req: Request, res: Response) => unknown;
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.redis = redis as never;
+    next();
+  });
+  app.post("/deploy", idempotency, (req, res) => {
+    handled++;
+    return respond(req, res);
+  });
+
+  const deploy = (body: object, key = "key-1") =>
+    request(app).post("/deploy").set("Idempotency-Key", key).send(body);
+
+  // The stored response is written after the handler returns
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    redis = createRedis();
+    handled = 0;
+    respond = (req, res) =>
+      res.status(201).json({ success: true, networks: req.body.networks });
+  });
+
+  it("replays the stored response for a repeat with the same body", async () => {
+    const first = await deploy({ networks: ["sepolia"], userId: "user-1" });
+    await settle();
+    // Property order does not change the body fingerprint
+    const repeat = await deploy({ userId: "user-1", networks: ["sepolia"] });
+
+    expect(handled).toBe(1);
+    expect(repeat.status).toBe(201);
+    expect(repeat.body).toEqual(first.body);
+    expect(repeat.headers["idempotent-replayed"]).toBe("true");
+  });
+
+  it("rejects a different body with the same key with 422", async () => {
+    await deploy({ networks: ["sepolia"] });
+    await settle();
+
+    const reused = await deploy({ networks: ["base_sepolia"] });
+
+    expect(reused.status).toBe(422);
+    expect(handled).toBe(1);
+  });
+
+  it("answers 409 while the first request is still in progress", async () => {
+    let finish!: () => void;
+    respond = (_req, res) =>
+      new Promise<void>((resolve) => {
+        finish = () => {
+          res.status(201).json({ success: true });
+          resolve();
+        };
+      });
+
+    const first = deploy({ networks: ["sepolia"] }).then((res) => res);
+    while (!finish) await settle();
+
+    const concurrent = await deploy({ networks: ["sepolia"] });
+    expect(concurrent.status).toBe(409);
+
+    finish();
+    expect((await first).status).toBe(201);
+    expect(handled).toBe(1);
+  });
+
+  it("releases the key after a server error so the request can be retried", async () => {
+    respond = (_req, res) => res.status(503).json({ success: false });
+    expect((await deploy({ networks: ["sepolia"] })).status).toBe(503);
+    await settle();
+
+    respond = (_req, res) => res.status(201).json({ success: true });
+    const retry = await deploy({ networks: ["sepolia"] });
+
+    expect(retry.status).toBe(201);
+    expect(retry.headers["idempotent-replayed"]).toBeUndefined();
+    expect(handled).toBe(2);
+  });
+
+  it("stores client errors like other responses", async () => {
+    respond = (_req, res) => res.status(400).json({ success: false });
+    await deploy({ networks: [] });
+    await settle();
+
+    const repeat = await deploy({ networks: [] });
+
+    expect(repeat.status).toBe(400);
+    expect(handled).toBe(1);
+  });
+
+  it("passes requests without a key through", async () => {
+    await request(app)
+      .post("/deploy")
+      .send({ networks: ["sepolia"] });
+    await request(app)
+      .post("/deploy")
+      .send({ networks: ["sepolia"] });
+
+    expect(handled).toBe(2);
+    expect(redis.values.size).toBe(0);
+  });
+});
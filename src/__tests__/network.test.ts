@@ -0,0 +1,37 @@
+import express from "express";
+import request from "supertest";
+import { getNetwork } from "../config/networks";
+import networkRoutes from "../routes/network";
+
+describe("public network routes", () => {
+  const network = getNetwork("sepolia");
+  const fallbackRpcs = network.fallbackRpcs;
+  const app = express();
+  app.use("/api/network", networkRoutes);
+
+  beforeAll(() => {
+    network.fallbackRpcs = ["https://rpc.example/v2/secret-api-key"];
+  });
+
+  afterAll(() => {
+    network.fallbackRpcs = fallbackRpcs;
+  });
+
+  it.each([
+    "/api/network/supported?type=testnet",
+    "/api/network/groups/testnet",
+    "/api/network/recommendations/development",
+  ])("leaves RPC URLs out of %s", async (path) => {
+    const response = await request(app).get(path).expect(200);
+
+    expect(JSON.stringify(response.body)).not.toContain("secret-api-key");
+    const networks =
+      response.body.data.networks ?? response.body.data.recommendations;
+    const sepolia = networks.find(
+      (n: { chainId: number }) => n.chainId === network.chainId
+    );
+    expect(sepolia).toMatchObject({ name: network.name });
+    expect(sepolia).not.toHaveProperty("rpc");
+    expect(sepolia).not.toHaveProperty("fallbackRpcs");
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  computeSafeAddress,
+  computeSafeAddressOnNetwork,
+  deriveDeterministicSaltNonce,
+} from "../utils/safeAddress";
+import { ZKSYNC_SAFE_CONTRACTS } from "../config/safeContracts";
+
+const OWNERS = [
+  "0x1111111111111111111111111111111111111111",
+  "0x2222222222222222222222222222222222222222",
+];
+
+// Predicted by protocol-kit's predictSafeAddress for the canonical v1.4.1 contracts
+const SAFE_L2_ADDRESS = "0xf4065759F44c99b596448F58F59249a8C13F819C";
+const SAFE_L1_ADDRESS = "0xbc4e362B9f505F4Abafbc6eCb07ed8581a0129f8";
+const TWO_OF_TWO_ADDRESS = "0x49feb956BC3C7E91F62977e66af1478e2122bbeE";
+
+describe("computeSafeAddress", () => {
+  it("matches the canonical v1.4.1 SafeL2 address", () => {
+    expect(
+      computeSafeAddress({ owners: OWNERS, threshold: 1, saltNonce: "0" })
+    ).toBe(SAFE_L2_ADDRESS);
+    expect(
+      computeSafeAddress({ owners: OWNERS, threshold: 2, saltNonce: "42" })
+    ).toBe(TWO_OF_TWO_ADDRESS);
+  });
+
+  it("changes with the owners, threshold and salt nonce", () => {
+    const addresses = new Set([
+      computeSafeAddress({ owners: OWNERS, threshold: 1, saltNonce: "0" }),
+      computeSafeAddress({ owners: OWNERS, threshold: 1, saltNonce: "1" }),
+      computeSafeAddress({ owners: OWNERS, threshold: 2, saltNonce: "0" }),
+      computeSafeAddress({
+        owners: [...OWNERS].reverse(),
+        threshold: 1,
+        saltNonce: "0",
+      }),
+    ]);
+    expect(addresses.size).toBe(4);
+  });
+});
+
+describe("computeSafeAddressOnNetwork", () => {
+  const config = {
+    owners: OWNERS,
+    threshold: 1,
+    saltNonce: "0",
+    safeVersion: "1.4.1" as const,
+  };
+
+  it("uses the singleton type of the network", () => {
+    expect(computeSafeAddressOnNetwork(config, {})).toBe(SAFE_L2_ADDRESS);
+    expect(computeSafeAddressOnNetwork(config, { singletonType: "l1" })).toBe(
+      SAFE_L1_ADDRESS
+    );
+  });
+
+  it("returns null where CREATE2 cannot be reproduced offline", () => {
+    expect(
+      computeSafeAddressOnNetwork(config, {
+        safeContracts: ZKSYNC_SAFE_CONTRACTS,
+      })
+    ).toBeNull();
+  });
+});
+
+describe("deriveDeterministicSaltNonce", () => {
+  it("derives the same salt nonce from the same user, agentType and index", () => {
+    // keccak256("safe:user-1:perpetuals:0"); changing the format moves every recovered Safe
+    expect(deriveDeterministicSaltNonce("user-1", "perpetuals", 0)).toBe(
+      "0x08bbc0748be6ec14096a25c1913d1b5c7e1affe2e036293392e7f87413cd0ca6"
+    );
+    expect(deriveDeterministicSaltNonce("user-1", "perpetuals", 0)).toBe(
+      deriveDeterministicSaltNonce("user-1", "perpetuals", 0)
+    );
+  });
+
+  it("derives a different salt nonce per user, agentType and index", () => {
+    const saltNonces = new Set([
+      deriveDeterministicSaltNonce("user-1", "perpetuals", 0),
+      deriveDeterministicSaltNonce("user-2", "perpetuals", 0),
+      deriveDeterministicSaltNonce("user-1", "spot", 0),
+      deriveDeterministicSaltNonce("user-1", "perpetuals", 1),
+    ]);
+    expect(saltNonces.size).toBe(4);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Agent key configuration
+ * Each agentType deploys and co-owns Safes with its own key, held by a
+ * configurable signer backend (env key, encrypted keystore or remote signer)
+ */
+import fs from "fs";
+import { ethers } from "ethers";
+
+export interface AgentTypeConfig {
+  name: string; // Canonical name stored on Safes and spend entries
+  aliases: string[];
+  description?: string;
+  signer: string; // Env prefix of the signer settings, e.g. AGENT -> AGENT_SIGNER_TYPE
+  defaultNetworks: string[]; // Used when a deployment does not list networks
+  allowedNetworks?: string[]; // Any supported network when unset
+  defaultTags: string[]; // Added to the metadata tags of new Safes
+}
+
+// Agent type used when a request has no agentType (the legacy single agent)
+export const DEFAULT_AGENT_TYPE = "perpetuals";
+
+const BUILT_IN_AGENT_TYPES: AgentTypeConfig[] = [
+  {
+    name: "perpetuals",
+    aliases: ["perp", "perps", "perpetual"],
+    description: "Perpetual futures trading agent",
+    signer: "AGENT",
+    defaultNetworks: [
+      "sepolia",
+      "arbitrum_sepolia",
+      "base_sepolia",
+      "arbitrum",
+    ],
+    defaultTags: [],
+  },
+  {
+    name: "spot",
+    aliases: [],
+    description: "Spot trading agent",
+    signer: "SPOT_AGENT",
+    defaultNetworks: [
+      "sepolia",
+      "arbitrum_sepolia",
+      "base_sepolia",
+      "arbitrum",
+    ],
+    defaultTags: [],
+  },
+];
+
+/**
+ * Built-in agent types, overridden or extended by AGENT_TYPES:
+ * [{"name": "options", "aliases": ["opt"], "signer": "OPTIONS_AGENT", "defaultNetworks": ["arbitrum"]}]
+ * An entry with the name of a built-in type replaces it
+ */
+function loadAgentTypes(): AgentTypeConfig[] {
+  const types = new Map(BUILT_IN_AGENT_TYPES.map((type) => [type.name, type]));
+
+  const raw = process.env.AGENT_TYPES;
+  if (raw) {
+    let entries: Partial<AgentTypeConfig>[];
+    try {
+      entries = JSON.parse(raw);
+    } catch (error) {
+      throw new Error("Invalid JSON in AGENT_TYPES environment variable");
+    }
+    if (!Array.isArray(entries)) {
+      throw new Error("AGENT_TYPES must be a JSON array of agent types");
+    }
+
+    for (const entry of entries) {
+      if (!entry.name || !entry.signer) {
+        throw new Error("Each AGENT_TYPES entry needs a name and a signer");
+      }
+      const name = entry.name.toLowerCase();
+      types.set(name, {
+        name,
+        aliases: (entry.aliases || []).map((alias) => alias.toLowerCase()),
+        description: entry.description,
+        signer: entry.signer.toUpperCase(),
+        defaultNetworks: entry.defaultNetworks || [],
+        allowedNetworks: entry.allowedNetworks,
+        defaultTags: entry.defaultTags || [],
+      });
+    }
+  }
+
+  // A name or alias must point at exactly one type
+  const owners = new Map<string, string>();
+  for (const type of types.values()) {
+    for (const name of [type.name, ...type.aliases]) {
+      const owner = owners.get(name);
+      if (owner && owner !== type.name) {
+        throw new Error(
+          `Agent type name "${name}" is used by both ${owner} and ${type.name}`
+        );
+      }
+      owners.set(name, type.name);
+    }
+  }
+
+  return [...types.values()];
+}
+
+export const AGENT_TYPES: AgentTypeConfig[] = loadAgentTypes();
+
+/**
+ * Look up an agentType by name or alias (case-insensitive); empty means the default type
+ */
+export function findAgentType(agentType?: string): AgentTypeConfig | undefined {
+  const name = (agentType || DEFAULT_AGENT_TYPE).trim().toLowerCase();
+  return AGENT_TYPES.find(
+    (type) => type.name === name || type.aliases.includes(name)
+  );
+}
+
+export function isAgentTypeSupported(agentType?: string): boolean {
+  return findAgentType(agentType) !== undefined;
+}
+
+/**
+ * Resolve an agentType, rejecting unknown ones instead of falling back to another key
+ */
+export function getAgentType(agentType?: string): AgentTypeConfig {
+  const type = findAgentType(agentType);
+  if (!type) {
+    throw new Error(
+      `Unknown agentType "${agentType}"; expected one of ${AGENT_TYPES.map((t) => t.name).join(", ")}`
+    );
+  }
+  return type;
+}
+
+/**
+ * Throw if an agentType may not deploy on one of the networks
+ */
+export function assertAgentTypeNetworks(
+  agentType: AgentTypeConfig,
+  networks: string[]
+): void {
+  if (!agentType.allowedNetworks) return;
+  const disallowed = networks.filter(
+    (networkKey) => !agentType.allowedNetworks!.includes(networkKey)
+  );
+  if (disallowed.length > 0) {
+    throw new Error(
+      `Networks not allowed for agentType ${agentType.name}: ${disallowed.join(", ")}`
+    );
+  }
+}
+
+/**
+ * Normalize agentType for storage keys (empty means the legacy perpetuals agent)
+ * Aliases map to their type; unknown names are kept as given so stored records stay queryable
+ */
+export function normalizeAgentType(agentType?: string): string {
+  return (
+    findAgentType(agentType)?.name ||
+    (agentType || DEFAULT_AGENT_TYPE).toLowerCase()
+  );
+}
+
+export type AgentSignerType = "env" | "keystore" | "remote";
+
+export const AGENT_SIGNER_TYPES: AgentSignerType[] = [
+  "env",
+  "keystore",
+  "remote",
+];
+
+export type AgentSignerConfig =
+  | { type: "env"; privateKey: string }
+  | { type: "keystore"; path: string; passphrase: string }
+  | { type: "remote"; url: string; address: string };
+
+function requireEnv(name: string, agentType: string): string {
+  const value = process.env[name] || "";
+  if (!value) {
+    throw new Error(
+      `${name} environment variable is required for ${agentType} agentType`
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolve how the agent key of an agentType signs, from <PREFIX>_SIGNER_TYPE
+ * where PREFIX is the type's signer reference (AGENT for perpetuals, SPOT_AGENT for spot)
+ * env (default): <PREFIX>_PRIVATE_KEY
+ * keystore: encrypted JSON keystore at <PREFIX>_KEYSTORE_PATH, unlocked with <PREFIX>_KEYSTORE_PASSPHRASE
+ * remote: Web3Signer-compatible signer at <PREFIX>_REMOTE_SIGNER_URL holding <PREFIX>_REMOTE_SIGNER_ADDRESS
+ */
+export function getAgentSignerConfig(agentType?: string): AgentSignerConfig {
+  const { name: normalized, signer: prefix } = getAgentType(agentType);
+  const type = (process.env[`${prefix}_SIGNER_TYPE`] || "env").toLowerCase();
+
+  switch (type) {
+    case "env":
+      return {
+        type: "env",
+        privateKey: requireEnv(`${prefix}_PRIVATE_KEY`, normalized),
+      };
+    case "keystore":
+      return {
+        type: "keystore",
+        path: requireEnv(`${prefix}_KEYSTORE_PATH`, normalized),
+        passphrase: requireEnv(`${prefix}_KEYSTORE_PASSPHRASE`, normalized),
+      };
+    case "remote": {
+      const address = requireEnv(`${prefix}_REMOTE_SIGNER_ADDRESS`, normalized);
+      if (!ethers.isAddress(address)) {
+        throw new Error(
+          `${prefix}_REMOTE_SIGNER_ADDRESS is not a valid address: ${address}`
+        );
+      }
+      return {
+        type: "remote",
+        url: requireEnv(`${prefix}_REMOTE_SIGNER_URL`, normalized),
+        address: ethers.getAddress(address),
+      };
+    }
+    default:
+      throw new Error(
+        `Unsupported ${prefix}_SIGNER_TYPE "${type}"; expected one of ${AGENT_SIGNER_TYPES.join(", ")}`
+      );
+  }
+}
+
+// Addresses by agentType, resolved again only when the signer settings change
+const agentAddresses = new Map<
+  string,
+  { signature: string; address: string }
+>();
+
+/**
+ * Get the agent address that co-owns Safes for an agentType
+ * Known without unlocking the key: keystores store their address in clear,
+ * read once per keystore setting instead of on every call
+ */
+export function getAgentAddress(agentType?: string): string {
+  const { name } = getAgentType(agentType);
+  const config = getAgentSignerConfig(name);
+  const signature = JSON.stringify(config);
+
+  const cached = agentAddresses.get(name);
+  if (cached?.signature === signature) {
+    return cached.address;
+  }
+
+  const address = resolveAgentAddress(config);
+  agentAddresses.set(name, { signature, address });
+  return address;
+}
+
+function resolveAgentAddress(config: AgentSignerConfig): string {
+  switch (config.type) {
+    case "env":
+      return new ethers.Wallet(config.privateKey).address;
+    case "keystore":
+      return ethers.getAddress(
+        JSON.parse(fs.readFileSync(config.path, "utf8")).address
+      );
+    case "remote":
+      return config.address;
+  }
+}
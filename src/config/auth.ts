@@ -0,0 +1,62 @@
+/**
+ * Authentication configuration
+ * JWT bearer tokens for end users, hashed API keys for service-to-service calls
+ */
+
+export type AuthScope = "read" | "deploy" | "admin";
+
+export const AUTH_SCOPES: AuthScope[] = ["read", "deploy", "admin"];
+
+export interface ApiKeyConfig {
+  name: string;
+  keyHash: string; // sha256 hex of the raw key
+  scopes: AuthScope[];
+}
+
+export interface AuthConfig {
+  jwtSecret: string;
+  jwtIssuer?: string;
+  jwtAudience?: string;
+  apiKeys: ApiKeyConfig[];
+}
+
+let authConfig: AuthConfig | null = null;
+
+/**
+ * JWT_SECRET:   HMAC secret used to verify bearer tokens
+ * API_KEYS:     [{"name": "signalflow", "keyHash": "<sha256 hex>", "scopes": ["read", "deploy"]}]
+ * Generate a hash with: echo -n "<key>" | sha256sum
+ */
+export function getAuthConfig(): AuthConfig {
+  if (authConfig) {
+    return authConfig;
+  }
+
+  let apiKeys: ApiKeyConfig[] = [];
+  if (process.env.API_KEYS) {
+    try {
+      apiKeys = JSON.parse(process.env.API_KEYS) as ApiKeyConfig[];
+    } catch (error) {
+      throw new Error("Invalid JSON in API_KEYS environment variable");
+    }
+  }
+
+  for (const apiKey of apiKeys) {
+    const unknownScopes = apiKey.scopes.filter(
+      (scope) => !AUTH_SCOPES.includes(scope)
+    );
+    if (unknownScopes.length > 0) {
+      throw new Error(
+        `Invalid scopes for API key ${apiKey.name}: ${unknownScopes.join(", ")}`
+      );
+    }
+  }
+
+  authConfig = {
+    jwtSecret: process.env.JWT_SECRET || "",
+    jwtIssuer: process.env.JWT_ISSUER || undefined,
+    jwtAudience: process.env.JWT_AUDIENCE || undefined,
+    apiKeys,
+  };
+  return authConfig;
+}
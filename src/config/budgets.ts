@@ -0,0 +1,55 @@
+/**
+ * Gas sponsorship budgets for Safe deployments
+ * Amounts are in the native token of each network (e.g. "0.05" ETH on ethereum)
+ */
+
+export type NetworkBudgets = Partial<Record<string, string>>;
+
+export interface SpendBudgetConfig {
+  windowHours: number;
+  perUser: NetworkBudgets;
+  perAgentType: Record<string, NetworkBudgets>;
+}
+
+function parseBudgetJson<T>(name: string, fallback: T): T {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${name} environment variable`);
+  }
+}
+
+/**
+ * USER_SPEND_BUDGETS:       {"ethereum": "0.02", "arbitrum": "0.002"}
+ * AGENT_TYPE_SPEND_BUDGETS: {"perpetuals": {"ethereum": "0.5"}, "spot": {...}}
+ * Networks without an entry have no budget limit.
+ */
+export const SPEND_BUDGETS: SpendBudgetConfig = {
+  windowHours: parseInt(process.env.SPEND_BUDGET_WINDOW_HOURS || "720"),
+  perUser: parseBudgetJson<NetworkBudgets>("USER_SPEND_BUDGETS", {}),
+  perAgentType: parseBudgetJson<Record<string, NetworkBudgets>>(
+    "AGENT_TYPE_SPEND_BUDGETS",
+    {}
+  ),
+};
+
+/**
+ * Get the per-user budget for a network, if one is configured
+ */
+export function getUserBudget(networkKey: string): string | undefined {
+  return SPEND_BUDGETS.perUser[networkKey];
+}
+
+/**
+ * Get the per-agentType budget for a network, if one is configured
+ */
+export function getAgentTypeBudget(
+  agentType: string,
+  networkKey: string
+): string | undefined {
+  return SPEND_BUDGETS.perAgentType[agentType]?.[networkKey];
+}
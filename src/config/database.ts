@@ -92,11 +92,76 @@ class DatabaseConnection {
       // Create indexes for better query performance
       await safesCollection.createIndex({ "userInfo.userId": 1 });
       await safesCollection.createIndex({ "userInfo.walletAddress": 1 });
-      await safesCollection.createIndex({ "deployments.address": 1 });
       await safesCollection.createIndex({ status: 1 });
       await safesCollection.createIndex({ "metadata.createdAt": -1 });
+      await safesCollection.createIndex({ "reconciliation.checkedAt": 1 });
       await safesCollection.createIndex({ safeId: 1 }, { unique: true });
 
+      const jobsCollection = this.database.collection("deployment_jobs");
+      await jobsCollection.createIndex({ jobId: 1 }, { unique: true });
+      await jobsCollection.createIndex({ safeId: 1, status: 1 });
+      await jobsCollection.createIndex({ status: 1, createdAt: 1 });
+
+      const spendCollection = this.database.collection("deployer_spend");
+      await spendCollection.createIndex({
+        userId: 1,
+        networkKey: 1,
+        createdAt: -1,
+      });
+      await spendCollection.createIndex({
+        agentType: 1,
+        networkKey: 1,
+        createdAt: -1,
+      });
+
+      const reservationsCollection =
+        this.database.collection("spend_reservations");
+      await reservationsCollection.createIndex({ key: 1 }, { unique: true });
+
+      // Key rotation indexes
+      const rotationsCollection = this.database.collection("key_rotations");
+      await rotationsCollection.createIndex(
+        { rotationId: 1 },
+        { unique: true }
+      );
+      await rotationsCollection.createIndex({ agentType: 1, createdAt: -1 });
+      await rotationsCollection.createIndex({ status: 1, createdAt: 1 });
+
+      // Policy violation indexes
+      const violationsCollection =
+        this.database.collection("policy_violations");
+      await violationsCollection.createIndex({ safeId: 1, createdAt: -1 });
+
+      // Safe transaction indexes
+      const transactionsCollection =
+        this.database.collection("safe_transactions");
+      await transactionsCollection.createIndex(
+        { safeId: 1, safeTxHash: 1 },
+        { unique: true }
+      );
+      await transactionsCollection.createIndex({ safeId: 1, createdAt: -1 });
+      await transactionsCollection.createIndex({ transactionId: 1 });
+      await transactionsCollection.createIndex({
+        safeId: 1,
+        networkKey: 1,
+        status: 1,
+        executedAt: -1,
+      });
+
+      // Idempotency key indexes (expired keys removed by TTL)
+      const idempotencyCollection =
+        this.database.collection("idempotency_keys");
+      await idempotencyCollection.createIndex({ key: 1 }, { unique: true });
+      await idempotencyCollection.createIndex(
+        { expiresAt: 1 },
+        { expireAfterSeconds: 0 }
+      );
+
+      // Network registry indexes
+      const networksCollection = this.database.collection("networks");
+      await networksCollection.createIndex({ key: 1 }, { unique: true });
+      await networksCollection.createIndex({ chainId: 1 });
+
       logger.info("Database indexes created successfully");
     } catch (error) {
       logger.error("Error creating database indexes:", error);
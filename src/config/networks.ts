@@ -3,12 +3,25 @@
  * Supports mainnet and testnet networks across multiple chains
  */
 
+import {
+  SafeContractDeployment,
+  SafeSingletonType,
+  SafeVersion,
+} from "./safeContracts.js";
+
 export interface NetworkCurrency {
   name: string;
   symbol: string;
   decimals: number;
 }
 
+export interface NetworkToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+  name?: string;
+}
+
 export interface GasPrice {
   min: number;
   max: number;
@@ -17,26 +30,24 @@ export interface GasPrice {
 
 export interface NetworkConfig {
   name: string;
-  rpc: string;
+  rpc: string; // Primary endpoint
+  fallbackRpcs?: string[]; // Tried after the primary, ordered by health score
+  rpcQuorum?: number; // Endpoints that must agree; defaults to 1 (ordered failover)
   chainId: number;
   explorer: string;
   currency: NetworkCurrency;
   isTestnet: boolean;
-  safeVersion: string;
+  safeVersion: SafeVersion; // Default for Safes deployed on this network
+  singletonType?: SafeSingletonType; // Defaults to l2
+  safeContracts?: Partial<Record<SafeVersion, SafeContractDeployment>>; // Non-canonical deployments
   features: string[];
   faucets: string[];
   gasPrice: GasPrice;
+  tokens?: NetworkToken[]; // ERC-20s reported by the Safe balances endpoint
 }
 
-export type NetworkKey =
-  | "ethereum"
-  | "sepolia"
-  | "arbitrum"
-  | "arbitrum_sepolia"
-  | "polygon"
-  | "base"
-  | "base_sepolia"
-  | "optimism";
+// Networks live in the registry collection, so any registered key is valid
+export type NetworkKey = string;
 
 export type NetworkGroupKey =
   | "mainnet"
@@ -51,11 +62,26 @@ export interface FeatureInfo {
   description: string;
 }
 
+/**
+ * Parse a comma-separated list of RPC URLs from an environment variable
+ */
+function parseRpcList(value?: string): string[] {
+  return (value || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0);
+}
+
+/**
+ * Built-in networks used to seed the network registry on first start
+ * After seeding, the registry collection is the source of truth
+ */
 export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
   // Ethereum
   ethereum: {
     name: "Ethereum Mainnet",
     rpc: process.env.ETHEREUM_RPC || "https://ethereum-rpc.publicnode.com",
+    fallbackRpcs: parseRpcList(process.env.ETHEREUM_FALLBACK_RPCS),
     chainId: 1,
     explorer: "https://etherscan.io",
     currency: { name: "Ether", symbol: "ETH", decimals: 18 },
@@ -64,12 +90,33 @@ export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
     features: ["defi_hub", "highest_liquidity", "most_dapps"],
     faucets: [],
     gasPrice: { min: 20, max: 200, unit: "gwei" },
+    tokens: [
+      {
+        address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+        symbol: "USDC",
+        decimals: 6,
+        name: "USD Coin",
+      },
+      {
+        address: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+        symbol: "USDT",
+        decimals: 6,
+        name: "Tether USD",
+      },
+      {
+        address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+        symbol: "WETH",
+        decimals: 18,
+        name: "Wrapped Ether",
+      },
+    ],
   },
   sepolia: {
     name: "Ethereum Sepolia",
     rpc:
       process.env.ETHEREUM_SEPOLIA_RPC ||
       "https://ethereum-sepolia-rpc.publicnode.com",
+    fallbackRpcs: parseRpcList(process.env.ETHEREUM_SEPOLIA_FALLBACK_RPCS),
     chainId: 11155111,
     explorer: "https://sepolia.etherscan.io",
     currency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
@@ -88,6 +135,7 @@ export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
   arbitrum: {
     name: "Arbitrum One",
     rpc: process.env.ARBITRUM_RPC || "https://arb1.arbitrum.io/rpc",
+    fallbackRpcs: parseRpcList(process.env.ARBITRUM_FALLBACK_RPCS),
     chainId: 42161,
     explorer: "https://arbiscan.io",
     currency: { name: "Ether", symbol: "ETH", decimals: 18 },
@@ -96,12 +144,27 @@ export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
     features: ["low_fees", "fast_execution", "derivatives", "gaming"],
     faucets: [],
     gasPrice: { min: 0.1, max: 2, unit: "gwei" },
+    tokens: [
+      {
+        address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+        symbol: "USDC",
+        decimals: 6,
+        name: "USD Coin",
+      },
+      {
+        address: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+        symbol: "WETH",
+        decimals: 18,
+        name: "Wrapped Ether",
+      },
+    ],
   },
   arbitrum_sepolia: {
     name: "Arbitrum Sepolia",
     rpc:
       process.env.ARBITRUM_SEPOLIA_RPC ||
       "https://sepolia-rollup.arbitrum.io/rpc",
+    fallbackRpcs: parseRpcList(process.env.ARBITRUM_SEPOLIA_FALLBACK_RPCS),
     chainId: 421614,
     explorer: "https://sepolia.arbiscan.io",
     currency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
@@ -116,6 +179,7 @@ export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
   polygon: {
     name: "Polygon Mainnet",
     rpc: process.env.POLYGON_RPC || "https://polygon.llamarpc.com",
+    fallbackRpcs: parseRpcList(process.env.POLYGON_FALLBACK_RPCS),
     chainId: 137,
     explorer: "https://polygonscan.com",
     currency: { name: "Polygon", symbol: "MATIC", decimals: 18 },
@@ -129,12 +193,27 @@ export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
     ],
     faucets: [],
     gasPrice: { min: 30, max: 300, unit: "gwei" },
+    tokens: [
+      {
+        address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+        symbol: "USDC",
+        decimals: 6,
+        name: "USD Coin",
+      },
+      {
+        address: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619",
+        symbol: "WETH",
+        decimals: 18,
+        name: "Wrapped Ether",
+      },
+    ],
   },
 
   // Base
   base: {
     name: "Base Mainnet",
     rpc: process.env.BASE_RPC || "https://mainnet.base.org",
+    fallbackRpcs: parseRpcList(process.env.BASE_FALLBACK_RPCS),
     chainId: 8453,
     explorer: "https://basescan.org",
     currency: { name: "Ether", symbol: "ETH", decimals: 18 },
@@ -148,10 +227,25 @@ export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
     ],
     faucets: [],
     gasPrice: { min: 0.1, max: 2, unit: "gwei" },
+    tokens: [
+      {
+        address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+        symbol: "USDC",
+        decimals: 6,
+        name: "USD Coin",
+      },
+      {
+        address: "0x4200000000000000000000000000000000000006",
+        symbol: "WETH",
+        decimals: 18,
+        name: "Wrapped Ether",
+      },
+    ],
   },
   base_sepolia: {
     name: "Base Sepolia",
     rpc: process.env.BASE_SEPOLIA_RPC || "https://sepolia.base.org",
+    fallbackRpcs: parseRpcList(process.env.BASE_SEPOLIA_FALLBACK_RPCS),
     chainId: 84532,
     explorer: "https://sepolia.basescan.org",
     currency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
@@ -169,6 +263,7 @@ export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
   optimism: {
     name: "Optimism Mainnet",
     rpc: process.env.OPTIMISM_RPC || "https://mainnet.optimism.io",
+    fallbackRpcs: parseRpcList(process.env.OPTIMISM_FALLBACK_RPCS),
     chainId: 10,
     explorer: "https://optimistic.etherscan.io",
     currency: { name: "Ether", symbol: "ETH", decimals: 18 },
@@ -182,6 +277,20 @@ export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
     ],
     faucets: [],
     gasPrice: { min: 0.001, max: 0.1, unit: "gwei" },
+    tokens: [
+      {
+        address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+        symbol: "USDC",
+        decimals: 6,
+        name: "USD Coin",
+      },
+      {
+        address: "0x4200000000000000000000000000000000000006",
+        symbol: "WETH",
+        decimals: 18,
+        name: "Wrapped Ether",
+      },
+    ],
   },
 };
 
@@ -271,17 +380,45 @@ export const FEATURES: Record<string, FeatureInfo> = {
   },
 };
 
+// Enabled registry networks, kept in memory by NetworkRegistry
+let registryNetworks: Record<NetworkKey, NetworkConfig> | null = null;
+
+/**
+ * Replace the cached registry networks (called by NetworkRegistry on refresh)
+ */
+export function setRegistryNetworks(
+  networks: Record<NetworkKey, NetworkConfig>
+): void {
+  registryNetworks = networks;
+}
+
+/**
+ * Get all enabled networks; falls back to the built-in seed until the registry is loaded
+ */
+export function getAllNetworks(): Record<NetworkKey, NetworkConfig> {
+  return registryNetworks || NETWORKS;
+}
+
 /**
  * Get network configuration by key
  */
 export function getNetwork(networkKey: NetworkKey): NetworkConfig {
-  const network = NETWORKS[networkKey];
+  const network = getAllNetworks()[networkKey];
   if (!network) {
     throw new Error(`Unsupported network: ${networkKey}`);
   }
   return network;
 }
 
+/**
+ * All RPC endpoints of a network, primary first, without duplicates
+ */
+export function getRpcUrls(
+  network: Pick<NetworkConfig, "rpc" | "fallbackRpcs">
+): string[] {
+  return [...new Set([network.rpc, ...(network.fallbackRpcs || [])])];
+}
+
 /**
  * Get networks by group
  */
@@ -292,7 +429,7 @@ export function getNetworksByGroup(
   if (!networkKeys) {
     throw new Error(`Unknown network group: ${groupName}`);
   }
-  return networkKeys.map((key) => NETWORKS[key]);
+  return networkKeys.filter(isNetworkSupported).map(getNetwork);
 }
 
 /**
@@ -303,7 +440,7 @@ export function getNetworksByFeature(featureName: string): NetworkConfig[] {
     throw new Error(`Unknown feature: ${featureName}`);
   }
 
-  return Object.values(NETWORKS).filter((network) =>
+  return Object.values(getAllNetworks()).filter((network) =>
     network.features.includes(featureName)
   );
 }
@@ -314,7 +451,7 @@ export function getNetworksByFeature(featureName: string): NetworkConfig[] {
 export function isNetworkSupported(
   networkKey: string
 ): networkKey is NetworkKey {
-  return networkKey in NETWORKS;
+  return Object.prototype.hasOwnProperty.call(getAllNetworks(), networkKey);
 }
 
 /**
@@ -331,5 +468,5 @@ export function getRecommendedNetworks(useCase: string): NetworkConfig[] {
   };
 
   const networkKeys = recommendations[useCase] || ["ethereum"];
-  return networkKeys.map((key) => NETWORKS[key]);
+  return networkKeys.filter(isNetworkSupported).map(getNetwork);
 }
@@ -0,0 +1,223 @@
+/**
+ * Safe contract deployments used for Safe wallets
+ * Canonical addresses are identical on every EVM chain, which is what makes
+ * the same Safe address reproducible across networks
+ */
+
+import { NetworkConfig } from "./networks.js";
+
+export type SafeVersion = "1.3.0" | "1.4.1";
+
+export const SAFE_VERSIONS: SafeVersion[] = ["1.3.0", "1.4.1"];
+
+export const DEFAULT_SAFE_VERSION: SafeVersion = "1.4.1";
+
+// L2 singletons emit events for indexers; they are the default so addresses match across chains
+export type SafeSingletonType = "l1" | "l2";
+
+export interface SafeContractSet {
+  safeSingletonAddress: string;
+  safeProxyFactoryAddress: string;
+  multiSendAddress: string;
+  multiSendCallOnlyAddress: string;
+  fallbackHandlerAddress: string;
+  signMessageLibAddress: string;
+  createCallAddress: string;
+}
+
+/**
+ * All contracts of one Safe version on a chain, with both singletons
+ * proxyCreationCode is omitted where CREATE2 differs from the EVM (zkSync),
+ * which disables offline address prediction on that network
+ */
+export interface SafeContractDeployment
+  extends Omit<SafeContractSet, "safeSingletonAddress"> {
+  safeSingletonL1Address: string;
+  safeSingletonL2Address: string;
+  proxyCreationCode?: string;
+}
+
+export const SAFE_CONTRACT_ADDRESS_FIELDS: Array<
+  Exclude<keyof SafeContractDeployment, "proxyCreationCode">
+> = [
+  "safeSingletonL1Address",
+  "safeSingletonL2Address",
+  "safeProxyFactoryAddress",
+  "multiSendAddress",
+  "multiSendCallOnlyAddress",
+  "fallbackHandlerAddress",
+  "signMessageLibAddress",
+  "createCallAddress",
+];
+
+/**
+ * Contracts resolved for a network, version and singleton type
+ */
+export interface ResolvedSafeContracts {
+  safeVersion: SafeVersion;
+  contracts: SafeContractSet;
+  isL1SafeSingleton: boolean;
+  proxyCreationCode?: string;
+}
+
+/**
+ * SafeProxy creation code as returned by SafeProxyFactory v1.4.1 proxyCreationCode()
+ * Embedded so addresses can be computed without an RPC call
+ */
+export const SAFE_PROXY_CREATION_CODE_V1_4_1 =
+  "0x608060405234801561001057600080fd5b506040516101e63803806101" +
+  "e68339818101604052602081101561003357600080fd5b8101908080519060200190" +
+  "929190505050600073ffffffffffffffffffffffffffffffffffffffff168173ffff" +
+  "ffffffffffffffffffffffffffffffffffff1614156100ca576040517f08c379a000" +
+  "00000000000000000000000000000000000000000000000000000081526004018080" +
+  "602001828103825260228152602001806101c4602291396040019150506040518091" +
+  "0390fd5b806000806101000a81548173ffffffffffffffffffffffffffffffffffff" +
+  "ffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550" +
+  "5060ab806101196000396000f3fe608060405273ffffffffffffffffffffffffffff" +
+  "ffffffffffff600054167fa619486e00000000000000000000000000000000000000" +
+  "00000000000000000060003514156050578060005260206000f35b36600080376000" +
+  "80366000845af43d6000803e60008114156070573d6000fd5b3d6000f3fea2646970" +
+  "66735822122003d1488ee65e08fa41e58e888a9865554c535f2c77126a82cb4c0f91" +
+  "7f31441364736f6c63430007060033496e76616c69642073696e676c65746f6e2061" +
+  "6464726573732070726f7669646564";
+
+/**
+ * GnosisSafeProxy creation code as returned by GnosisSafeProxyFactory v1.3.0 proxyCreationCode()
+ */
+export const SAFE_PROXY_CREATION_CODE_V1_3_0 =
+  "0x608060405234801561001057600080fd5b506040516101e63803806101e6" +
+  "8339818101604052602081101561003357600080fd5b810190808051906020019092" +
+  "9190505050600073ffffffffffffffffffffffffffffffffffffffff168173ffffff" +
+  "ffffffffffffffffffffffffffffffffff1614156100ca576040517f08c379a00000" +
+  "00000000000000000000000000000000000000000000000000008152600401808060" +
+  "2001828103825260228152602001806101c460229139604001915050604051809103" +
+  "90fd5b806000806101000a81548173ffffffffffffffffffffffffffffffffffffff" +
+  "ff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555050" +
+  "60ab806101196000396000f3fe608060405273ffffffffffffffffffffffffffffff" +
+  "ffffffffff600054167fa619486e0000000000000000000000000000000000000000" +
+  "000000000000000060003514156050578060005260206000f35b3660008037600080" +
+  "366000845af43d6000803e60008114156070573d6000fd5b3d6000f3fea264697066" +
+  "7358221220d1429297349653a4918076d650332de1a1068c5f3e07c5c82360c27777" +
+  "0b955264736f6c63430007060033496e76616c69642073696e676c65746f6e206164" +
+  "64726573732070726f7669646564";
+
+// Canonical deployments (deterministic deployment proxy), available on most EVM chains
+export const CANONICAL_SAFE_CONTRACTS: Record<
+  SafeVersion,
+  SafeContractDeployment
+> = {
+  "1.3.0": {
+    safeSingletonL1Address: "0xd9Db270c1B5E3Bd161E8c8503c55cEABeE709552",
+    safeSingletonL2Address: "0x3E5c63644E683549055b9Be8653de26E0B4CD36E",
+    safeProxyFactoryAddress: "0xa6B71E26C5e0845f74c812102Ca7114b6a896AB2",
+    multiSendAddress: "0xA238CBeb142c10Ef7Ad8442C6D1f9E89e07e7761",
+    multiSendCallOnlyAddress: "0x40A2aCCbd92BCA938b02010E17A5b8929b49130D",
+    fallbackHandlerAddress: "0xf48f2B2d2a534e402487b3ee7C18c33Aec0Fe5e4",
+    signMessageLibAddress: "0xA65387F16B013cf2Af4605Ad8aA5ec25a2cbA3a2",
+    createCallAddress: "0x7cbB62EaA69F79e6873cD1ecB2392971036cFAa4",
+    proxyCreationCode: SAFE_PROXY_CREATION_CODE_V1_3_0,
+  },
+  "1.4.1": {
+    safeSingletonL1Address: "0x41675C099F32341bf84BFc5382aF534df5C7461a",
+    safeSingletonL2Address: "0x29fcB43b46531BcA003ddC8FCB67FFE91900C762",
+    safeProxyFactoryAddress: "0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67",
+    multiSendAddress: "0x38869bf66a61cF6bDB996A6aE40D5853Fd43B526",
+    multiSendCallOnlyAddress: "0x9641d764fc13c8B624c04430C7356C1C7C8102e2",
+    fallbackHandlerAddress: "0xfd0732Dc9E303f09fCEf3a7388Ad10A83459Ec99",
+    signMessageLibAddress: "0xd53cd0aB83D845Ac265BE939c57F53AD838012c9",
+    createCallAddress: "0x9b35Af71d77eaf8d7e40252370304687390A1A52",
+    proxyCreationCode: SAFE_PROXY_CREATION_CODE_V1_4_1,
+  },
+};
+
+// Safe v1.4.1 canonical deployments (SafeL2 singleton)
+export const SAFE_V1_4_1_CONTRACTS: SafeContractSet = toContractSet(
+  CANONICAL_SAFE_CONTRACTS["1.4.1"],
+  "l2"
+);
+
+/**
+ * zkSync Era deployments; set as a network's safeContracts when registering a zkSync chain
+ */
+export const ZKSYNC_SAFE_CONTRACTS: Record<
+  SafeVersion,
+  SafeContractDeployment
+> = {
+  "1.3.0": {
+    safeSingletonL1Address: "0xB00ce5CCcdEf57e539ddcEd01DF43a13855d9910",
+    safeSingletonL2Address: "0x1727c2c531cf966f902E5927b98490fDFb3b2b70",
+    safeProxyFactoryAddress: "0xDAec33641865E4651fB43181C6DB6f7232Ee91c2",
+    multiSendAddress: "0x0dFcccB95225ffB03c6FBB2559B530C2B7C8A912",
+    multiSendCallOnlyAddress: "0xf220D3b4DFb23C4ade8C88E526C1353AbAcbC38F",
+    fallbackHandlerAddress: "0x2f870a80647BbC554F3a0EBD093f11B4d2a7492A",
+    signMessageLibAddress: "0x357147caf9C0cCa67DfA0CF5369318d8193c8407",
+    createCallAddress: "0xcB8e5E438c5c2b45FbE17B02Ca9aF91509a8ad56",
+  },
+  "1.4.1": {
+    safeSingletonL1Address: "0xC35F063962328aC65cED5D4c3fC5dEf8dec68dFa",
+    safeSingletonL2Address: "0x610fcA2e0279Fa1F8C00c8c2F71dF522AD469380",
+    safeProxyFactoryAddress: "0xc329D02fd8CB2fc13aa919005aF46320794a8629",
+    multiSendAddress: "0x309D0B190FeCCa8e1D5D8309a16F7e3CB133E885",
+    multiSendCallOnlyAddress: "0x0408EF011960d02349d50286D20531229BCef773",
+    fallbackHandlerAddress: "0x9301E98DD367135f21bdF66f342A249c9D5F9069",
+    signMessageLibAddress: "0xAca1ec0a1A575CDCCF1DC3d5d296202Eb6061888",
+    createCallAddress: "0xAAA566Fe7978bB0fb0B5362B7ba23038f4428D8f",
+  },
+};
+
+export function isSafeVersion(value: unknown): value is SafeVersion {
+  return SAFE_VERSIONS.includes(value as SafeVersion);
+}
+
+function toContractSet(
+  deployment: SafeContractDeployment,
+  singletonType: SafeSingletonType
+): SafeContractSet {
+  return {
+    safeSingletonAddress:
+      singletonType === "l1"
+        ? deployment.safeSingletonL1Address
+        : deployment.safeSingletonL2Address,
+    safeProxyFactoryAddress: deployment.safeProxyFactoryAddress,
+    multiSendAddress: deployment.multiSendAddress,
+    multiSendCallOnlyAddress: deployment.multiSendCallOnlyAddress,
+    fallbackHandlerAddress: deployment.fallbackHandlerAddress,
+    signMessageLibAddress: deployment.signMessageLibAddress,
+    createCallAddress: deployment.createCallAddress,
+  };
+}
+
+/**
+ * Pick the contracts for a Safe version on a network
+ * A network's own safeContracts entry overrides the canonical deployment for that version
+ */
+export function resolveSafeContracts(
+  network: Pick<NetworkConfig, "safeContracts" | "singletonType">,
+  safeVersion: string = DEFAULT_SAFE_VERSION
+): ResolvedSafeContracts {
+  if (!isSafeVersion(safeVersion)) {
+    throw new Error(`Unsupported Safe version: ${safeVersion}`);
+  }
+
+  const singletonType = network.singletonType || "l2";
+  const deployment =
+    network.safeContracts?.[safeVersion] ||
+    CANONICAL_SAFE_CONTRACTS[safeVersion];
+
+  return {
+    safeVersion,
+    contracts: toContractSet(deployment, singletonType),
+    isL1SafeSingleton: singletonType === "l1",
+    proxyCreationCode: deployment.proxyCreationCode,
+  };
+}
+
+/**
+ * Build the protocol-kit contractNetworks entry for a chain
+ */
+export function getContractNetworks(
+  chainId: number,
+  contracts: SafeContractSet = SAFE_V1_4_1_CONTRACTS
+): Record<string, SafeContractSet> {
+  return { [chainId]: { ...contracts } };
+}
@@ -5,7 +5,21 @@ import SafeService, {
   GetSafesOptions,
   SearchFilters,
 } from "../services/SafeService.js";
-import { IUserInfo } from "../models/Safe.js";
+import SafeTransactionService, {
+  SafeBatchRequest,
+  SafeTransactionRequest,
+} from "../services/SafeTransactionService.js";
+import SafeFreezeService from "../services/SafeFreezeService.js";
+import SafeModuleService, {
+  EnableModuleRequest,
+} from "../services/SafeModuleService.js";
+import ReconciliationService from "../services/ReconciliationService.js";
+import BalanceService from "../services/BalanceService.js";
+import SafePolicyService, {
+  SafePolicyInput,
+} from "../services/SafePolicyService.js";
+import { IUserInfo, Safe } from "../models/Safe.js";
+import { SafeTransaction } from "../models/SafeTransaction.js";
 import { NetworkKey } from "../config/networks.js";
 import logger from "../config/logger.js";
 
@@ -17,12 +31,34 @@ interface DeploySafesRequest extends Request {
   };
 }
 
+interface PredictSafeRequest extends Request {
+  body: {
+    userInfo: IUserInfo;
+    config?: DeploymentConfig;
+    persist?: boolean;
+  };
+}
+
+interface RecoverSafesRequest extends Request {
+  body: {
+    userInfo: IUserInfo;
+    config?: DeploymentConfig;
+    maxIndex?: number;
+  };
+}
+
 interface GetSafeByIdRequest extends Request {
   params: {
     safeId: string;
   };
 }
 
+interface GetDeploymentJobRequest extends Request {
+  params: {
+    jobId: string;
+  };
+}
+
 interface GetSafeByAddressRequest extends Request {
   params: {
     address: string;
@@ -70,6 +106,48 @@ interface UpdateSafeStatusRequest extends Request {
   };
 }
 
+interface FreezeSafeRequest extends Request {
+  params: {
+    safeId: string;
+  };
+  body: {
+    reason?: string;
+  };
+}
+
+interface EnableSafeModuleRequest extends Request {
+  params: {
+    safeId: string;
+  };
+  body: EnableModuleRequest;
+}
+
+interface GetSafeModulesRequest extends Request {
+  params: {
+    safeId: string;
+  };
+}
+
+interface SafeBalancesRequest extends Request {
+  params: {
+    safeId: string;
+  };
+  query: {
+    refresh?: string;
+  };
+}
+
+interface SafePolicyRequest extends Request {
+  params: {
+    safeId: string;
+  };
+  body: SafePolicyInput;
+  query: {
+    guardAddress?: string;
+    limit?: string;
+  };
+}
+
 interface SearchSafesRequest extends Request {
   query: {
     userId?: string;
@@ -83,6 +161,60 @@ interface SearchSafesRequest extends Request {
   };
 }
 
+interface GetSpendReportRequest extends Request {
+  query: {
+    userId?: string;
+    agentType?: string;
+    networkKey?: string;
+    from?: string;
+    to?: string;
+  };
+}
+
+interface ProposeTransactionRequest extends Request {
+  params: {
+    safeId: string;
+  };
+  body: SafeTransactionRequest;
+}
+
+interface ProposeBatchRequest extends Request {
+  params: {
+    safeId: string;
+  };
+  body: SafeBatchRequest;
+}
+
+interface AddTransactionSignatureRequest extends Request {
+  params: {
+    safeId: string;
+    safeTxHash: string;
+  };
+  body: {
+    signature: string;
+    signer?: string;
+  };
+}
+
+interface GetTransactionRequest extends Request {
+  params: {
+    safeId: string;
+    safeTxHash: string;
+  };
+}
+
+interface GetTransactionsRequest extends Request {
+  params: {
+    safeId: string;
+  };
+  query: {
+    networkKey?: string;
+    status?: string;
+    limit?: string;
+    offset?: string;
+  };
+}
+
 interface GetUserStatsRequest extends Request {
   params: {
     userId: string;
@@ -94,9 +226,17 @@ interface GetUserStatsRequest extends Request {
  */
 class SafeController {
   private safeService: SafeService;
+  private safeTransactionService: SafeTransactionService;
+  private safeFreezeService: SafeFreezeService;
+  private safeModuleService: SafeModuleService;
+  private safePolicyService: SafePolicyService;
 
   constructor() {
     this.safeService = new SafeService();
+    this.safeTransactionService = new SafeTransactionService();
+    this.safeFreezeService = new SafeFreezeService();
+    this.safeModuleService = new SafeModuleService();
+    this.safePolicyService = new SafePolicyService();
   }
 
   /**
@@ -120,49 +260,225 @@ class SafeController {
 
       logger.info(`Safe deployment requested for user: ${userInfo.userId}`);
 
-      // Deploy Safes
+      // Enqueue deployment; the job runs in the background
       const result = await this.safeService.deploySafesForUser(
         userInfo,
         config
       );
 
-      // Check if any deployments succeeded
-      const successfulDeployments = Object.values(result.deployments).filter(
-        (d) => d.deploymentStatus === "deployed"
-      );
-
-      if (successfulDeployments.length === 0) {
-        res.status(500).json({
-          success: false,
-          error: "All Safe deployments failed",
-          details: result.deployments,
-        });
-        return;
-      }
-
-      res.status(201).json({
+      res.status(202).json({
         success: true,
-        message: `Safe deployed on ${successfulDeployments.length} network(s)`,
+        message: `Safe deployment queued on ${result.networks.length} network(s)`,
         data: {
           safeId: result.safeId,
-          commonAddress: result.commonAddress,
+          jobId: result.jobId,
+          statusUrl: `/api/safe/jobs/${result.jobId}`,
           config: {
             owners: result.config.owners,
             threshold: result.config.threshold,
             saltNonce: result.config.saltNonce,
           },
-          deployments: result.deployments,
+          networks: result.networks,
           metadata: result.metadata,
-          successfulNetworks: successfulDeployments.map((d) => d.networkKey),
-          totalNetworks: Object.keys(result.deployments).length,
         },
       });
     } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      if (errorMessage.includes("budget exceeded")) {
+        res.status(402).json({
+          success: false,
+          error: "Deployment budget exceeded",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      if (
+        errorMessage.includes("owner") ||
+        errorMessage.includes("Threshold")
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid Safe owner configuration",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      if (errorMessage.includes("Safe version")) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid Safe version",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      if (
+        errorMessage.includes("agentType") ||
+        errorMessage.includes("Unsupported network")
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid agentType or networks",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      if (errorMessage.includes("already used")) {
+        res.status(409).json({
+          success: false,
+          error: "Salt index already used",
+          message: errorMessage,
+        });
+        return;
+      }
+
       logger.error("Safe deployment error:", error);
       res.status(500).json({
         success: false,
         error: "Safe deployment failed",
-        message: error instanceof Error ? error.message : "Unknown error",
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * Predict the counterfactual Safe address without deploying
+   * POST /api/safe/predict
+   */
+  async predictSafe(req: PredictSafeRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
+
+      const { userInfo, config = {}, persist = false } = req.body;
+
+      const result = await this.safeService.predictSafeForUser(
+        userInfo,
+        config,
+        persist
+      );
+
+      res.status(persist ? 201 : 200).json({
+        success: true,
+        message: persist
+          ? "Safe address predicted and record created"
+          : "Safe address predicted",
+        data: result,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      if (
+        errorMessage.includes("owner") ||
+        errorMessage.includes("Threshold") ||
+        errorMessage.includes("Unsupported network") ||
+        errorMessage.includes("Safe version") ||
+        errorMessage.includes("address prediction") ||
+        errorMessage.includes("agentType")
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid Safe configuration",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      if (errorMessage.includes("already used")) {
+        res.status(409).json({
+          success: false,
+          error: "Salt index already used",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      logger.error("Safe prediction error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Safe address prediction failed",
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * Rebuild missing Safe records for deterministic salts from on-chain state
+   * POST /api/safe/recover
+   */
+  async recoverSafes(req: RecoverSafesRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
+
+      const { userInfo, config = {}, maxIndex = 5 } = req.body;
+
+      logger.info(`Safe recovery requested for user: ${userInfo.userId}`);
+
+      const candidates = await this.safeService.recoverSafesForUser(
+        userInfo,
+        config,
+        maxIndex
+      );
+
+      const recovered = candidates.filter(
+        (c) => c.action === "created" || c.action === "updated"
+      );
+
+      res.json({
+        success: true,
+        message: `Recovered ${recovered.length} Safe record(s)`,
+        data: {
+          candidates,
+          recovered: recovered.length,
+          found: candidates.filter((c) => c.deployedOn.length > 0).length,
+        },
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      if (
+        errorMessage.includes("owner") ||
+        errorMessage.includes("Threshold") ||
+        errorMessage.includes("Unsupported network") ||
+        errorMessage.includes("Safe version") ||
+        errorMessage.includes("address prediction") ||
+        errorMessage.includes("agentType")
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid Safe configuration",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      logger.error("Safe recovery error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Safe recovery failed",
+        message: errorMessage,
       });
     }
   }
@@ -203,6 +519,64 @@ class SafeController {
     }
   }
 
+  /**
+   * Get deployment job progress
+   * GET /api/safe/jobs/:jobId
+   */
+  async getDeploymentJob(
+    req: GetDeploymentJobRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { jobId } = req.params;
+
+      const job = await this.safeService.getDeploymentJob(jobId);
+      const progress = Object.values(job.networks);
+
+      res.json({
+        success: true,
+        data: {
+          jobId: job.jobId,
+          safeId: job.safeId,
+          type: job.type,
+          status: job.status,
+          attempts: job.attempts,
+          error: job.error,
+          networks: job.networks,
+          summary: {
+            total: progress.length,
+            pending: progress.filter((p) => p.status === "pending").length,
+            running: progress.filter((p) => p.status === "running").length,
+            deployed: progress.filter((p) => p.status === "deployed").length,
+            failed: progress.filter((p) => p.status === "failed").length,
+          },
+          createdAt: job.createdAt,
+          startedAt: job.startedAt,
+          completedAt: job.completedAt,
+        },
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      if (errorMessage.includes("not found")) {
+        res.status(404).json({
+          success: false,
+          error: "Deployment job not found",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      logger.error("Get deployment job error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to retrieve deployment job",
+        message: errorMessage,
+      });
+    }
+  }
+
   /**
    * Get Safe by address
    * GET /api/safe/address/:address
@@ -330,18 +704,14 @@ class SafeController {
         networks as NetworkKey[]
       );
 
-      const successfulExpansions = Object.values(result.deployments).filter(
-        (d) => d.deploymentStatus === "deployed"
-      );
-
-      res.json({
+      res.status(202).json({
         success: true,
-        message: `Safe expanded to ${successfulExpansions.length} new network(s)`,
+        message: `Safe expansion queued on ${result.networks.length} new network(s)`,
         data: {
           safeId: result.safeId,
-          newDeployments: result.deployments,
-          successfulNetworks: successfulExpansions.map((d) => d.networkKey),
-          totalNewNetworks: Object.keys(result.deployments).length,
+          jobId: result.jobId,
+          statusUrl: `/api/safe/jobs/${result.jobId}`,
+          networks: result.networks,
         },
       });
     } catch (error) {
@@ -357,36 +727,599 @@ class SafeController {
         return;
       }
 
-      logger.error("Safe expansion error:", error);
-      res.status(500).json({
-        success: false,
-        error: "Safe expansion failed",
-        message: errorMessage,
+      if (errorMessage.includes("budget exceeded")) {
+        res.status(402).json({
+          success: false,
+          error: "Deployment budget exceeded",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      if (errorMessage.includes("already in progress")) {
+        res.status(409).json({
+          success: false,
+          error: "Deployment already in progress",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      if (errorMessage.includes("frozen")) {
+        res.status(409).json({
+          success: false,
+          error: "Safe is frozen",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      if (errorMessage.includes("owners were rotated")) {
+        res.status(409).json({
+          success: false,
+          error: "Safe owners rotated",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      if (
+        errorMessage.includes("agentType") ||
+        errorMessage.includes("Unsupported network")
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid networks",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      logger.error("Safe expansion error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Safe expansion failed",
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * Propose a Safe transaction; executes right away when the agent signature meets the threshold
+   * POST /api/safe/:safeId/transactions
+   */
+  async proposeTransaction(
+    req: ProposeTransactionRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
+
+      const { safeId } = req.params;
+      const { networkKey, to, value, data, operation } = req.body;
+
+      logger.info(
+        `Safe transaction requested for Safe ${safeId} on ${networkKey} to ${to}`
+      );
+
+      const transaction = await this.safeTransactionService.proposeTransaction(
+        safeId,
+        {
+          networkKey,
+          to,
+          value,
+          data,
+          operation: operation !== undefined ? Number(operation) : undefined,
+        }
+      );
+
+      await this.syncExecutedTransaction(safeId, transaction);
+      this.sendTransactionResult(res, transaction);
+    } catch (error) {
+      this.handleTransactionError(res, error);
+    }
+  }
+
+  /**
+   * Propose several calls as one MultiSend Safe transaction (dryRun returns the encoded payload only)
+   * POST /api/safe/:safeId/transactions/batch
+   */
+  async proposeBatch(req: ProposeBatchRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
+
+      const { safeId } = req.params;
+      const { networkKey, calls, dryRun = false } = req.body;
+
+      logger.info(
+        `Safe batch of ${calls.length} call(s) requested for Safe ${safeId} on ${networkKey}${dryRun ? " (dry run)" : ""}`
+      );
+
+      const result = await this.safeTransactionService.proposeBatch(safeId, {
+        networkKey,
+        dryRun,
+        calls: calls.map((call) => ({
+          ...call,
+          operation:
+            call.operation !== undefined ? Number(call.operation) : undefined,
+        })),
+      });
+
+      if (result instanceof SafeTransaction) {
+        this.sendTransactionResult(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Dry run: transaction encoded but not signed or executed",
+        data: result,
+      });
+    } catch (error) {
+      this.handleTransactionError(res, error);
+    }
+  }
+
+  /**
+   * Add an owner's EIP-712 signature to a pending Safe transaction
+   * POST /api/safe/:safeId/transactions/:safeTxHash/signatures
+   */
+  async addTransactionSignature(
+    req: AddTransactionSignatureRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
+
+      const { safeId, safeTxHash } = req.params;
+      const { signature, signer } = req.body;
+
+      const transaction = await this.safeTransactionService.addSignature(
+        safeId,
+        safeTxHash,
+        signature,
+        signer
+      );
+
+      // The owners' signatures may have completed a freeze or a module change
+      await this.syncExecutedTransaction(safeId, transaction);
+      this.sendTransactionResult(res, transaction);
+    } catch (error) {
+      this.handleTransactionError(res, error);
+    }
+  }
+
+  /**
+   * Execute a fully signed Safe transaction again, e.g. after its receipt timed out
+   * POST /api/safe/:safeId/transactions/:safeTxHash/execute
+   */
+  async executeTransaction(
+    req: GetTransactionRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { safeId, safeTxHash } = req.params;
+
+      const transaction = await this.safeTransactionService.executeTransaction(
+        safeId,
+        safeTxHash
+      );
+
+      await this.syncExecutedTransaction(safeId, transaction);
+      this.sendTransactionResult(res, transaction);
+    } catch (error) {
+      this.handleTransactionError(res, error);
+    }
+  }
+
+  /**
+   * Get a Safe transaction and its collected signatures
+   * GET /api/safe/:safeId/transactions/:safeTxHash
+   */
+  async getTransaction(
+    req: GetTransactionRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { safeId, safeTxHash } = req.params;
+
+      const transaction = await this.safeTransactionService.getTransaction(
+        safeId,
+        safeTxHash
+      );
+
+      res.json({
+        success: true,
+        data: transaction.toJSON(),
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      if (errorMessage.includes("not found")) {
+        res.status(404).json({
+          success: false,
+          error: "Safe transaction not found",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      logger.error("Get Safe transaction error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to retrieve Safe transaction",
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * List transactions recorded for a Safe
+   * GET /api/safe/:safeId/transactions
+   */
+  async getTransactions(
+    req: GetTransactionsRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { safeId } = req.params;
+      const { networkKey, status, limit = "50", offset = "0" } = req.query;
+
+      const options = {
+        networkKey,
+        status: status as any,
+        limit: parseInt(limit),
+        offset: parseInt(offset),
+      };
+
+      const transactions = await this.safeTransactionService.getTransactions(
+        safeId,
+        options
+      );
+
+      res.json({
+        success: true,
+        data: {
+          transactions: transactions.map((tx) => tx.toJSON()),
+          count: transactions.length,
+          pagination: {
+            limit: options.limit,
+            offset: options.offset,
+            hasMore: transactions.length === options.limit,
+          },
+        },
+      });
+    } catch (error) {
+      logger.error("Get Safe transactions error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to retrieve Safe transactions",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Update Safe metadata
+   * PUT /api/safe/:safeId/metadata
+   */
+  async updateSafeMetadata(
+    req: UpdateSafeMetadataRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { safeId } = req.params;
+      const { metadata } = req.body;
+
+      const updatedSafe = await this.safeService.updateSafeMetadata(
+        safeId,
+        metadata
+      );
+
+      res.json({
+        success: true,
+        message: "Safe metadata updated successfully",
+        data: updatedSafe,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      if (errorMessage.includes("not found")) {
+        res.status(404).json({
+          success: false,
+          error: "Safe not found",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      logger.error("Update Safe metadata error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update Safe metadata",
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * Update Safe status
+   * PUT /api/safe/:safeId/status
+   */
+  async updateSafeStatus(
+    req: UpdateSafeStatusRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { safeId } = req.params;
+      const { status } = req.body;
+
+      const updatedSafe = await this.safeService.updateSafeStatus(
+        safeId,
+        status
+      );
+
+      if (updatedSafe.status !== status) {
+        // Suspension and reactivation wait for the on-chain owner change
+        this.sendFreezeResult(res, updatedSafe);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Safe status updated successfully",
+        data: updatedSafe,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      if (errorMessage.includes("not found")) {
+        res.status(404).json({
+          success: false,
+          error: "Safe not found",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      if (
+        errorMessage.includes("can be frozen") ||
+        errorMessage.includes("not frozen")
+      ) {
+        res.status(409).json({
+          success: false,
+          error: "Invalid Safe status",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      logger.error("Update Safe status error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update Safe status",
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * Remove the agent as owner on every network the Safe is deployed to
+   * POST /api/safe/:safeId/freeze
+   */
+  async freezeSafe(req: FreezeSafeRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
+
+      const safe = await this.safeFreezeService.freeze(
+        req.params.safeId,
+        req.body.reason
+      );
+      this.sendFreezeResult(res, safe);
+    } catch (error) {
+      this.handleFreezeError(res, error, "Failed to freeze Safe");
+    }
+  }
+
+  /**
+   * Add the agent back as owner of a frozen Safe
+   * POST /api/safe/:safeId/unfreeze
+   */
+  async unfreezeSafe(req: FreezeSafeRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
+
+      const safe = await this.safeFreezeService.unfreeze(req.params.safeId);
+      this.sendFreezeResult(res, safe);
+    } catch (error) {
+      this.handleFreezeError(res, error, "Failed to unfreeze Safe");
+    }
+  }
+
+  /**
+   * Enable a Safe module on one, several or all deployed networks
+   * POST /api/safe/:safeId/modules
+   */
+  async enableModule(
+    req: EnableSafeModuleRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
+
+      const { safeId } = req.params;
+      const { moduleAddress, networks, label } = req.body;
+
+      logger.info(
+        `Module ${moduleAddress} requested for Safe ${safeId}${networks ? ` on ${networks.join(", ")}` : ""}`
+      );
+
+      const results = await this.safeModuleService.enableModule(safeId, {
+        moduleAddress,
+        networks,
+        label,
+      });
+
+      // failed on any network 422, waiting for owner signatures 202, enabled 200
+      const failed = results.filter((r) => r.status === "failed").length;
+      const pending = results.filter((r) => r.status === "pending").length;
+      const statusCode = failed > 0 ? 422 : pending > 0 ? 202 : 200;
+
+      res.status(statusCode).json({
+        success: failed === 0,
+        message:
+          failed > 0
+            ? `Enabling the module failed on ${failed} network(s)`
+            : pending > 0
+              ? `Module awaits owner signatures on ${pending} network(s)`
+              : "Module enabled",
+        data: { safeId, moduleAddress, networks: results },
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      if (errorMessage.includes("not found")) {
+        res.status(404).json({
+          success: false,
+          error: "Safe not found",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      if (
+        errorMessage.includes("Invalid") ||
+        errorMessage.includes("Unsupported network") ||
+        errorMessage.includes("not deployed") ||
+        errorMessage.includes("no active deployments")
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid module request",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      logger.error("Enable Safe module error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to enable Safe module",
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * List the enabled modules per network and their drift from the stored set
+   * GET /api/safe/:safeId/modules
+   */
+  async getModules(req: GetSafeModulesRequest, res: Response): Promise<void> {
+    try {
+      const { safeId } = req.params;
+      const networks = await this.safeModuleService.getModules(safeId);
+
+      res.json({
+        success: true,
+        data: {
+          safeId,
+          networks,
+          inSync: networks.every((network) => network.inSync),
+        },
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      if (errorMessage.includes("not found")) {
+        res.status(404).json({
+          success: false,
+          error: "Safe not found",
+          message: errorMessage,
+        });
+        return;
+      }
+
+      logger.error("Get Safe modules error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to retrieve Safe modules",
+        message: errorMessage,
       });
     }
   }
 
   /**
-   * Update Safe metadata
-   * PUT /api/safe/:safeId/metadata
+   * Compare the stored deployments with the chain now and store the result
+   * GET /api/safe/:safeId/verify
    */
-  async updateSafeMetadata(
-    req: UpdateSafeMetadataRequest,
-    res: Response
-  ): Promise<void> {
+  async verifySafe(req: GetSafeModulesRequest, res: Response): Promise<void> {
     try {
       const { safeId } = req.params;
-      const { metadata } = req.body;
-
-      const updatedSafe = await this.safeService.updateSafeMetadata(
-        safeId,
-        metadata
-      );
+      const reconciliation =
+        await ReconciliationService.getInstance().verifySafe(safeId);
 
       res.json({
         success: true,
-        message: "Safe metadata updated successfully",
-        data: updatedSafe,
+        message:
+          reconciliation.status === "ok"
+            ? "Stored deployments match the chain"
+            : reconciliation.status === "mismatch"
+              ? "Stored deployments do not match the chain"
+              : "Some networks could not be read",
+        data: { safeId, reconciliation },
       });
     } catch (error) {
       const errorMessage =
@@ -401,36 +1334,44 @@ class SafeController {
         return;
       }
 
-      logger.error("Update Safe metadata error:", error);
+      logger.error("Verify Safe error:", error);
       res.status(500).json({
         success: false,
-        error: "Failed to update Safe metadata",
+        error: "Failed to verify Safe",
         message: errorMessage,
       });
     }
   }
 
   /**
-   * Update Safe status
-   * PUT /api/safe/:safeId/status
+   * Native and token balances of every active deployment; networks that cannot be
+   * read are returned with an error instead of failing the request
+   * GET /api/safe/:safeId/balances
    */
-  async updateSafeStatus(
-    req: UpdateSafeStatusRequest,
-    res: Response
-  ): Promise<void> {
+  async getBalances(req: SafeBalancesRequest, res: Response): Promise<void> {
     try {
-      const { safeId } = req.params;
-      const { status } = req.body;
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
 
-      const updatedSafe = await this.safeService.updateSafeStatus(
-        safeId,
-        status
-      );
+      const { safeId } = req.params;
+      const networks = await BalanceService.getInstance().getBalances(safeId, {
+        refresh: req.query.refresh === "true",
+      });
 
       res.json({
         success: true,
-        message: "Safe status updated successfully",
-        data: updatedSafe,
+        data: {
+          safeId,
+          networks,
+          complete: networks.every((network) => !network.error),
+        },
       });
     } catch (error) {
       const errorMessage =
@@ -445,15 +1386,126 @@ class SafeController {
         return;
       }
 
-      logger.error("Update Safe status error:", error);
+      logger.error("Get Safe balances error:", error);
       res.status(500).json({
         success: false,
-        error: "Failed to update Safe status",
+        error: "Failed to retrieve Safe balances",
         message: errorMessage,
       });
     }
   }
 
+  /**
+   * Get the policy the agent's signatures are held to
+   * GET /api/safe/:safeId/policy
+   */
+  async getPolicy(req: SafePolicyRequest, res: Response): Promise<void> {
+    try {
+      const policy = await this.safePolicyService.getPolicy(req.params.safeId);
+
+      res.json({
+        success: true,
+        data: { safeId: req.params.safeId, policy },
+      });
+    } catch (error) {
+      this.handlePolicyError(res, error, "Failed to retrieve Safe policy");
+    }
+  }
+
+  /**
+   * Replace the policy of a Safe
+   * PUT /api/safe/:safeId/policy
+   */
+  async updatePolicy(req: SafePolicyRequest, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
+
+      const policy = await this.safePolicyService.updatePolicy(
+        req.params.safeId,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        message: "Safe policy updated successfully",
+        data: { safeId: req.params.safeId, policy },
+      });
+    } catch (error) {
+      this.handlePolicyError(res, error, "Failed to update Safe policy");
+    }
+  }
+
+  /**
+   * List transactions the policy rejected, newest first
+   * GET /api/safe/:safeId/policy/violations
+   */
+  async getPolicyViolations(
+    req: SafePolicyRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const violations = await this.safePolicyService.getViolations(
+        req.params.safeId,
+        Math.min(parseInt(req.query.limit || "50") || 50, 200)
+      );
+
+      res.json({
+        success: true,
+        data: {
+          violations: violations.map((violation) => violation.toJSON()),
+          total: violations.length,
+        },
+      });
+    } catch (error) {
+      this.handlePolicyError(
+        res,
+        error,
+        "Failed to retrieve policy violations"
+      );
+    }
+  }
+
+  /**
+   * Compile the policy into the calls configuring a Zodiac ScopeGuard
+   * GET /api/safe/:safeId/policy/guard?guardAddress=0x...
+   */
+  async compilePolicyGuard(
+    req: SafePolicyRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
+
+      const config = await this.safePolicyService.compileScopeGuard(
+        req.params.safeId,
+        req.query.guardAddress!
+      );
+
+      res.json({
+        success: true,
+        data: config,
+      });
+    } catch (error) {
+      this.handlePolicyError(res, error, "Failed to compile Safe policy");
+    }
+  }
+
   /**
    * Search Safes with filters
    * GET /api/safe/search
@@ -556,6 +1608,49 @@ class SafeController {
     }
   }
 
+  /**
+   * Get deployer gas spend report
+   * GET /api/safe/spend
+   */
+  async getSpendReport(
+    req: GetSpendReportRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          details: errors.array(),
+        });
+        return;
+      }
+
+      const { userId, agentType, networkKey, from, to } = req.query;
+
+      const report = await this.safeService.getSpendReport({
+        userId,
+        agentType,
+        networkKey,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      logger.error("Get spend report error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to retrieve spend report",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
   /**
    * Health check for Safe service
    * GET /api/safe/health
@@ -578,6 +1673,227 @@ class SafeController {
       });
     }
   }
+
+  /**
+   * Map a Safe transaction outcome to a response: pending 202, executed 201, failed 422
+   */
+  private sendTransactionResult(
+    res: Response,
+    transaction: SafeTransaction
+  ): void {
+    const json = transaction.toJSON();
+
+    if (transaction.status === "pending") {
+      res.status(202).json({
+        success: true,
+        message: transaction.txHash
+          ? `Submitted in ${transaction.txHash}, awaiting its receipt`
+          : `Awaiting signatures (${transaction.signatures.length}/${transaction.threshold})`,
+        data: json,
+      });
+      return;
+    }
+
+    const executed = transaction.status === "executed";
+    res.status(executed ? 201 : 422).json({
+      success: executed,
+      message: executed
+        ? "Safe transaction executed"
+        : "Safe transaction failed on-chain",
+      data: json,
+    });
+  }
+
+  /**
+   * Let freezes and the stored module sets follow an executed transaction;
+   * failures are logged so the transaction result still reaches the caller
+   */
+  private async syncExecutedTransaction(
+    safeId: string,
+    transaction: SafeTransaction
+  ): Promise<void> {
+    if (transaction.status !== "executed") return;
+
+    await this.safeFreezeService
+      .syncTransaction(safeId, transaction.safeTxHash)
+      .catch((error) =>
+        logger.error(`Failed to sync freeze of Safe ${safeId}:`, error)
+      );
+    await this.safeModuleService
+      .syncTransaction(safeId, transaction)
+      .catch((error) =>
+        logger.error(`Failed to sync modules of Safe ${safeId}:`, error)
+      );
+  }
+
+  /**
+   * Map a freeze or unfreeze outcome to a response: completed 200, waiting for owner
+   * signatures 202, failed on some network 422 (repeat the call to retry)
+   */
+  private sendFreezeResult(res: Response, safe: Safe): void {
+    const freeze = safe.freeze!;
+    const data = {
+      safeId: safe.safeId,
+      status: safe.status,
+      freeze,
+    };
+
+    if (freeze.status === "completed") {
+      res.json({
+        success: true,
+        message: `Safe ${freeze.action === "freeze" ? "frozen" : "unfrozen"} on all networks`,
+        data,
+      });
+      return;
+    }
+
+    if (freeze.status === "in_progress") {
+      res.status(202).json({
+        success: true,
+        message: `Safe ${freeze.action} awaits owner signatures on some networks`,
+        data,
+      });
+      return;
+    }
+
+    res.status(422).json({
+      success: false,
+      message: `Safe ${freeze.action} failed on some networks; repeat the request to retry`,
+      data,
+    });
+  }
+
+  private handleFreezeError(
+    res: Response,
+    error: unknown,
+    fallback: string
+  ): void {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    if (errorMessage.includes("not found")) {
+      res.status(404).json({
+        success: false,
+        error: "Safe not found",
+        message: errorMessage,
+      });
+      return;
+    }
+
+    if (
+      errorMessage.includes("can be frozen") ||
+      errorMessage.includes("not frozen")
+    ) {
+      res.status(409).json({
+        success: false,
+        error: "Invalid Safe status",
+        message: errorMessage,
+      });
+      return;
+    }
+
+    logger.error(`${fallback}:`, error);
+    res.status(500).json({
+      success: false,
+      error: fallback,
+      message: errorMessage,
+    });
+  }
+
+  private handlePolicyError(
+    res: Response,
+    error: unknown,
+    fallback: string
+  ): void {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    if (errorMessage.includes("not found")) {
+      res.status(404).json({
+        success: false,
+        error: "Safe not found",
+        message: errorMessage,
+      });
+      return;
+    }
+
+    if (
+      errorMessage.includes("Invalid") ||
+      errorMessage.includes("has no policy")
+    ) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid Safe policy",
+        message: errorMessage,
+      });
+      return;
+    }
+
+    logger.error(`${fallback}:`, error);
+    res.status(500).json({
+      success: false,
+      error: fallback,
+      message: errorMessage,
+    });
+  }
+
+  private handleTransactionError(res: Response, error: unknown): void {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    if (errorMessage.includes("not found")) {
+      res.status(404).json({
+        success: false,
+        error: "Safe or transaction not found",
+        message: errorMessage,
+      });
+      return;
+    }
+
+    if (errorMessage.includes("Policy violation")) {
+      res.status(403).json({
+        success: false,
+        error: "Rejected by Safe policy",
+        message: errorMessage,
+      });
+      return;
+    }
+
+    if (
+      errorMessage.includes("not deployed") ||
+      errorMessage.includes("Unsupported network") ||
+      errorMessage.includes("require an active Safe") ||
+      errorMessage.includes("Invalid signature") ||
+      errorMessage.includes("is not ready") ||
+      errorMessage.includes("Batch")
+    ) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid Safe transaction request",
+        message: errorMessage,
+      });
+      return;
+    }
+
+    if (
+      errorMessage.includes("already signed") ||
+      errorMessage.includes("no longer accepted")
+    ) {
+      res.status(409).json({
+        success: false,
+        error: "Signature conflict",
+        message: errorMessage,
+      });
+      return;
+    }
+
+    logger.error("Safe transaction error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Safe transaction failed",
+      message: errorMessage,
+    });
+  }
 }
 
 export default SafeController;
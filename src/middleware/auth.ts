@@ -0,0 +1,203 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import jwt, { JwtPayload } from "jsonwebtoken";
+import { AUTH_SCOPES, AuthScope, getAuthConfig } from "../config/auth.js";
+import logger from "../config/logger.js";
+
+export interface AuthContext {
+  subject: string;
+  scopes: AuthScope[];
+  method: "jwt" | "apiKey";
+}
+
+// Extend Request interface to include the authenticated caller
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+/**
+ * Resolves the userIds owning the resource a request targets
+ * An empty list means the resource does not exist; the controller reports that
+ */
+export type OwnerResolver = (req: Request) => Promise<string[]>;
+
+function sha256(value: string): Buffer {
+  return crypto.createHash("sha256").update(value).digest();
+}
+
+function parseJwtScopes(payload: JwtPayload): AuthScope[] {
+  // Accept both the OAuth "scope" string and a "scopes" array
+  const raw: unknown =
+    typeof payload.scope === "string"
+      ? payload.scope.split(" ")
+      : payload.scopes;
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return ["read"];
+  }
+  return raw.filter((scope): scope is AuthScope =>
+    AUTH_SCOPES.includes(scope as AuthScope)
+  );
+}
+
+function authenticateApiKey(apiKey: string): AuthContext | null {
+  const presented = sha256(apiKey);
+  const match = getAuthConfig().apiKeys.find((candidate) => {
+    const expected = Buffer.from(candidate.keyHash, "hex");
+    return (
+      expected.length === presented.length &&
+      crypto.timingSafeEqual(expected, presented)
+    );
+  });
+  return match
+    ? { subject: match.name, scopes: match.scopes, method: "apiKey" }
+    : null;
+}
+
+function authenticateJwt(token: string): AuthContext {
+  const { jwtSecret, jwtIssuer, jwtAudience } = getAuthConfig();
+  if (!jwtSecret) {
+    throw new Error("JWT authentication is not configured: set JWT_SECRET");
+  }
+
+  // Throws JsonWebTokenError/TokenExpiredError, mapped to 401 by errorHandler
+  const payload = jwt.verify(token, jwtSecret, {
+    algorithms: ["HS256", "HS384", "HS512"],
+    issuer: jwtIssuer,
+    audience: jwtAudience,
+  }) as JwtPayload;
+
+  if (!payload.sub) {
+    throw new jwt.JsonWebTokenError("Token has no subject");
+  }
+  return {
+    subject: payload.sub,
+    scopes: parseJwtScopes(payload),
+    method: "jwt",
+  };
+}
+
+export function hasScope(
+  auth: AuthContext | undefined,
+  scope: AuthScope
+): boolean {
+  return (
+    !!auth && (auth.scopes.includes(scope) || auth.scopes.includes("admin"))
+  );
+}
+
+/**
+ * Authenticate the caller from a Bearer JWT or an X-API-Key header
+ */
+export const authenticate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const apiKey = req.get("X-API-Key");
+  const authorization = req.get("Authorization");
+
+  try {
+    if (apiKey) {
+      const auth = authenticateApiKey(apiKey);
+      if (!auth) {
+        res.status(401).json({ success: false, error: "Invalid API key" });
+        return;
+      }
+      req.auth = auth;
+      next();
+      return;
+    }
+
+    if (authorization?.startsWith("Bearer ")) {
+      req.auth = authenticateJwt(authorization.slice(7).trim());
+      next();
+      return;
+    }
+
+    res.status(401).json({
+      success: false,
+      error: "Authentication required",
+      message: "Provide a Bearer token or an X-API-Key header",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Require a scope; admin satisfies every scope
+ */
+export const requireScope =
+  (scope: AuthScope) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!hasScope(req.auth, scope)) {
+      res.status(403).json({
+        success: false,
+        error: "Insufficient scope",
+        message: `This endpoint requires the ${scope} scope`,
+      });
+      return;
+    }
+    next();
+  };
+
+/**
+ * Only let callers reach resources owned by their own userId unless they are admin
+ */
+export const authorizeOwner =
+  (resolveOwners: OwnerResolver) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (hasScope(req.auth, "admin")) {
+      next();
+      return;
+    }
+
+    try {
+      const owners = await resolveOwners(req);
+      if (owners.some((owner) => owner !== req.auth?.subject)) {
+        logger.warn(
+          `Denied ${req.method} ${req.originalUrl} to ${req.auth?.subject}`
+        );
+        res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "You do not have access to this resource",
+        });
+        return;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * Pin a userId query filter to the caller so non-admins only list their own data
+ */
+export const restrictUserQuery = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (hasScope(req.auth, "admin")) {
+    next();
+    return;
+  }
+
+  const requested = req.query.userId;
+  if (requested && requested !== req.auth?.subject) {
+    res.status(403).json({
+      success: false,
+      error: "Forbidden",
+      message: "You can only query your own data",
+    });
+    return;
+  }
+
+  req.query.userId = req.auth?.subject;
+  next();
+};
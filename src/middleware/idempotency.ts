@@ -0,0 +1,181 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { RedisClientType } from "redis";
+import IdempotencyRecord from "../models/IdempotencyRecord.js";
+import logger from "../config/logger.js";
+
+const IDEMPOTENCY_HEADER = "Idempotency-Key";
+const MAX_KEY_LENGTH = 255;
+const TTL_MS =
+  parseInt(process.env.IDEMPOTENCY_TTL_HOURS || "24") * 60 * 60 * 1000;
+
+interface StoredRecord {
+  fingerprint: string;
+  status: "in_progress" | "completed";
+  statusCode?: number;
+  responseBody?: unknown;
+}
+
+interface IdempotencyStore {
+  find(key: string): Promise<StoredRecord | null>;
+  reserve(key: string, fingerprint: string): Promise<boolean>;
+  complete(
+    key: string,
+    statusCode: number,
+    responseBody: unknown
+  ): Promise<void>;
+  release(key: string): Promise<void>;
+}
+
+const mongoStore: IdempotencyStore = {
+  find: (key) => IdempotencyRecord.find(key),
+  reserve: (key, fingerprint) =>
+    IdempotencyRecord.reserve(key, fingerprint, TTL_MS),
+  complete: (key, statusCode, responseBody) =>
+    IdempotencyRecord.complete(key, statusCode, responseBody),
+  release: (key) => IdempotencyRecord.release(key),
+};
+
+function redisStore(redis: RedisClientType): IdempotencyStore {
+  const redisKey = (key: string) => `idempotency:${key}`;
+  return {
+    async find(key) {
+      const raw = await redis.get(redisKey(key));
+      return raw ? (JSON.parse(raw) as StoredRecord) : null;
+    },
+    async reserve(key, fingerprint) {
+      const record: StoredRecord = { fingerprint, status: "in_progress" };
+      const result = await redis.set(redisKey(key), JSON.stringify(record), {
+        NX: true,
+        PX: TTL_MS,
+      });
+      return result === "OK";
+    },
+    async complete(key, statusCode, responseBody) {
+      const raw = await redis.get(redisKey(key));
+      if (!raw) return;
+      const record: StoredRecord = {
+        ...(JSON.parse(raw) as StoredRecord),
+        status: "completed",
+        statusCode,
+        responseBody,
+      };
+      await redis.set(redisKey(key), JSON.stringify(record), {
+        KEEPTTL: true,
+      });
+    },
+    async release(key) {
+      await redis.del(redisKey(key));
+    },
+  };
+}
+
+/**
+ * Serialize with sorted keys so property order does not change the fingerprint
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (k) =>
+          `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Honor the Idempotency-Key header: the first response is stored and replayed
+ * for repeats with the same key and body; a different body with the same key gets 422
+ * Keys are scoped to the caller and route, and kept for IDEMPOTENCY_TTL_HOURS
+ */
+export const idempotency = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const idempotencyKey = req.get(IDEMPOTENCY_HEADER);
+  if (!idempotencyKey) {
+    next();
+    return;
+  }
+
+  if (idempotencyKey.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid Idempotency-Key",
+      message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+    });
+    return;
+  }
+
+  const store = req.redis?.isReady ? redisStore(req.redis) : mongoStore;
+  const key = [
+    req.auth?.subject || "anonymous",
+    req.method,
+    `${req.baseUrl}${req.path}`,
+    idempotencyKey,
+  ].join(":");
+  const fingerprint = crypto
+    .createHash("sha256")
+    .update(stableStringify(req.body ?? {}))
+    .digest("hex");
+
+  try {
+    const reserved = await store.reserve(key, fingerprint);
+
+    if (!reserved) {
+      const existing = await store.find(key);
+
+      if (existing && existing.fingerprint !== fingerprint) {
+        res.status(422).json({
+          success: false,
+          error: "Idempotency key reused",
+          message: `${IDEMPOTENCY_HEADER} was already used with a different request body`,
+        });
+        return;
+      }
+
+      if (!existing || existing.status === "in_progress") {
+        res.status(409).json({
+          success: false,
+          error: "Request in progress",
+          message: `A request with this ${IDEMPOTENCY_HEADER} is still being processed`,
+        });
+        return;
+      }
+
+      logger.info(`Replaying idempotent response for key ${idempotencyKey}`);
+      res.set("Idempotent-Replayed", "true");
+      res.status(existing.statusCode || 200).json(existing.responseBody);
+      return;
+    }
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  // Store the response when it is produced, even if the client has already
+  // disconnected, so a retry after a timeout replays it instead of redeploying
+  const originalJson = res.json.bind(res);
+  res.json = (body: unknown) => {
+    // Server errors are not stored so the client can retry with the same key
+    const persist =
+      res.statusCode >= 500
+        ? store.release(key)
+        : store.complete(key, res.statusCode, body);
+    persist.catch((error) =>
+      logger.error(`Failed to store idempotent response for ${key}:`, error)
+    );
+    return originalJson(body);
+  };
+
+  next();
+};
+
+export default idempotency;
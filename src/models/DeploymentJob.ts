@@ -0,0 +1,290 @@
+import { Collection, ObjectId } from "mongodb";
+import DatabaseConnection from "../config/database.js";
+import { NetworkKey } from "../config/networks.js";
+import { ITransactionAttempt } from "./Safe.js";
+
+export type DeploymentJobType = "deploy" | "expand";
+
+export type DeploymentJobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "partial"
+  | "failed";
+
+export type NetworkProgressStatus =
+  | "pending"
+  | "running"
+  | "deployed"
+  | "failed";
+
+// TypeScript interfaces for the models (MongoDB)
+export interface INetworkProgress {
+  networkKey: NetworkKey;
+  status: NetworkProgressStatus;
+  address?: string;
+  deploymentTxHash?: string;
+  transactionAttempts?: ITransactionAttempt[];
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface IDeploymentJobDocument {
+  _id?: ObjectId;
+  jobId: string;
+  safeId: string;
+  type: DeploymentJobType;
+  status: DeploymentJobStatus;
+  networks: { [key: string]: INetworkProgress };
+  attempts: number;
+  maxAttempts: number;
+  lockedBy?: string;
+  lockExpiresAt?: Date;
+  availableAt?: Date; // A re-queued job is not claimed before this time
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ACTIVE_STATUSES: DeploymentJobStatus[] = ["queued", "running"];
+
+export class DeploymentJob {
+  private static collection: Collection<IDeploymentJobDocument> | null = null;
+
+  public _id?: ObjectId;
+  public jobId: string;
+  public safeId: string;
+  public type: DeploymentJobType;
+  public status: DeploymentJobStatus;
+  public networks: { [key: string]: INetworkProgress };
+  public attempts: number;
+  public maxAttempts: number;
+  public lockedBy?: string;
+  public lockExpiresAt?: Date;
+  public availableAt?: Date;
+  public error?: string;
+  public startedAt?: Date;
+  public completedAt?: Date;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(data: Partial<IDeploymentJobDocument>) {
+    this._id = data._id;
+    this.jobId = data.jobId || "";
+    this.safeId = data.safeId || "";
+    this.type = data.type || "deploy";
+    this.status = data.status || "queued";
+    this.networks = data.networks || {};
+    this.attempts = data.attempts || 0;
+    this.maxAttempts = data.maxAttempts || 3;
+    this.lockedBy = data.lockedBy;
+    this.lockExpiresAt = data.lockExpiresAt;
+    this.availableAt = data.availableAt;
+    this.error = data.error;
+    this.startedAt = data.startedAt;
+    this.completedAt = data.completedAt;
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  public static getCollection(): Collection<IDeploymentJobDocument> {
+    if (!this.collection) {
+      const db = DatabaseConnection.getInstance().getDatabase();
+      this.collection =
+        db.collection<IDeploymentJobDocument>("deployment_jobs");
+    }
+    return this.collection;
+  }
+
+  private validate(): void {
+    if (!this.jobId) {
+      throw new Error("JobId is required");
+    }
+    if (!this.safeId) {
+      throw new Error("SafeId is required");
+    }
+    if (Object.keys(this.networks).length === 0) {
+      throw new Error("At least one network is required");
+    }
+  }
+
+  // Instance methods
+  public isFinished(): boolean {
+    return !ACTIVE_STATUSES.includes(this.status);
+  }
+
+  public getPendingNetworks(): NetworkKey[] {
+    return Object.values(this.networks)
+      .filter((progress) => progress.status !== "deployed")
+      .map((progress) => progress.networkKey);
+  }
+
+  public async save(): Promise<DeploymentJob> {
+    this.validate();
+    this.updatedAt = new Date();
+
+    const collection = DeploymentJob.getCollection();
+    const document = this.toJSON();
+
+    if (this._id) {
+      await collection.replaceOne({ _id: this._id }, document);
+    } else {
+      const result = await collection.insertOne(document);
+      this._id = result.insertedId;
+    }
+
+    return this;
+  }
+
+  // Static methods
+  public static async findByJobId(
+    jobId: string
+  ): Promise<DeploymentJob | null> {
+    const collection = this.getCollection();
+    const document = await collection.findOne({ jobId });
+    return document ? new DeploymentJob(document) : null;
+  }
+
+  public static async findBySafeId(safeId: string): Promise<DeploymentJob[]> {
+    const collection = this.getCollection();
+    const documents = await collection
+      .find({ safeId })
+      .sort({ createdAt: -1 })
+      .toArray();
+    return documents.map((doc) => new DeploymentJob(doc));
+  }
+
+  /**
+   * Find queued or running jobs that target any of the given networks for a Safe
+   */
+  public static async findActiveForNetworks(
+    safeId: string,
+    networkKeys: string[]
+  ): Promise<DeploymentJob[]> {
+    const collection = this.getCollection();
+    const documents = await collection
+      .find({
+        safeId,
+        status: { $in: ACTIVE_STATUSES },
+        $or: networkKeys.map((networkKey) => ({
+          [`networks.${networkKey}`]: { $exists: true },
+        })),
+      })
+      .toArray();
+    return documents.map((doc) => new DeploymentJob(doc));
+  }
+
+  /**
+   * Atomically claim the oldest runnable job: either queued (and past its retry
+   * delay), or running with an expired lock (the worker that held it died before finishing).
+   */
+  public static async claimNext(
+    workerId: string,
+    lockTtlMs: number
+  ): Promise<DeploymentJob | null> {
+    const collection = this.getCollection();
+    const now = new Date();
+
+    const document = await collection.findOneAndUpdate(
+      {
+        $or: [
+          {
+            status: "queued",
+            availableAt: { $not: { $gt: now } }, // Also matches unset
+          },
+          { status: "running", lockExpiresAt: { $lt: now } },
+        ],
+        $expr: { $lt: ["$attempts", "$maxAttempts"] },
+      },
+      {
+        $set: {
+          status: "running",
+          lockedBy: workerId,
+          lockExpiresAt: new Date(now.getTime() + lockTtlMs),
+          updatedAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { createdAt: 1 }, returnDocument: "after" }
+    );
+
+    return document ? new DeploymentJob(document) : null;
+  }
+
+  /**
+   * Mark running jobs whose lock expired after their last allowed attempt as failed
+   */
+  public static async failExhausted(): Promise<number> {
+    const collection = this.getCollection();
+    const now = new Date();
+    const result = await collection.updateMany(
+      {
+        status: "running",
+        lockExpiresAt: { $lt: now },
+        $expr: { $gte: ["$attempts", "$maxAttempts"] },
+      },
+      {
+        $set: {
+          status: "failed",
+          error: "Job exceeded maximum attempts",
+          completedAt: now,
+          updatedAt: now,
+        },
+        $unset: { lockedBy: "", lockExpiresAt: "" },
+      }
+    );
+    return result.modifiedCount;
+  }
+
+  public static async extendLock(
+    jobId: string,
+    workerId: string,
+    lockTtlMs: number
+  ): Promise<boolean> {
+    const collection = this.getCollection();
+    const result = await collection.updateOne(
+      { jobId, lockedBy: workerId, status: "running" },
+      { $set: { lockExpiresAt: new Date(Date.now() + lockTtlMs) } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  public static async updateNetworkProgress(
+    jobId: string,
+    networkKey: string,
+    progress: Partial<INetworkProgress>
+  ): Promise<void> {
+    const collection = this.getCollection();
+    const update: Record<string, unknown> = { updatedAt: new Date() };
+    for (const [field, value] of Object.entries(progress)) {
+      update[`networks.${networkKey}.${field}`] = value;
+    }
+    await collection.updateOne({ jobId }, { $set: update });
+  }
+
+  public toJSON(): IDeploymentJobDocument {
+    return {
+      _id: this._id,
+      jobId: this.jobId,
+      safeId: this.safeId,
+      type: this.type,
+      status: this.status,
+      networks: this.networks,
+      attempts: this.attempts,
+      maxAttempts: this.maxAttempts,
+      lockedBy: this.lockedBy,
+      lockExpiresAt: this.lockExpiresAt,
+      availableAt: this.availableAt,
+      error: this.error,
+      startedAt: this.startedAt,
+      completedAt: this.completedAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
+
+export default DeploymentJob;
@@ -0,0 +1,87 @@
+import { Collection, MongoServerError, ObjectId } from "mongodb";
+import DatabaseConnection from "../config/database.js";
+
+export type IdempotencyStatus = "in_progress" | "completed";
+
+// TypeScript interfaces for the models (MongoDB)
+export interface IIdempotencyRecordDocument {
+  _id?: ObjectId;
+  key: string; // caller + route + Idempotency-Key header
+  fingerprint: string; // sha256 of the request body
+  status: IdempotencyStatus;
+  statusCode?: number;
+  responseBody?: unknown;
+  createdAt: Date;
+  expiresAt: Date; // removed by a TTL index
+}
+
+export class IdempotencyRecord {
+  private static collection: Collection<IIdempotencyRecordDocument> | null =
+    null;
+
+  public static getCollection(): Collection<IIdempotencyRecordDocument> {
+    if (!this.collection) {
+      const db = DatabaseConnection.getInstance().getDatabase();
+      this.collection =
+        db.collection<IIdempotencyRecordDocument>("idempotency_keys");
+    }
+    return this.collection;
+  }
+
+  public static async find(
+    key: string
+  ): Promise<IIdempotencyRecordDocument | null> {
+    return await this.getCollection().findOne({
+      key,
+      expiresAt: { $gt: new Date() },
+    });
+  }
+
+  /**
+   * Insert an in-progress record; returns false if the key is already taken
+   */
+  public static async reserve(
+    key: string,
+    fingerprint: string,
+    ttlMs: number
+  ): Promise<boolean> {
+    const now = new Date();
+    const collection = this.getCollection();
+
+    // An expired record the TTL monitor has not removed yet must not block the key
+    await collection.deleteOne({ key, expiresAt: { $lte: now } });
+
+    try {
+      await collection.insertOne({
+        key,
+        fingerprint,
+        status: "in_progress",
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + ttlMs),
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  public static async complete(
+    key: string,
+    statusCode: number,
+    responseBody: unknown
+  ): Promise<void> {
+    await this.getCollection().updateOne(
+      { key },
+      { $set: { status: "completed", statusCode, responseBody } }
+    );
+  }
+
+  public static async release(key: string): Promise<void> {
+    await this.getCollection().deleteOne({ key });
+  }
+}
+
+export default IdempotencyRecord;
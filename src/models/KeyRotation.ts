@@ -0,0 +1,283 @@
+import { Collection, ObjectId } from "mongodb";
+import DatabaseConnection from "../config/database.js";
+import { NetworkKey } from "../config/networks.js";
+
+// awaiting_signatures = swaps proposed on Safes whose threshold needs other owners
+export type KeyRotationStatus =
+  | "queued"
+  | "running"
+  | "awaiting_signatures"
+  | "completed"
+  | "failed";
+
+// proposed = swapOwner transaction waiting for owner signatures
+export type RotationNetworkStatus =
+  | "pending"
+  | "proposed"
+  | "confirmed"
+  | "skipped"
+  | "failed";
+
+// TypeScript interfaces for the models (MongoDB)
+export interface IRotationNetworkProgress {
+  networkKey: NetworkKey;
+  safeAddress: string;
+  status: RotationNetworkStatus;
+  safeTxHash?: string;
+  txHash?: string;
+  error?: string;
+  note?: string;
+  updatedAt?: Date;
+}
+
+export interface IRotationSafeProgress {
+  safeId: string;
+  networks: { [key: string]: IRotationNetworkProgress };
+  ownersUpdated: boolean; // config.owners swapped in MongoDB after on-chain confirmation
+  note?: string;
+}
+
+export interface IKeyRotationDocument {
+  _id?: ObjectId;
+  rotationId: string;
+  agentType: string;
+  fromAddress: string;
+  toAddress: string;
+  status: KeyRotationStatus;
+  safes: IRotationSafeProgress[];
+  attempts: number;
+  lockedBy?: string;
+  lockExpiresAt?: Date;
+  nextCheckAt?: Date; // When proposed swaps are checked again
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ACTIVE_STATUSES: KeyRotationStatus[] = [
+  "queued",
+  "running",
+  "awaiting_signatures",
+];
+
+const FINISHED_NETWORK_STATUSES: RotationNetworkStatus[] = [
+  "confirmed",
+  "skipped",
+];
+
+export class KeyRotation {
+  private static collection: Collection<IKeyRotationDocument> | null = null;
+
+  public _id?: ObjectId;
+  public rotationId: string;
+  public agentType: string;
+  public fromAddress: string;
+  public toAddress: string;
+  public status: KeyRotationStatus;
+  public safes: IRotationSafeProgress[];
+  public attempts: number;
+  public lockedBy?: string;
+  public lockExpiresAt?: Date;
+  public nextCheckAt?: Date;
+  public error?: string;
+  public startedAt?: Date;
+  public completedAt?: Date;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(data: Partial<IKeyRotationDocument>) {
+    this._id = data._id;
+    this.rotationId = data.rotationId || "";
+    this.agentType = data.agentType || "";
+    this.fromAddress = data.fromAddress || "";
+    this.toAddress = data.toAddress || "";
+    this.status = data.status || "queued";
+    this.safes = data.safes || [];
+    this.attempts = data.attempts || 0;
+    this.lockedBy = data.lockedBy;
+    this.lockExpiresAt = data.lockExpiresAt;
+    this.nextCheckAt = data.nextCheckAt;
+    this.error = data.error;
+    this.startedAt = data.startedAt;
+    this.completedAt = data.completedAt;
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  public static getCollection(): Collection<IKeyRotationDocument> {
+    if (!this.collection) {
+      const db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<IKeyRotationDocument>("key_rotations");
+    }
+    return this.collection;
+  }
+
+  private validate(): void {
+    if (!this.rotationId) {
+      throw new Error("RotationId is required");
+    }
+    if (!this.agentType) {
+      throw new Error("AgentType is required");
+    }
+    if (!this.fromAddress || !this.toAddress) {
+      throw new Error("Both the old and the new agent address are required");
+    }
+  }
+
+  // Instance methods
+  public isFinished(): boolean {
+    return !ACTIVE_STATUSES.includes(this.status);
+  }
+
+  /**
+   * Whether every network of a Safe has its swap confirmed or nothing to swap
+   */
+  public static isSafeSwapped(safe: IRotationSafeProgress): boolean {
+    return Object.values(safe.networks).every((progress) =>
+      FINISHED_NETWORK_STATUSES.includes(progress.status)
+    );
+  }
+
+  public getSummary(): Record<RotationNetworkStatus, number> & {
+    safes: number;
+    ownersUpdated: number;
+  } {
+    const summary = {
+      safes: this.safes.length,
+      ownersUpdated: this.safes.filter((safe) => safe.ownersUpdated).length,
+      pending: 0,
+      proposed: 0,
+      confirmed: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    for (const safe of this.safes) {
+      for (const progress of Object.values(safe.networks)) {
+        summary[progress.status]++;
+      }
+    }
+    return summary;
+  }
+
+  public async save(): Promise<KeyRotation> {
+    this.validate();
+    this.updatedAt = new Date();
+
+    const collection = KeyRotation.getCollection();
+    const document = this.toJSON();
+
+    if (this._id) {
+      await collection.replaceOne({ _id: this._id }, document);
+    } else {
+      const result = await collection.insertOne(document);
+      this._id = result.insertedId;
+    }
+
+    return this;
+  }
+
+  // Static methods
+  public static async findByRotationId(
+    rotationId: string
+  ): Promise<KeyRotation | null> {
+    const collection = this.getCollection();
+    const document = await collection.findOne({ rotationId });
+    return document ? new KeyRotation(document) : null;
+  }
+
+  public static async findByAgentType(
+    agentType?: string,
+    limit = 50
+  ): Promise<KeyRotation[]> {
+    const collection = this.getCollection();
+    const documents = await collection
+      .find(agentType ? { agentType } : {})
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+    return documents.map((doc) => new KeyRotation(doc));
+  }
+
+  public static async findActiveForAgentType(
+    agentType: string
+  ): Promise<KeyRotation | null> {
+    const collection = this.getCollection();
+    const document = await collection.findOne({
+      agentType,
+      status: { $in: ACTIVE_STATUSES },
+    });
+    return document ? new KeyRotation(document) : null;
+  }
+
+  /**
+   * Atomically claim the oldest runnable rotation: queued, running with an expired
+   * lock (its worker died), or waiting for signatures and due for another check
+   */
+  public static async claimNext(
+    workerId: string,
+    lockTtlMs: number
+  ): Promise<KeyRotation | null> {
+    const collection = this.getCollection();
+    const now = new Date();
+
+    const document = await collection.findOneAndUpdate(
+      {
+        $or: [
+          { status: "queued" },
+          { status: "running", lockExpiresAt: { $lt: now } },
+          { status: "awaiting_signatures", nextCheckAt: { $lte: now } },
+        ],
+      },
+      {
+        $set: {
+          status: "running",
+          lockedBy: workerId,
+          lockExpiresAt: new Date(now.getTime() + lockTtlMs),
+          updatedAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { createdAt: 1 }, returnDocument: "after" }
+    );
+
+    return document ? new KeyRotation(document) : null;
+  }
+
+  public static async extendLock(
+    rotationId: string,
+    workerId: string,
+    lockTtlMs: number
+  ): Promise<boolean> {
+    const collection = this.getCollection();
+    const result = await collection.updateOne(
+      { rotationId, lockedBy: workerId, status: "running" },
+      { $set: { lockExpiresAt: new Date(Date.now() + lockTtlMs) } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  public toJSON(): IKeyRotationDocument {
+    return {
+      _id: this._id,
+      rotationId: this.rotationId,
+      agentType: this.agentType,
+      fromAddress: this.fromAddress,
+      toAddress: this.toAddress,
+      status: this.status,
+      safes: this.safes,
+      attempts: this.attempts,
+      lockedBy: this.lockedBy,
+      lockExpiresAt: this.lockExpiresAt,
+      nextCheckAt: this.nextCheckAt,
+      error: this.error,
+      startedAt: this.startedAt,
+      completedAt: this.completedAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
+
+export default KeyRotation;
@@ -0,0 +1,243 @@
+import { Collection, ObjectId } from "mongodb";
+import { ethers } from "ethers";
+import DatabaseConnection from "../config/database.js";
+import { getRpcUrls, NetworkConfig, NetworkKey } from "../config/networks.js";
+import {
+  DEFAULT_SAFE_VERSION,
+  isSafeVersion,
+  SAFE_CONTRACT_ADDRESS_FIELDS,
+} from "../config/safeContracts.js";
+
+// TypeScript interfaces for the models (MongoDB)
+export interface INetworkDocument extends NetworkConfig {
+  _id?: ObjectId;
+  key: NetworkKey;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class Network {
+  private static collection: Collection<INetworkDocument> | null = null;
+
+  public _id?: ObjectId;
+  public key: NetworkKey;
+  public enabled: boolean;
+  public config: NetworkConfig;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(data: Partial<INetworkDocument>) {
+    const { _id, key, enabled, createdAt, updatedAt, ...config } = data;
+
+    this._id = _id;
+    this.key = key || "";
+    this.enabled = enabled ?? true;
+    this.config = {
+      name: config.name || "",
+      rpc: config.rpc || "",
+      fallbackRpcs: config.fallbackRpcs || [],
+      ...(config.rpcQuorum && { rpcQuorum: config.rpcQuorum }),
+      chainId: config.chainId || 0,
+      explorer: config.explorer || "",
+      currency: config.currency || {
+        name: "Ether",
+        symbol: "ETH",
+        decimals: 18,
+      },
+      isTestnet: config.isTestnet ?? false,
+      safeVersion: config.safeVersion || DEFAULT_SAFE_VERSION,
+      ...(config.singletonType && { singletonType: config.singletonType }),
+      ...(config.safeContracts && { safeContracts: config.safeContracts }),
+      features: config.features || [],
+      faucets: config.faucets || [],
+      gasPrice: config.gasPrice || { min: 0, max: 0, unit: "gwei" },
+      ...(config.tokens && { tokens: config.tokens }),
+    };
+    this.createdAt = createdAt || new Date();
+    this.updatedAt = updatedAt || new Date();
+  }
+
+  public static getCollection(): Collection<INetworkDocument> {
+    if (!this.collection) {
+      const db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<INetworkDocument>("networks");
+    }
+    return this.collection;
+  }
+
+  private validate(): void {
+    if (!this.key.match(/^[a-z0-9_]+$/)) {
+      throw new Error(
+        `Invalid network key format: ${this.key} (use lowercase letters, digits and _)`
+      );
+    }
+    if (!this.config.name) {
+      throw new Error("Network name is required");
+    }
+    if (!this.config.rpc) {
+      throw new Error("Network RPC URL is required");
+    }
+    const rpcCount = getRpcUrls(this.config).length;
+    if (
+      this.config.rpcQuorum !== undefined &&
+      (!Number.isInteger(this.config.rpcQuorum) ||
+        this.config.rpcQuorum < 1 ||
+        this.config.rpcQuorum > rpcCount)
+    ) {
+      throw new Error(
+        `Invalid rpcQuorum: ${this.config.rpcQuorum} (network has ${rpcCount} RPC endpoint(s))`
+      );
+    }
+    if (!Number.isInteger(this.config.chainId) || this.config.chainId <= 0) {
+      throw new Error(`Invalid chainId: ${this.config.chainId}`);
+    }
+    if (!isSafeVersion(this.config.safeVersion)) {
+      throw new Error(`Unsupported Safe version: ${this.config.safeVersion}`);
+    }
+    for (const [version, deployment] of Object.entries(
+      this.config.safeContracts || {}
+    )) {
+      if (!isSafeVersion(version)) {
+        throw new Error(`Unsupported Safe version: ${version}`);
+      }
+      for (const field of SAFE_CONTRACT_ADDRESS_FIELDS) {
+        if (!ethers.isAddress(deployment?.[field])) {
+          throw new Error(
+            `Invalid ${field} for Safe ${version}: ${deployment?.[field]}`
+          );
+        }
+      }
+      if (
+        deployment?.proxyCreationCode !== undefined &&
+        !ethers.isHexString(deployment.proxyCreationCode)
+      ) {
+        throw new Error(`Invalid proxyCreationCode for Safe ${version}`);
+      }
+    }
+    for (const token of this.config.tokens || []) {
+      if (!ethers.isAddress(token?.address)) {
+        throw new Error(`Invalid token address: ${token?.address}`);
+      }
+      if (
+        !Number.isInteger(token.decimals) ||
+        token.decimals < 0 ||
+        token.decimals > 36
+      ) {
+        throw new Error(
+          `Invalid decimals for token ${token.symbol}: ${token.decimals}`
+        );
+      }
+    }
+  }
+
+  public async save(): Promise<Network> {
+    this.validate();
+    this.updatedAt = new Date();
+
+    const collection = Network.getCollection();
+    const document = this.toJSON();
+
+    if (this._id) {
+      await collection.replaceOne({ _id: this._id }, document);
+    } else {
+      const result = await collection.insertOne(document);
+      this._id = result.insertedId;
+    }
+
+    return this;
+  }
+
+  public async delete(): Promise<void> {
+    await Network.getCollection().deleteOne({ key: this.key });
+  }
+
+  // Static methods
+  public static async findByKey(key: NetworkKey): Promise<Network | null> {
+    const document = await this.getCollection().findOne({ key });
+    return document ? new Network(document) : null;
+  }
+
+  public static async findByChainId(chainId: number): Promise<Network[]> {
+    const documents = await this.getCollection().find({ chainId }).toArray();
+    return documents.map((doc) => new Network(doc));
+  }
+
+  public static async findAll(
+    options: { enabledOnly?: boolean } = {}
+  ): Promise<Network[]> {
+    const filter = options.enabledOnly ? { enabled: true } : {};
+    const documents = await this.getCollection()
+      .find(filter)
+      .sort({ key: 1 })
+      .toArray();
+    return documents.map((doc) => new Network(doc));
+  }
+
+  /**
+   * Insert seed networks that are not registered yet; existing entries are left untouched
+   */
+  public static async seed(
+    networks: Record<NetworkKey, NetworkConfig>
+  ): Promise<number> {
+    const now = new Date();
+    const operations = Object.entries(networks).map(([key, config]) => ({
+      updateOne: {
+        filter: { key },
+        update: {
+          $setOnInsert: {
+            ...config,
+            key,
+            enabled: true,
+            createdAt: now,
+            updatedAt: now,
+          },
+        },
+        upsert: true,
+      },
+    }));
+
+    if (operations.length === 0) {
+      return 0;
+    }
+    const result = await this.getCollection().bulkWrite(operations);
+    return result.upsertedCount;
+  }
+
+  /**
+   * Add the seed token lists to registered networks stored before tokens existed
+   * Networks that have a token list, even an empty one, keep it
+   */
+  public static async backfillTokens(
+    networks: Record<NetworkKey, NetworkConfig>
+  ): Promise<number> {
+    const now = new Date();
+    const operations = Object.entries(networks)
+      .filter(([, config]) => config.tokens)
+      .map(([key, config]) => ({
+        updateOne: {
+          filter: { key, tokens: { $exists: false } },
+          update: { $set: { tokens: config.tokens, updatedAt: now } },
+        },
+      }));
+
+    if (operations.length === 0) {
+      return 0;
+    }
+    const result = await this.getCollection().bulkWrite(operations);
+    return result.modifiedCount;
+  }
+
+  public toJSON(): INetworkDocument {
+    return {
+      _id: this._id,
+      key: this.key,
+      enabled: this.enabled,
+      ...this.config,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
+
+export default Network;
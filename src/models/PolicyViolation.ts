@@ -0,0 +1,106 @@
+import { Collection, ObjectId } from "mongodb";
+import DatabaseConnection from "../config/database.js";
+import { NetworkKey } from "../config/networks.js";
+
+// Rules of ISafePolicy a call can be rejected by
+export type PolicyRule =
+  | "allowedTargets"
+  | "allowedSelectors"
+  | "allowDelegateCall"
+  | "maxValuePerTxWei"
+  | "dailyValueCapWei"
+  | "allowedTokens";
+
+// TypeScript interfaces for the models (MongoDB)
+export interface IPolicyViolationDocument {
+  _id?: ObjectId;
+  violationId: string;
+  safeId: string;
+  networkKey: NetworkKey;
+  rule: PolicyRule;
+  message: string;
+  callIndex?: number; // Position in a batch
+  call?: {
+    to: string;
+    value: string;
+    selector?: string;
+    operation: number;
+  };
+  createdAt: Date;
+}
+
+export class PolicyViolation {
+  private static collection: Collection<IPolicyViolationDocument> | null = null;
+
+  public _id?: ObjectId;
+  public violationId: string;
+  public safeId: string;
+  public networkKey: NetworkKey;
+  public rule: PolicyRule;
+  public message: string;
+  public callIndex?: number;
+  public call?: IPolicyViolationDocument["call"];
+  public createdAt: Date;
+
+  constructor(data: Partial<IPolicyViolationDocument>) {
+    this._id = data._id;
+    this.violationId = data.violationId || "";
+    this.safeId = data.safeId || "";
+    this.networkKey = data.networkKey || ("" as NetworkKey);
+    this.rule = data.rule || "allowedTargets";
+    this.message = data.message || "";
+    this.callIndex = data.callIndex;
+    this.call = data.call;
+    this.createdAt = data.createdAt || new Date();
+  }
+
+  public static getCollection(): Collection<IPolicyViolationDocument> {
+    if (!this.collection) {
+      const db = DatabaseConnection.getInstance().getDatabase();
+      this.collection =
+        db.collection<IPolicyViolationDocument>("policy_violations");
+    }
+    return this.collection;
+  }
+
+  public async save(): Promise<PolicyViolation> {
+    if (!this.violationId || !this.safeId) {
+      throw new Error("ViolationId and safeId are required");
+    }
+
+    const collection = PolicyViolation.getCollection();
+    const result = await collection.insertOne(this.toJSON());
+    this._id = result.insertedId;
+    return this;
+  }
+
+  // Static methods
+  public static async findBySafeId(
+    safeId: string,
+    limit = 50
+  ): Promise<PolicyViolation[]> {
+    const collection = this.getCollection();
+    const documents = await collection
+      .find({ safeId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+    return documents.map((doc) => new PolicyViolation(doc));
+  }
+
+  public toJSON(): IPolicyViolationDocument {
+    return {
+      _id: this._id,
+      violationId: this.violationId,
+      safeId: this.safeId,
+      networkKey: this.networkKey,
+      rule: this.rule,
+      message: this.message,
+      callIndex: this.callIndex,
+      call: this.call,
+      createdAt: this.createdAt,
+    };
+  }
+}
+
+export default PolicyViolation;
@@ -1,27 +1,56 @@
 import { Collection, ObjectId, WithId } from "mongodb";
 import DatabaseConnection from "../config/database.js";
+import { NetworkKey } from "../config/networks.js";
 
 // TypeScript interfaces for the models (MongoDB)
+export interface IFeeQuote {
+  type: "eip1559" | "legacy";
+  baseFeePerGas?: string; // Expected base fee of the next block
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string; // Legacy networks only
+  gasEstimate: string;
+  gasLimit: string; // gasEstimate plus the safety margin
+  estimatedCostWei: string; // gasLimit at the maximum fee
+  quotedAt: Date;
+}
+
+export interface ITransactionAttempt {
+  kind: "original" | "replacement" | "cancellation";
+  txHash?: string; // Missing when the node rejected the transaction
+  nonce: number;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  sentAt: Date;
+  status: "pending" | "mined" | "replaced" | "rejected";
+  error?: string;
+}
+
+// A Safe module enabled through this service, compared with getModulesPaginated
+export interface ISafeModule {
+  address: string;
+  label?: string; // e.g. "allowance", "roles"
+  enabledAt: Date;
+  txHash?: string; // Missing when it was already enabled on-chain
+}
+
 export interface ISafeDeployment {
-  networkKey:
-    | "ethereum"
-    | "sepolia"
-    | "arbitrum"
-    | "arbitrum_sepolia"
-    | "polygon"
-    | "base"
-    | "base_sepolia"
-    | "optimism";
+  networkKey: NetworkKey;
   chainId: number;
   address: string;
   deploymentTxHash?: string;
   deploymentBlockNumber?: number;
   deploymentTimestamp: Date;
   gasUsed?: string;
-  gasPrice?: string;
+  gasPrice?: string; // Effective gas price paid
+  actualCostWei?: string;
+  feeQuote?: IFeeQuote; // Fees quoted before sending
+  transactionAttempts?: ITransactionAttempt[]; // Original, replacements and cancellation
   deploymentStatus: "pending" | "deployed" | "failed";
   explorerUrl?: string;
   isActive: boolean;
+  modules?: ISafeModule[];
 }
 
 export interface ISafeConfig {
@@ -29,6 +58,12 @@ export interface ISafeConfig {
   threshold: number;
   saltNonce: string;
   safeVersion: string;
+  saltStrategy?: "random" | "deterministic";
+  saltIndex?: number; // Only set for deterministic salts
+  // Owners and threshold the Safe was deployed with; set when a key rotation first
+  // changes owners, because CREATE2 addresses derive from them
+  initialOwners?: string[];
+  initialThreshold?: number;
 }
 
 export interface IUserInfo {
@@ -65,6 +100,56 @@ export interface ISafeMetadata {
   lastActivityAt: Date;
 }
 
+// proposed = owner change waiting for the other owners' signatures
+export interface ISafeFreezeNetwork {
+  status: "pending" | "proposed" | "confirmed" | "skipped" | "failed";
+  safeTxHash?: string;
+  txHash?: string;
+  error?: string;
+  updatedAt: Date;
+}
+
+// Freeze removes the agent as owner on-chain, unfreeze adds it back
+export interface ISafeFreeze {
+  action: "freeze" | "unfreeze";
+  status: "in_progress" | "completed" | "failed";
+  agentAddress: string;
+  reason?: string;
+  networks: { [key: string]: ISafeFreezeNetwork };
+  requestedAt: Date;
+  completedAt?: Date;
+}
+
+// Rules the agent's signature is held to; unset rules do not restrict
+export interface ISafePolicy {
+  enabled: boolean;
+  allowedTargets?: string[]; // Contracts (or recipients) calls may go to
+  allowedSelectors?: string[]; // 4-byte function selectors; calls without data are value transfers
+  maxValuePerTxWei?: string; // Native value of one Safe transaction (all calls of a batch)
+  dailyValueCapWei?: string; // Native value executed per network in the last 24 hours
+  allowedTokens?: string[]; // ERC20 contracts that transfer/approve calls may target
+  allowDelegateCall?: boolean; // Defaults to false
+  updatedAt: Date;
+}
+
+// On-chain state found at a stored deployment address
+export interface IDeploymentReconciliation {
+  status: "ok" | "mismatch" | "error"; // error = the chain could not be read
+  checkedAt: Date;
+  hasCode: boolean;
+  owners?: string[];
+  threshold?: number;
+  nonce?: number;
+  mismatches: string[];
+  error?: string;
+}
+
+export interface ISafeReconciliation {
+  status: "ok" | "mismatch" | "error";
+  checkedAt: Date;
+  networks: { [key: string]: IDeploymentReconciliation };
+}
+
 export interface ISafeDocument {
   _id?: ObjectId;
   safeId: string;
@@ -74,10 +159,58 @@ export interface ISafeDocument {
   metadata: ISafeMetadata;
   status: "initializing" | "active" | "suspended" | "archived";
   analytics: ISafeAnalytics;
+  freeze?: ISafeFreeze; // Last freeze or unfreeze operation
+  policy?: ISafePolicy;
+  reconciliation?: ISafeReconciliation; // Last comparison of the deployments with the chain
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+/**
+ * Build the owner list for a new Safe: user wallet first, then extra owners,
+ * then the agent (when included). Order matters for deterministic addresses.
+ */
+export function buildSafeOwners(
+  walletAddress: string,
+  extraOwners: string[] = [],
+  agentAddress?: string
+): string[] {
+  const owners = [walletAddress, ...extraOwners];
+  if (agentAddress) {
+    owners.push(agentAddress);
+  }
+  return owners;
+}
+
+/**
+ * Validate Safe owners and threshold; shared by request validation and the model
+ */
+export function validateSafeOwners(owners: string[], threshold: number): void {
+  if (!owners || owners.length === 0) {
+    throw new Error("At least one owner is required");
+  }
+  if (!Number.isInteger(threshold) || threshold < 1) {
+    throw new Error("Threshold must be an integer of at least 1");
+  }
+  if (threshold > owners.length) {
+    throw new Error("Threshold cannot exceed number of owners");
+  }
+
+  const seen = new Set<string>();
+  for (const owner of owners) {
+    if (!ADDRESS_PATTERN.test(owner)) {
+      throw new Error(`Invalid owner address format: ${owner}`);
+    }
+    const normalized = owner.toLowerCase();
+    if (seen.has(normalized)) {
+      throw new Error(`Invalid owners: duplicate owner address ${owner}`);
+    }
+    seen.add(normalized);
+  }
+}
+
 export class Safe {
   private static collection: Collection<ISafeDocument> | null = null;
 
@@ -89,6 +222,9 @@ export class Safe {
   public metadata: ISafeMetadata;
   public status: "initializing" | "active" | "suspended" | "archived";
   public analytics: ISafeAnalytics;
+  public freeze?: ISafeFreeze;
+  public policy?: ISafePolicy;
+  public reconciliation?: ISafeReconciliation;
   public createdAt?: Date;
   public updatedAt?: Date;
 
@@ -101,6 +237,9 @@ export class Safe {
     this.metadata = data.metadata || this.getDefaultMetadata();
     this.status = data.status || "initializing";
     this.analytics = data.analytics || this.getDefaultAnalytics();
+    this.freeze = data.freeze;
+    this.policy = data.policy;
+    this.reconciliation = data.reconciliation;
     this.createdAt = data.createdAt;
     this.updatedAt = data.updatedAt;
   }
@@ -141,23 +280,10 @@ export class Safe {
     if (!this.userInfo.walletAddress) {
       throw new Error("Wallet address is required");
     }
-    if (!this.userInfo.walletAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
+    if (!this.userInfo.walletAddress.match(ADDRESS_PATTERN)) {
       throw new Error("Invalid wallet address format");
     }
-    if (!this.config.owners || this.config.owners.length === 0) {
-      throw new Error("At least one owner is required");
-    }
-    if (this.config.threshold < 1) {
-      throw new Error("Threshold must be at least 1");
-    }
-    if (this.config.threshold > this.config.owners.length) {
-      throw new Error("Threshold cannot exceed number of owners");
-    }
-    for (const owner of this.config.owners) {
-      if (!owner.match(/^0x[a-fA-F0-9]{40}$/)) {
-        throw new Error(`Invalid owner address format: ${owner}`);
-      }
-    }
+    validateSafeOwners(this.config.owners, this.config.threshold);
   }
 
   // Instance methods
@@ -166,7 +292,7 @@ export class Safe {
     deployment: Partial<ISafeDeployment>
   ): Promise<Safe> {
     this.deployments[networkKey] = {
-      networkKey: networkKey as ISafeDeployment["networkKey"],
+      networkKey,
       chainId: deployment.chainId!,
       address: deployment.address!,
       deploymentTxHash: deployment.deploymentTxHash,
@@ -174,13 +300,20 @@ export class Safe {
       deploymentTimestamp: deployment.deploymentTimestamp || new Date(),
       gasUsed: deployment.gasUsed,
       gasPrice: deployment.gasPrice,
+      actualCostWei: deployment.actualCostWei,
+      feeQuote: deployment.feeQuote,
+      transactionAttempts: deployment.transactionAttempts,
       deploymentStatus: deployment.deploymentStatus || "pending",
       explorerUrl: deployment.explorerUrl,
       isActive: deployment.isActive !== undefined ? deployment.isActive : true,
     } as ISafeDeployment;
 
-    this.metadata.totalDeployments = Object.keys(this.deployments).length;
-    this.metadata.activeNetworks = Object.keys(this.deployments);
+    // Failed deployments are stored for their transaction attempts but not counted
+    const deployed = Object.keys(this.deployments).filter(
+      (key) => this.deployments[key].deploymentStatus === "deployed"
+    );
+    this.metadata.totalDeployments = deployed.length;
+    this.metadata.activeNetworks = deployed;
     this.metadata.updatedAt = new Date();
 
     return await this.save();
@@ -212,6 +345,44 @@ export class Safe {
     );
   }
 
+  /**
+   * Whether a key rotation replaced owners the Safe was deployed with
+   * New deployments at the same address would need the rotated-out keys as owners
+   */
+  public hasRotatedOwners(): boolean {
+    const initialOwners = this.config.initialOwners;
+    return (
+      !!initialOwners &&
+      initialOwners.some(
+        (owner) =>
+          !this.config.owners.some(
+            (current) => current.toLowerCase() === owner.toLowerCase()
+          )
+      )
+    );
+  }
+
+  /**
+   * Whether a freeze or unfreeze is still waiting for on-chain confirmation
+   */
+  public isFreezeInProgress(): boolean {
+    return this.freeze?.status === "in_progress";
+  }
+
+  /**
+   * Whether safeTxHash is an owner change of the open freeze or unfreeze;
+   * the only transactions a suspended Safe accepts
+   */
+  public isFreezeTransaction(safeTxHash: string): boolean {
+    return (
+      this.freeze?.status === "in_progress" &&
+      Object.values(this.freeze.networks).some(
+        (network) =>
+          network.safeTxHash?.toLowerCase() === safeTxHash.toLowerCase()
+      )
+    );
+  }
+
   public getActiveDeployments(): ISafeDeployment[] {
     const deployments: ISafeDeployment[] = [];
     for (const [_key, deployment] of Object.entries(this.deployments)) {
@@ -246,6 +417,9 @@ export class Safe {
       metadata: this.metadata,
       status: this.status,
       analytics: this.analytics,
+      freeze: this.freeze,
+      policy: this.policy,
+      reconciliation: this.reconciliation,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
@@ -277,6 +451,78 @@ export class Safe {
     return document ? new Safe(document) : null;
   }
 
+  /**
+   * Safes to reconcile, least recently checked (or never checked) first
+   */
+  public static async findForReconciliation(limit: number): Promise<Safe[]> {
+    const collection = this.getCollection();
+    const documents = await collection
+      .find({
+        status: { $ne: "archived" },
+        // deployments is keyed by network, so count them through the metadata
+        "metadata.totalDeployments": { $gt: 0 },
+      })
+      .sort({ "reconciliation.checkedAt": 1 })
+      .limit(limit)
+      .toArray();
+    return documents.map((doc) => new Safe(doc));
+  }
+
+  /**
+   * Store a reconciliation result without rewriting the rest of the record
+   */
+  public static async setReconciliation(
+    safeId: string,
+    reconciliation: ISafeReconciliation
+  ): Promise<void> {
+    const collection = this.getCollection();
+    await collection.updateOne({ safeId }, { $set: { reconciliation } });
+  }
+
+  /**
+   * Count an executed transaction in the analytics without rewriting the rest of
+   * the record, so changes made while the transaction was mined are kept
+   */
+  public static async recordTransaction(
+    safeId: string,
+    transaction: {
+      valueEther: string;
+      executedAt: Date;
+      mostUsedNetwork?: string;
+    }
+  ): Promise<void> {
+    const collection = this.getCollection();
+    const now = new Date();
+    // A pipeline update: totalValueTransferred is stored as a decimal string
+    await collection.updateOne({ safeId }, [
+      {
+        $set: {
+          "analytics.totalTransactions": {
+            $add: [{ $ifNull: ["$analytics.totalTransactions", 0] }, 1],
+          },
+          "analytics.totalValueTransferred": {
+            $toString: {
+              $add: [
+                {
+                  $toDouble: {
+                    $ifNull: ["$analytics.totalValueTransferred", "0"],
+                  },
+                },
+                parseFloat(transaction.valueEther),
+              ],
+            },
+          },
+          "analytics.lastTransactionAt": transaction.executedAt,
+          ...(transaction.mostUsedNetwork && {
+            "analytics.mostUsedNetwork": transaction.mostUsedNetwork,
+          }),
+          "metadata.lastActivityAt": now,
+          "metadata.updatedAt": now,
+        },
+      },
+    ]);
+  }
+
   public static async findByAddress(address: string): Promise<Safe[]> {
     const collection = this.getCollection();
     const documents = await collection
@@ -322,6 +568,30 @@ export class Safe {
     return result[0] || { totalSafes: 0, totalDeployments: 0, activeUsers: 0 };
   }
 
+  /**
+   * Networks each stored agentType has deployed Safes on
+   */
+  public static async findDeployedNetworks(): Promise<
+    Array<{ agentType?: string; networkKey: string }>
+  > {
+    const collection = this.getCollection();
+    const results = await collection
+      .aggregate([
+        { $match: { "metadata.totalDeployments": { $gt: 0 } } },
+        { $unwind: "$metadata.activeNetworks" },
+        {
+          $group: {
+            _id: {
+              agentType: "$userInfo.agentType",
+              networkKey: "$metadata.activeNetworks",
+            },
+          },
+        },
+      ])
+      .toArray();
+    return results.map((result) => result._id);
+  }
+
   public static async findOne(filter: any): Promise<Safe | null> {
     const collection = this.getCollection();
     const document = await collection.findOne(filter);
@@ -349,6 +619,9 @@ export class Safe {
       metadata: this.metadata,
       status: this.status,
       analytics: this.analytics,
+      freeze: this.freeze,
+      policy: this.policy,
+      reconciliation: this.reconciliation,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
@@ -0,0 +1,385 @@
+import { Collection, ObjectId } from "mongodb";
+import DatabaseConnection from "../config/database.js";
+import { NetworkKey } from "../config/networks.js";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// pending = collecting owner signatures, executing = claimed by a worker
+export type SafeTransactionStatus =
+  | "pending"
+  | "executing"
+  | "executed"
+  | "failed";
+
+// TypeScript interfaces for the models (MongoDB)
+export interface ISafeTransactionCall {
+  to: string;
+  value: string; // wei
+  data: string;
+  operation: number; // 0 = call, 1 = delegatecall
+}
+
+export interface ISafeTransactionSignature {
+  signer: string;
+  signature: string;
+  submittedAt: Date;
+}
+
+export interface ISafeTransactionDocument {
+  _id?: ObjectId;
+  transactionId: string;
+  safeId: string;
+  safeAddress: string;
+  networkKey: NetworkKey;
+  chainId: number;
+  to: string;
+  value: string;
+  data: string;
+  operation: number;
+  calls?: ISafeTransactionCall[]; // original calls when batched through MultiSend
+  safeTxGas: string;
+  baseGas: string;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  safeTxHash: string;
+  nonce: number;
+  threshold: number;
+  signatures: ISafeTransactionSignature[];
+  status: SafeTransactionStatus;
+  proposedBy: string;
+  executedBy?: string;
+  txHash?: string;
+  blockNumber?: number;
+  gasUsed?: string;
+  error?: string;
+  executedAt?: Date;
+  executingAt?: Date; // When the running execution claimed the transaction
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SafeTransactionQuery {
+  networkKey?: string;
+  status?: SafeTransactionStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export class SafeTransaction {
+  private static collection: Collection<ISafeTransactionDocument> | null = null;
+
+  public _id?: ObjectId;
+  public transactionId: string;
+  public safeId: string;
+  public safeAddress: string;
+  public networkKey: NetworkKey;
+  public chainId: number;
+  public to: string;
+  public value: string;
+  public data: string;
+  public operation: number;
+  public calls?: ISafeTransactionCall[];
+  public safeTxGas: string;
+  public baseGas: string;
+  public gasPrice: string;
+  public gasToken: string;
+  public refundReceiver: string;
+  public safeTxHash: string;
+  public nonce: number;
+  public threshold: number;
+  public signatures: ISafeTransactionSignature[];
+  public status: SafeTransactionStatus;
+  public proposedBy: string;
+  public executedBy?: string;
+  public txHash?: string;
+  public blockNumber?: number;
+  public gasUsed?: string;
+  public error?: string;
+  public executedAt?: Date;
+  public executingAt?: Date;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(data: Partial<ISafeTransactionDocument>) {
+    this._id = data._id;
+    this.transactionId = data.transactionId || "";
+    this.safeId = data.safeId || "";
+    this.safeAddress = data.safeAddress || "";
+    this.networkKey = data.networkKey as NetworkKey;
+    this.chainId = data.chainId || 0;
+    this.to = data.to || "";
+    this.value = data.value || "0";
+    this.data = data.data || "0x";
+    this.operation = data.operation || 0;
+    this.calls = data.calls;
+    this.safeTxGas = data.safeTxGas || "0";
+    this.baseGas = data.baseGas || "0";
+    this.gasPrice = data.gasPrice || "0";
+    this.gasToken = data.gasToken || ZERO_ADDRESS;
+    this.refundReceiver = data.refundReceiver || ZERO_ADDRESS;
+    this.safeTxHash = data.safeTxHash || "";
+    this.nonce = data.nonce || 0;
+    this.threshold = data.threshold || 1;
+    this.signatures = data.signatures || [];
+    this.status = data.status || "pending";
+    this.proposedBy = data.proposedBy || "";
+    this.executedBy = data.executedBy;
+    this.txHash = data.txHash;
+    this.blockNumber = data.blockNumber;
+    this.gasUsed = data.gasUsed;
+    this.error = data.error;
+    this.executedAt = data.executedAt;
+    this.executingAt = data.executingAt;
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  public static getCollection(): Collection<ISafeTransactionDocument> {
+    if (!this.collection) {
+      const db = DatabaseConnection.getInstance().getDatabase();
+      this.collection =
+        db.collection<ISafeTransactionDocument>("safe_transactions");
+    }
+    return this.collection;
+  }
+
+  private validate(): void {
+    if (!this.transactionId) {
+      throw new Error("TransactionId is required");
+    }
+    if (!this.safeId) {
+      throw new Error("SafeId is required");
+    }
+    if (!this.to.match(/^0x[a-fA-F0-9]{40}$/)) {
+      throw new Error(`Invalid target address format: ${this.to}`);
+    }
+    if (!this.safeTxHash) {
+      throw new Error("SafeTxHash is required");
+    }
+  }
+
+  /**
+   * Whether enough owner signatures have been collected to execute
+   */
+  public hasEnoughSignatures(): boolean {
+    return this.signatures.length >= this.threshold;
+  }
+
+  public hasSignatureFrom(address: string): boolean {
+    return this.signatures.some(
+      (s) => s.signer.toLowerCase() === address.toLowerCase()
+    );
+  }
+
+  public async save(): Promise<SafeTransaction> {
+    this.validate();
+    this.updatedAt = new Date();
+
+    const collection = SafeTransaction.getCollection();
+    const document = this.toJSON();
+
+    if (this._id) {
+      await collection.replaceOne({ _id: this._id }, document);
+    } else {
+      const result = await collection.insertOne(document);
+      this._id = result.insertedId;
+    }
+
+    return this;
+  }
+
+  // Static methods
+  public static async findBySafeTxHash(
+    safeId: string,
+    safeTxHash: string
+  ): Promise<SafeTransaction | null> {
+    const collection = this.getCollection();
+    const document = await collection.findOne({ safeId, safeTxHash });
+    return document ? new SafeTransaction(document) : null;
+  }
+
+  /**
+   * Atomically append an owner signature while the transaction is pending
+   * Returns null if the transaction is no longer pending or the owner already signed
+   */
+  public static async addSignature(
+    safeId: string,
+    safeTxHash: string,
+    signature: ISafeTransactionSignature
+  ): Promise<SafeTransaction | null> {
+    const collection = this.getCollection();
+    const document = await collection.findOneAndUpdate(
+      {
+        safeId,
+        safeTxHash,
+        status: "pending",
+        "signatures.signer": { $ne: signature.signer },
+      },
+      {
+        $push: { signatures: signature },
+        $set: { updatedAt: new Date() },
+      },
+      { returnDocument: "after" }
+    );
+    return document ? new SafeTransaction(document) : null;
+  }
+
+  /**
+   * Atomically move a pending transaction to executing so only one caller submits it
+   * A claim older than leaseMs belongs to an execution that died and is taken over
+   */
+  public static async claimForExecution(
+    safeId: string,
+    safeTxHash: string,
+    leaseMs: number
+  ): Promise<SafeTransaction | null> {
+    const collection = this.getCollection();
+    const now = new Date();
+    const document = await collection.findOneAndUpdate(
+      {
+        safeId,
+        safeTxHash,
+        $or: [
+          { status: "pending" },
+          {
+            status: "executing",
+            // Also matches unset
+            executingAt: { $not: { $gte: new Date(now.getTime() - leaseMs) } },
+          },
+        ],
+        $expr: { $gte: [{ $size: "$signatures" }, "$threshold"] },
+      },
+      { $set: { status: "executing", executingAt: now, updatedAt: now } },
+      { returnDocument: "after" }
+    );
+    return document ? new SafeTransaction(document) : null;
+  }
+
+  public static async findBySafeId(
+    safeId: string,
+    options: SafeTransactionQuery = {}
+  ): Promise<SafeTransaction[]> {
+    const { networkKey, status, limit = 50, offset = 0 } = options;
+    const filter: Record<string, unknown> = { safeId };
+    if (networkKey) filter.networkKey = networkKey;
+    if (status) filter.status = status;
+
+    const collection = this.getCollection();
+    const documents = await collection
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray();
+    return documents.map((doc) => new SafeTransaction(doc));
+  }
+
+  /**
+   * Count executed transactions per network for a Safe
+   */
+  public static async countExecutedByNetwork(
+    safeId: string
+  ): Promise<Record<string, number>> {
+    const collection = this.getCollection();
+    const results = await collection
+      .aggregate([
+        { $match: { safeId, status: "executed" } },
+        { $group: { _id: "$networkKey", count: { $sum: 1 } } },
+      ])
+      .toArray();
+
+    const counts: Record<string, number> = {};
+    for (const result of results) {
+      counts[result._id] = result.count;
+    }
+    return counts;
+  }
+
+  /**
+   * Highest Safe nonce executed through this service on a network, or null
+   */
+  public static async findMaxExecutedNonce(
+    safeId: string,
+    networkKey: string
+  ): Promise<number | null> {
+    const collection = this.getCollection();
+    const document = await collection.findOne(
+      { safeId, networkKey, status: "executed" },
+      { sort: { nonce: -1 }, projection: { nonce: 1 } }
+    );
+    return document ? document.nonce : null;
+  }
+
+  /**
+   * Sum the native value (in wei) executed on a network since a point in time
+   */
+  public static async sumExecutedValueSince(
+    safeId: string,
+    networkKey: string,
+    since: Date
+  ): Promise<bigint> {
+    const collection = this.getCollection();
+    const documents = await collection
+      .find({
+        safeId,
+        networkKey,
+        status: "executed",
+        executedAt: { $gte: since },
+      })
+      .project<Pick<ISafeTransactionDocument, "value" | "calls">>({
+        value: 1,
+        calls: 1,
+      })
+      .toArray();
+
+    // A MultiSend wrapper carries no value itself; the batched calls do
+    return documents.reduce(
+      (sum, doc) =>
+        sum +
+        (doc.calls || [doc]).reduce(
+          (callSum, call) => callSum + BigInt(call.value),
+          0n
+        ),
+      0n
+    );
+  }
+
+  public toJSON(): ISafeTransactionDocument {
+    return {
+      _id: this._id,
+      transactionId: this.transactionId,
+      safeId: this.safeId,
+      safeAddress: this.safeAddress,
+      networkKey: this.networkKey,
+      chainId: this.chainId,
+      to: this.to,
+      value: this.value,
+      data: this.data,
+      operation: this.operation,
+      calls: this.calls,
+      safeTxGas: this.safeTxGas,
+      baseGas: this.baseGas,
+      gasPrice: this.gasPrice,
+      gasToken: this.gasToken,
+      refundReceiver: this.refundReceiver,
+      safeTxHash: this.safeTxHash,
+      nonce: this.nonce,
+      threshold: this.threshold,
+      signatures: this.signatures,
+      status: this.status,
+      proposedBy: this.proposedBy,
+      executedBy: this.executedBy,
+      txHash: this.txHash,
+      blockNumber: this.blockNumber,
+      gasUsed: this.gasUsed,
+      error: this.error,
+      executedAt: this.executedAt,
+      executingAt: this.executingAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
+
+export default SafeTransaction;
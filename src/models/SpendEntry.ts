@@ -0,0 +1,113 @@
+import { Collection, ObjectId } from "mongodb";
+import DatabaseConnection from "../config/database.js";
+
+// Entries written before outcomes were recorded are deployments
+export type SpendOutcome = "deployed" | "reverted" | "cancelled";
+
+// TypeScript interfaces for the models (MongoDB)
+export interface ISpendEntryDocument {
+  _id?: ObjectId;
+  safeId: string;
+  userId: string;
+  agentType: string;
+  networkKey: string;
+  chainId: number;
+  deployerAddress: string;
+  txHash: string;
+  gasUsed: string;
+  gasPrice: string;
+  costWei: string;
+  outcome?: SpendOutcome;
+  createdAt: Date;
+}
+
+export interface SpendFilter {
+  userId?: string;
+  agentType?: string;
+  networkKey?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface SpendTotal {
+  key: Record<string, string>;
+  totalCostWei: bigint;
+  totalGasUsed: bigint;
+  deploymentGasUsed: bigint; // Gas of the successful deployments only
+  deployments: number; // Successful deployments
+  failedTransactions: number; // Reverted deployments and cancellations, also paid for
+}
+
+export class SpendEntry {
+  private static collection: Collection<ISpendEntryDocument> | null = null;
+
+  public static getCollection(): Collection<ISpendEntryDocument> {
+    if (!this.collection) {
+      const db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<ISpendEntryDocument>("deployer_spend");
+    }
+    return this.collection;
+  }
+
+  public static async record(
+    entry: Omit<ISpendEntryDocument, "_id" | "createdAt">
+  ): Promise<ISpendEntryDocument> {
+    const document: ISpendEntryDocument = { ...entry, createdAt: new Date() };
+    const result = await this.getCollection().insertOne(document);
+    return { ...document, _id: result.insertedId };
+  }
+
+  /**
+   * Sum cost and gas of matching entries, grouped by the given fields
+   * Wei amounts are stored as strings and summed as Decimal128 to avoid overflow
+   */
+  public static async sumBy(
+    filter: SpendFilter,
+    groupFields: Array<"userId" | "agentType" | "networkKey">
+  ): Promise<SpendTotal[]> {
+    const match: Record<string, unknown> = {};
+    if (filter.userId) match.userId = filter.userId;
+    if (filter.agentType) match.agentType = filter.agentType;
+    if (filter.networkKey) match.networkKey = filter.networkKey;
+    if (filter.from || filter.to) {
+      const createdAt: Record<string, Date> = {};
+      if (filter.from) createdAt.$gte = filter.from;
+      if (filter.to) createdAt.$lte = filter.to;
+      match.createdAt = createdAt;
+    }
+
+    const groupId: Record<string, string> = {};
+    for (const field of groupFields) {
+      groupId[field] = `$${field}`;
+    }
+
+    const failed = { $in: ["$outcome", ["reverted", "cancelled"]] };
+    const pipeline = [
+      { $match: match },
+      {
+        $group: {
+          _id: groupId,
+          totalCostWei: { $sum: { $toDecimal: "$costWei" } },
+          totalGasUsed: { $sum: { $toDecimal: "$gasUsed" } },
+          deploymentGasUsed: {
+            $sum: { $cond: [failed, 0, { $toDecimal: "$gasUsed" }] },
+          },
+          deployments: { $sum: { $cond: [failed, 0, 1] } },
+          failedTransactions: { $sum: { $cond: [failed, 1, 0] } },
+        },
+      },
+    ];
+
+    const results = await this.getCollection().aggregate(pipeline).toArray();
+    return results.map((result) => ({
+      key: result._id || {},
+      totalCostWei: BigInt(result.totalCostWei.toString()),
+      totalGasUsed: BigInt(result.totalGasUsed.toString()),
+      deploymentGasUsed: BigInt(result.deploymentGasUsed.toString()),
+      deployments: result.deployments,
+      failedTransactions: result.failedTransactions,
+    }));
+  }
+}
+
+export default SpendEntry;
@@ -0,0 +1,122 @@
+import { Collection, MongoServerError, ObjectId } from "mongodb";
+import DatabaseConnection from "../config/database.js";
+
+// Budget held by one deployment in flight
+export interface ISpendHold {
+  id: string;
+  amountWei: string; // Wei amounts are stored as strings and summed as Decimal128
+  expiresAt: Date; // Holds of crashed workers stop counting after this
+}
+
+// TypeScript interfaces for the models (MongoDB)
+export interface ISpendReservationDocument {
+  _id?: ObjectId;
+  key: string; // Budget scope, e.g. user:<userId>:<networkKey>
+  holds: ISpendHold[];
+  updatedAt: Date;
+}
+
+/**
+ * Budget held by in-flight deployments, one document of holds per budget scope
+ * A hold is added in one update that also checks the sum of the live holds, so
+ * concurrent deployments cannot reserve more than the budget left between them
+ */
+export class SpendReservation {
+  private static collection: Collection<ISpendReservationDocument> | null =
+    null;
+
+  public static getCollection(): Collection<ISpendReservationDocument> {
+    if (!this.collection) {
+      const db = DatabaseConnection.getInstance().getDatabase();
+      this.collection =
+        db.collection<ISpendReservationDocument>("spend_reservations");
+    }
+    return this.collection;
+  }
+
+  /**
+   * Add a hold of amountWei to the scope unless the live holds would exceed availableWei
+   * Expired holds are dropped in the same update; returns false when over budget
+   */
+  public static async reserve(
+    key: string,
+    hold: Omit<ISpendHold, "expiresAt">,
+    availableWei: bigint,
+    ttlMs: number
+  ): Promise<boolean> {
+    if (BigInt(hold.amountWei) > availableWei) {
+      return false;
+    }
+
+    const now = new Date();
+    const liveHolds = {
+      $filter: {
+        input: { $ifNull: ["$holds", []] },
+        cond: { $gt: ["$$this.expiresAt", now] },
+      },
+    };
+    const heldWei = {
+      $sum: {
+        $map: { input: "$holds", in: { $toDecimal: "$$this.amountWei" } },
+      },
+    };
+    const pipeline = [
+      { $set: { holds: liveHolds } },
+      {
+        $set: {
+          holds: {
+            $cond: [
+              {
+                $lte: [
+                  { $add: [heldWei, { $toDecimal: hold.amountWei }] },
+                  { $toDecimal: availableWei.toString() },
+                ],
+              },
+              {
+                $concatArrays: [
+                  "$holds",
+                  [
+                    {
+                      id: hold.id,
+                      amountWei: hold.amountWei,
+                      expiresAt: new Date(now.getTime() + ttlMs),
+                    },
+                  ],
+                ],
+              },
+              "$holds",
+            ],
+          },
+          updatedAt: now,
+        },
+      },
+    ];
+
+    const update = () =>
+      this.getCollection().findOneAndUpdate({ key }, pipeline, {
+        upsert: true,
+        returnDocument: "after",
+      });
+
+    let document: ISpendReservationDocument | null;
+    try {
+      document = await update();
+    } catch (error) {
+      // Two first reservations of a scope raced to insert it; the other one won
+      if (!(error instanceof MongoServerError && error.code === 11000)) {
+        throw error;
+      }
+      document = await update();
+    }
+    return !!document?.holds.some((held) => held.id === hold.id);
+  }
+
+  public static async release(key: string, id: string): Promise<void> {
+    await this.getCollection().updateOne(
+      { key },
+      { $pull: { holds: { id } }, $set: { updatedAt: new Date() } }
+    );
+  }
+}
+
+export default SpendReservation;
@@ -0,0 +1,257 @@
+import express, { Request, Response } from "express";
+import { body, validationResult } from "express-validator";
+import {
+  AGENT_TYPES,
+  DEFAULT_AGENT_TYPE,
+  getAgentAddress,
+  getAgentSignerConfig,
+} from "../config/agents.js";
+import KeyRotationService from "../services/KeyRotationService.js";
+import { KeyRotation } from "../models/KeyRotation.js";
+import { authenticate, requireScope } from "../middleware/auth.js";
+import logger from "../config/logger.js";
+
+const router = express.Router();
+
+interface StartRotationRequest extends Request {
+  params: {
+    agentType: string;
+  };
+  body: {
+    newAddress: string;
+  };
+}
+
+interface RotationRequest extends Request {
+  params: {
+    rotationId: string;
+  };
+}
+
+interface ListRotationsRequest extends Request {
+  query: {
+    agentType?: string;
+  };
+}
+
+const formatRotation = (rotation: KeyRotation) => {
+  const { _id, lockedBy, lockExpiresAt, ...data } = rotation.toJSON();
+  return { ...data, summary: rotation.getSummary() };
+};
+
+// Map key rotation errors to HTTP status codes
+const sendRotationError = (
+  res: Response,
+  error: unknown,
+  fallback: string
+): void => {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+  if (errorMessage.includes("not found")) {
+    res.status(404).json({
+      success: false,
+      error: "Key rotation not found",
+      message: errorMessage,
+    });
+    return;
+  }
+
+  if (errorMessage.includes("already")) {
+    res.status(409).json({
+      success: false,
+      error: "Key rotation conflict",
+      message: errorMessage,
+    });
+    return;
+  }
+
+  if (
+    errorMessage.includes("Unknown agentType") ||
+    errorMessage.includes("Invalid") ||
+    errorMessage.includes("current")
+  ) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid key rotation",
+      message: errorMessage,
+    });
+    return;
+  }
+
+  logger.error(`${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+    message: errorMessage,
+  });
+};
+
+/**
+ * @route   GET /api/agents/types
+ * @desc    List the agent types deployments accept, with their networks and agent address
+ * @access  Read
+ */
+router.get(
+  "/types",
+  authenticate,
+  requireScope("read"),
+  (req: Request, res: Response): void => {
+    const types = AGENT_TYPES.map((type) => {
+      // A misconfigured signer is reported on its type instead of failing the list
+      let signer: { type?: string; address?: string; error?: string };
+      try {
+        signer = {
+          type: getAgentSignerConfig(type.name).type,
+          address: getAgentAddress(type.name),
+        };
+      } catch (error) {
+        signer = {
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+        logger.warn(
+          `Signer for agentType ${type.name} is not usable: ${signer.error}`
+        );
+      }
+
+      return {
+        name: type.name,
+        aliases: type.aliases,
+        description: type.description,
+        isDefault: type.name === DEFAULT_AGENT_TYPE,
+        defaultNetworks: type.defaultNetworks,
+        allowedNetworks: type.allowedNetworks ?? null,
+        defaultTags: type.defaultTags,
+        signer: { reference: type.signer, ...signer },
+      };
+    });
+
+    res.json({
+      success: true,
+      data: {
+        types,
+        total: types.length,
+      },
+    });
+  }
+);
+
+/**
+ * @route   GET /api/agents/rotations
+ * @desc    List key rotations, newest first (optionally for one agentType)
+ * @access  Admin
+ */
+router.get(
+  "/rotations",
+  authenticate,
+  requireScope("admin"),
+  async (req: ListRotationsRequest, res: Response): Promise<void> => {
+    try {
+      const rotations = await KeyRotationService.getInstance().listRotations(
+        req.query.agentType
+      );
+
+      res.json({
+        success: true,
+        data: {
+          rotations: rotations.map(formatRotation),
+          total: rotations.length,
+        },
+      });
+    } catch (error) {
+      sendRotationError(res, error, "Failed to list key rotations");
+    }
+  }
+);
+
+/**
+ * @route   GET /api/agents/rotations/:rotationId
+ * @desc    Get a key rotation with its progress per Safe and network
+ * @access  Admin
+ */
+router.get(
+  "/rotations/:rotationId",
+  authenticate,
+  requireScope("admin"),
+  async (req: RotationRequest, res: Response): Promise<void> => {
+    try {
+      const rotation = await KeyRotationService.getInstance().getRotation(
+        req.params.rotationId
+      );
+
+      res.json({
+        success: true,
+        data: formatRotation(rotation),
+      });
+    } catch (error) {
+      sendRotationError(res, error, "Failed to get key rotation");
+    }
+  }
+);
+
+/**
+ * @route   POST /api/agents/rotations/:rotationId/resume
+ * @desc    Retry the failed swaps of a key rotation
+ * @access  Admin
+ */
+router.post(
+  "/rotations/:rotationId/resume",
+  authenticate,
+  requireScope("admin"),
+  async (req: RotationRequest, res: Response): Promise<void> => {
+    try {
+      const rotation = await KeyRotationService.getInstance().resumeRotation(
+        req.params.rotationId
+      );
+
+      res.status(202).json({
+        success: true,
+        message: `Key rotation ${rotation.rotationId} resumed`,
+        data: formatRotation(rotation),
+      });
+    } catch (error) {
+      sendRotationError(res, error, "Failed to resume key rotation");
+    }
+  }
+);
+
+/**
+ * @route   POST /api/agents/:agentType/rotations
+ * @desc    Replace the current agent key with newAddress as owner of every Safe of the type
+ * @access  Admin
+ */
+router.post(
+  "/:agentType/rotations",
+  authenticate,
+  requireScope("admin"),
+  body("newAddress")
+    .matches(/^0x[a-fA-F0-9]{40}$/)
+    .withMessage("newAddress must be a valid Ethereum address"),
+  async (req: StartRotationRequest, res: Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: "Validation failed",
+        details: errors.array(),
+      });
+      return;
+    }
+
+    try {
+      const rotation = await KeyRotationService.getInstance().startRotation(
+        req.params.agentType,
+        req.body.newAddress
+      );
+
+      res.status(202).json({
+        success: true,
+        message: `Key rotation ${rotation.rotationId} queued`,
+        data: formatRotation(rotation),
+      });
+    } catch (error) {
+      sendRotationError(res, error, "Failed to start key rotation");
+    }
+  }
+);
+
+export default router;
@@ -2,6 +2,7 @@ import express, { Request, Response } from "express";
 import DatabaseConnection from "../config/database.js";
 import { ethers } from "ethers";
 import { RedisClientType } from "redis";
+import DeployerBalanceMonitor from "../services/DeployerBalanceMonitor.js";
 
 const router = express.Router();
 
@@ -24,7 +25,14 @@ interface DetailedHealthData extends HealthData {
     database: string;
     redis: string;
     blockchain: string;
+    deployerFunds: string;
   };
+  underfunded?: {
+    agentType: string;
+    networkKey: string;
+    balance: string;
+    deploymentsLeft: number | null;
+  }[];
   memory: NodeJS.MemoryUsage;
 }
 
@@ -111,12 +119,33 @@ router.get(
       (status) => status === "connected"
     );
 
+    // Underfunded deployers still serve requests but new deployments may fail
+    const monitor = DeployerBalanceMonitor.getInstance();
+    const underfunded = monitor.getUnderfunded();
+    const deployerFunds = !monitor.getLastCheckAt()
+      ? "unknown"
+      : underfunded.length > 0
+        ? "underfunded"
+        : "ok";
+
     const detailedHealthData: DetailedHealthData = {
-      status: allHealthy ? "healthy" : "unhealthy",
+      status: !allHealthy
+        ? "unhealthy"
+        : deployerFunds === "underfunded"
+          ? "degraded"
+          : "healthy",
       timestamp: new Date().toISOString(),
       service: "Safe Deployment & Management Service",
       version: "1.0.0",
-      checks,
+      checks: { ...checks, deployerFunds },
+      ...(underfunded.length > 0 && {
+        underfunded: underfunded.map((balance) => ({
+          agentType: balance.agentType,
+          networkKey: balance.networkKey,
+          balance: `${balance.balance} ${balance.currency}`,
+          deploymentsLeft: balance.deploymentsLeft,
+        })),
+      }),
       uptime: process.uptime(),
       memory: process.memoryUsage(),
       environment: process.env.NODE_ENV || "development",
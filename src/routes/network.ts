@@ -1,13 +1,23 @@
 import express, { Request, Response } from "express";
+import { body, param, validationResult } from "express-validator";
 import {
-  NETWORKS,
+  getAllNetworks,
   NETWORK_GROUPS,
   FEATURES,
   getNetworksByGroup,
   getNetworksByFeature,
   getRecommendedNetworks,
+  getNetwork,
+  isNetworkSupported,
+  NetworkConfig,
   NetworkGroupKey,
+  NetworkToken,
 } from "../config/networks.js";
+import NetworkRegistry from "../services/NetworkRegistry.js";
+import ProviderPool from "../services/ProviderPool.js";
+import DeployerBalanceMonitor from "../services/DeployerBalanceMonitor.js";
+import { authenticate, requireScope } from "../middleware/auth.js";
+import logger from "../config/logger.js";
 
 const router = express.Router();
 
@@ -35,6 +45,219 @@ interface GetRecommendationsRequest extends Request {
   };
 }
 
+interface GetRpcHealthRequest extends Request {
+  params: {
+    networkKey: string;
+  };
+}
+
+interface CreateNetworkRequest extends Request {
+  body: NetworkConfig & {
+    key: string;
+    enabled?: boolean;
+  };
+}
+
+interface UpdateNetworkRequest extends Request {
+  params: {
+    networkKey: string;
+  };
+  body: Partial<NetworkConfig> & {
+    enabled?: boolean;
+  };
+}
+
+interface GetDeployerBalancesRequest extends Request {
+  query: {
+    refresh?: string;
+  };
+}
+
+interface NetworkKeyRequest extends Request {
+  params: {
+    networkKey: string;
+  };
+}
+
+// Validation middleware for registry entries (optional fields for updates)
+const validateNetworkConfig = (partial: boolean) => {
+  const field = (name: string) =>
+    partial ? body(name).optional() : body(name);
+  return [
+    field("name").isString().notEmpty().withMessage("name is required"),
+    field("rpc")
+      .isURL({ protocols: ["http", "https"], require_tld: false })
+      .withMessage("rpc must be an http(s) URL"),
+    field("chainId")
+      .isInt({ min: 1 })
+      .withMessage("chainId must be a positive integer"),
+    body("fallbackRpcs")
+      .optional()
+      .isArray({ max: 10 })
+      .withMessage("fallbackRpcs must be an array of up to 10 URLs"),
+    body("fallbackRpcs.*")
+      .isURL({ protocols: ["http", "https"], require_tld: false })
+      .withMessage("fallbackRpcs must contain http(s) URLs"),
+    body("rpcQuorum")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("rpcQuorum must be a positive integer"),
+    body("explorer").optional().isURL().withMessage("explorer must be a URL"),
+    body("currency.symbol")
+      .optional()
+      .isString()
+      .withMessage("currency.symbol must be a string"),
+    body("currency.decimals")
+      .optional()
+      .isInt({ min: 0, max: 36 })
+      .withMessage("currency.decimals must be an integer"),
+    body("isTestnet")
+      .optional()
+      .isBoolean()
+      .withMessage("isTestnet must be a boolean"),
+    body("safeVersion")
+      .optional()
+      .isIn(["1.3.0", "1.4.1"])
+      .withMessage("safeVersion must be 1.3.0 or 1.4.1"),
+    body("singletonType")
+      .optional()
+      .isIn(["l1", "l2"])
+      .withMessage("singletonType must be l1 or l2"),
+    body("safeContracts")
+      .optional()
+      .isObject()
+      .withMessage(
+        "safeContracts must map Safe versions to contract addresses"
+      ),
+    body("tokens")
+      .optional()
+      .isArray({ max: 50 })
+      .withMessage("tokens must be an array of up to 50 ERC-20 tokens"),
+    body("tokens.*.address")
+      .isEthereumAddress()
+      .withMessage("tokens must have valid addresses"),
+    body("tokens.*.symbol")
+      .isString()
+      .notEmpty()
+      .withMessage("tokens must have a symbol"),
+    body("tokens.*.decimals")
+      .isInt({ min: 0, max: 36 })
+      .withMessage("tokens must have integer decimals"),
+    body("features")
+      .optional()
+      .isArray()
+      .withMessage("features must be an array"),
+    body("enabled")
+      .optional()
+      .isBoolean()
+      .withMessage("enabled must be a boolean"),
+  ];
+};
+
+// Only accept NetworkConfig fields from request bodies
+const NETWORK_CONFIG_FIELDS: Array<keyof NetworkConfig> = [
+  "name",
+  "rpc",
+  "fallbackRpcs",
+  "rpcQuorum",
+  "chainId",
+  "explorer",
+  "currency",
+  "isTestnet",
+  "safeVersion",
+  "singletonType",
+  "safeContracts",
+  "features",
+  "faucets",
+  "gasPrice",
+  "tokens",
+];
+
+const pickNetworkConfig = (source: object): Partial<NetworkConfig> => {
+  const fields = source as Record<string, unknown>;
+  const config: Record<string, unknown> = {};
+  for (const field of NETWORK_CONFIG_FIELDS) {
+    if (fields[field] !== undefined) {
+      config[field] = fields[field];
+    }
+  }
+  if (config.chainId !== undefined) {
+    config.chainId = Number(config.chainId);
+  }
+  if (config.rpcQuorum !== undefined) {
+    config.rpcQuorum = Number(config.rpcQuorum);
+  }
+  if (Array.isArray(config.tokens)) {
+    config.tokens = (config.tokens as NetworkToken[]).map((token) => ({
+      address: token.address,
+      symbol: token.symbol,
+      decimals: Number(token.decimals),
+      ...(token.name && { name: token.name }),
+    }));
+  }
+  return config as Partial<NetworkConfig>;
+};
+
+// Public responses leave out RPC URLs, which may carry provider API keys
+const toPublicNetwork = ({
+  rpc: _rpc,
+  fallbackRpcs: _fallbackRpcs,
+  ...network
+}: NetworkConfig): Omit<NetworkConfig, "rpc" | "fallbackRpcs"> => network;
+
+// Map registry errors to HTTP status codes
+const sendRegistryError = (
+  res: Response,
+  error: unknown,
+  fallback: string
+): void => {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+  if (errorMessage.includes("not found")) {
+    res.status(404).json({
+      success: false,
+      error: "Network not found",
+      message: errorMessage,
+    });
+    return;
+  }
+
+  if (
+    errorMessage.includes("already exists") ||
+    errorMessage.includes("Cannot delete") ||
+    errorMessage.includes("Cannot change")
+  ) {
+    res.status(409).json({
+      success: false,
+      error: "Network conflict",
+      message: errorMessage,
+    });
+    return;
+  }
+
+  if (
+    errorMessage.includes("chainId mismatch") ||
+    errorMessage.includes("unreachable") ||
+    errorMessage.includes("Invalid") ||
+    errorMessage.includes("Unsupported Safe version") ||
+    errorMessage.includes("required")
+  ) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid network configuration",
+      message: errorMessage,
+    });
+    return;
+  }
+
+  logger.error(`${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+    message: errorMessage,
+  });
+};
+
 /**
  * @route   GET /api/network/supported
  * @desc    Get all supported networks
@@ -45,9 +268,9 @@ router.get(
   (req: GetSupportedNetworksRequest, res: Response): void => {
     const { type } = req.query;
 
-    let networks = Object.entries(NETWORKS).map(([key, config]) => ({
+    let networks = Object.entries(getAllNetworks()).map(([key, config]) => ({
       key,
-      ...config,
+      ...toPublicNetwork(config),
     }));
 
     if (type === "mainnet") {
@@ -78,7 +301,7 @@ router.get(
   (req: GetNetworksByGroupRequest, res: Response): void => {
     try {
       const { groupName } = req.params;
-      const networks = getNetworksByGroup(groupName);
+      const networks = getNetworksByGroup(groupName).map(toPublicNetwork);
 
       res.json({
         success: true,
@@ -108,7 +331,7 @@ router.get(
   (req: GetNetworksByFeatureRequest, res: Response): void => {
     try {
       const { featureName } = req.params;
-      const networks = getNetworksByFeature(featureName);
+      const networks = getNetworksByFeature(featureName).map(toPublicNetwork);
 
       res.json({
         success: true,
@@ -137,7 +360,8 @@ router.get(
   "/recommendations/:useCase",
   (req: GetRecommendationsRequest, res: Response): void => {
     const { useCase } = req.params;
-    const recommendations = getRecommendedNetworks(useCase);
+    const recommendations =
+      getRecommendedNetworks(useCase).map(toPublicNetwork);
 
     res.json({
       success: true,
@@ -150,4 +374,225 @@ router.get(
   }
 );
 
+/**
+ * @route   GET /api/network/:networkKey/rpc-health
+ * @desc    Probe each RPC endpoint of a network and show its health score
+ * @access  Read
+ */
+router.get(
+  "/:networkKey/rpc-health",
+  authenticate,
+  requireScope("read"),
+  async (req: GetRpcHealthRequest, res: Response): Promise<void> => {
+    const { networkKey } = req.params;
+
+    if (!isNetworkSupported(networkKey)) {
+      res.status(404).json({
+        success: false,
+        error: "Network not found",
+        message: `Unsupported network: ${networkKey}`,
+      });
+      return;
+    }
+
+    try {
+      const endpoints =
+        await ProviderPool.getInstance().checkHealth(networkKey);
+      const available = endpoints.filter(
+        (endpoint) => endpoint.status !== "down" && endpoint.blockNumber
+      ).length;
+
+      res.status(available > 0 ? 200 : 503).json({
+        success: available > 0,
+        data: {
+          networkKey,
+          quorum: getNetwork(networkKey).rpcQuorum ?? 1,
+          available,
+          total: endpoints.length,
+          endpoints,
+        },
+      });
+    } catch (error) {
+      logger.error(`RPC health check failed for ${networkKey}:`, error);
+      res.status(500).json({
+        success: false,
+        error: "RPC health check failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /api/network/deployer-balances
+ * @desc    Balance of each agent signer per network and the deployments it can still fund
+ * @access  Read
+ */
+router.get(
+  "/deployer-balances",
+  authenticate,
+  requireScope("read"),
+  async (req: GetDeployerBalancesRequest, res: Response): Promise<void> => {
+    try {
+      const monitor = DeployerBalanceMonitor.getInstance();
+      // Checked on demand when asked to or before the monitor's first run finished
+      const balances =
+        req.query.refresh === "true" || !monitor.getLastCheckAt()
+          ? await monitor.checkAll()
+          : monitor.getBalances();
+
+      res.json({
+        success: true,
+        data: {
+          balances,
+          underfunded: balances.filter((balance) => balance.status === "low")
+            .length,
+          checkedAt: monitor.getLastCheckAt(),
+        },
+      });
+    } catch (error) {
+      logger.error("Deployer balance check failed:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to check deployer balances",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /api/network/registry
+ * @desc    List all registry networks, including disabled ones
+ * @access  Admin
+ */
+router.get(
+  "/registry",
+  authenticate,
+  requireScope("admin"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const networks = await NetworkRegistry.getInstance().listNetworks();
+
+      res.json({
+        success: true,
+        data: {
+          networks: networks.map((network) => network.toJSON()),
+          total: networks.length,
+          lastRefreshAt: NetworkRegistry.getInstance().getLastRefreshAt(),
+        },
+      });
+    } catch (error) {
+      sendRegistryError(res, error, "Failed to list networks");
+    }
+  }
+);
+
+/**
+ * @route   POST /api/network/registry
+ * @desc    Register a network (the RPC must report the declared chainId)
+ * @access  Admin
+ */
+router.post(
+  "/registry",
+  authenticate,
+  requireScope("admin"),
+  body("key")
+    .matches(/^[a-z0-9_]+$/)
+    .withMessage("key must use lowercase letters, digits and _"),
+  validateNetworkConfig(false),
+  async (req: CreateNetworkRequest, res: Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: "Validation failed",
+        details: errors.array(),
+      });
+      return;
+    }
+
+    try {
+      const { key, enabled = true } = req.body;
+      const network = await NetworkRegistry.getInstance().createNetwork(
+        key,
+        pickNetworkConfig(req.body) as NetworkConfig,
+        enabled
+      );
+
+      res.status(201).json({
+        success: true,
+        message: `Network ${key} registered`,
+        data: network.toJSON(),
+      });
+    } catch (error) {
+      sendRegistryError(res, error, "Failed to register network");
+    }
+  }
+);
+
+/**
+ * @route   PUT /api/network/registry/:networkKey
+ * @desc    Update or enable/disable a network
+ * @access  Admin
+ */
+router.put(
+  "/registry/:networkKey",
+  authenticate,
+  requireScope("admin"),
+  param("networkKey").isString(),
+  validateNetworkConfig(true),
+  async (req: UpdateNetworkRequest, res: Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: "Validation failed",
+        details: errors.array(),
+      });
+      return;
+    }
+
+    try {
+      const { networkKey } = req.params;
+      const network = await NetworkRegistry.getInstance().updateNetwork(
+        networkKey,
+        { ...pickNetworkConfig(req.body), enabled: req.body.enabled }
+      );
+
+      res.json({
+        success: true,
+        message: `Network ${networkKey} updated`,
+        data: network.toJSON(),
+      });
+    } catch (error) {
+      sendRegistryError(res, error, "Failed to update network");
+    }
+  }
+);
+
+/**
+ * @route   DELETE /api/network/registry/:networkKey
+ * @desc    Remove a network that has no deployed Safes
+ * @access  Admin
+ */
+router.delete(
+  "/registry/:networkKey",
+  authenticate,
+  requireScope("admin"),
+  async (req: NetworkKeyRequest, res: Response): Promise<void> => {
+    try {
+      const { networkKey } = req.params;
+      await NetworkRegistry.getInstance().deleteNetwork(networkKey);
+
+      res.json({
+        success: true,
+        message: `Network ${networkKey} deleted`,
+      });
+    } catch (error) {
+      sendRegistryError(res, error, "Failed to delete network");
+    }
+  }
+);
+
 export default router;
@@ -1,6 +1,22 @@
 import express, { Request, Response } from "express";
 import { body, param, query } from "express-validator";
 import SafeController from "../controllers/SafeController.js";
+import { Safe, buildSafeOwners, validateSafeOwners } from "../models/Safe.js";
+import { DeploymentJob } from "../models/DeploymentJob.js";
+import {
+  authenticate,
+  authorizeOwner,
+  OwnerResolver,
+  requireScope,
+  restrictUserQuery,
+} from "../middleware/auth.js";
+import idempotency from "../middleware/idempotency.js";
+import {
+  AGENT_TYPES,
+  getAgentAddress,
+  isAgentTypeSupported,
+} from "../config/agents.js";
+import { SAFE_VERSIONS } from "../config/safeContracts.js";
 
 const router = express.Router();
 const safeController = new SafeController();
@@ -11,10 +27,58 @@ const validateSafeDeployment = [
   body("userInfo.walletAddress")
     .isEthereumAddress()
     .withMessage("Valid Ethereum address is required"),
+  body("userInfo.agentType")
+    .optional()
+    .custom((agentType) => isAgentTypeSupported(agentType))
+    .withMessage(
+      `agentType must be one of: ${AGENT_TYPES.map((type) => type.name).join(", ")}`
+    ),
   body("config.networks")
     .optional()
     .isArray()
     .withMessage("Networks must be an array"),
+  body("config.owners")
+    .optional()
+    .isArray()
+    .withMessage("Owners must be an array"),
+  body("config.owners.*")
+    .isEthereumAddress()
+    .withMessage("Each owner must be a valid Ethereum address"),
+  body("config.threshold")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Threshold must be a positive integer"),
+  body("config.includeAgent")
+    .optional()
+    .isBoolean()
+    .withMessage("includeAgent must be a boolean"),
+  body("config.saltStrategy")
+    .optional()
+    .isIn(["random", "deterministic"])
+    .withMessage("saltStrategy must be one of: random, deterministic"),
+  body("config.saltIndex")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("saltIndex must be a non-negative integer"),
+  body("config.safeVersion")
+    .optional()
+    .isIn(SAFE_VERSIONS)
+    .withMessage(`safeVersion must be one of: ${SAFE_VERSIONS.join(", ")}`),
+  // Same owner/threshold rules the Safe model enforces on save
+  body("config")
+    .optional()
+    .custom((config, { req }) => {
+      const { walletAddress, agentType } = req.body.userInfo || {};
+      const agentAddress =
+        config.includeAgent === false ? undefined : getAgentAddress(agentType);
+      const owners = buildSafeOwners(
+        walletAddress,
+        config.owners || [],
+        agentAddress
+      );
+      validateSafeOwners(owners, Number(config.threshold ?? 1));
+      return true;
+    }),
 ];
 
 // Validation middleware for Safe expansion
@@ -41,53 +105,431 @@ const validateSafeStatusUpdate = [
     ),
 ];
 
+// Validation middleware for Safe freeze and unfreeze
+const validateSafeFreeze = [
+  param("safeId").isUUID().withMessage("Valid Safe ID is required"),
+  body("reason")
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage("reason must be a string of at most 500 characters"),
+];
+
+// Validation middleware for enabling Safe modules
+const validateSafeModule = [
+  param("safeId").isUUID().withMessage("Valid Safe ID is required"),
+  body("moduleAddress")
+    .isEthereumAddress()
+    .withMessage("Valid module address is required"),
+  body("networks")
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage("networks must be a non-empty array"),
+  body("networks.*").isString().withMessage("Network keys must be strings"),
+  body("label")
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage("label must be a string of at most 100 characters"),
+];
+
+// Validation middleware for Safe policies (addresses and amounts are normalized by the service)
+const validateSafePolicy = [
+  param("safeId").isUUID().withMessage("Valid Safe ID is required"),
+  body("enabled")
+    .optional()
+    .isBoolean()
+    .withMessage("enabled must be a boolean"),
+  body(["allowedTargets", "allowedSelectors", "allowedTokens"])
+    .optional()
+    .isArray({ max: 200 })
+    .withMessage("Policy lists must be arrays of at most 200 entries"),
+  body(["maxValuePerTxWei", "dailyValueCapWei"])
+    .optional()
+    .matches(/^\d+$/)
+    .withMessage("Value limits must be wei amounts as decimal strings"),
+  body("allowDelegateCall")
+    .optional()
+    .isBoolean()
+    .withMessage("allowDelegateCall must be a boolean"),
+];
+
+const validateSafeBalances = [
+  param("safeId").isUUID().withMessage("Valid Safe ID is required"),
+  query("refresh")
+    .optional()
+    .isBoolean()
+    .withMessage("refresh must be a boolean"),
+];
+
+const validatePolicyGuard = [
+  param("safeId").isUUID().withMessage("Valid Safe ID is required"),
+  query("guardAddress")
+    .isEthereumAddress()
+    .withMessage("Valid guardAddress is required"),
+];
+
+// Validation middleware for Safe transactions
+const validateSafeTransaction = [
+  param("safeId").isUUID().withMessage("Valid Safe ID is required"),
+  body("networkKey").isString().withMessage("networkKey is required"),
+  body("to")
+    .isEthereumAddress()
+    .withMessage("Valid target address is required"),
+  body("value")
+    .optional()
+    .matches(/^\d+$/)
+    .withMessage("value must be a wei amount as a decimal string"),
+  body("data")
+    .optional()
+    .matches(/^0x([a-fA-F0-9]{2})*$/)
+    .withMessage("data must be 0x-prefixed hex"),
+  body("operation")
+    .optional()
+    .isIn([0, 1])
+    .withMessage("operation must be 0 (call) or 1 (delegatecall)"),
+];
+
+// Validation middleware for MultiSend batches
+const validateSafeBatch = [
+  param("safeId").isUUID().withMessage("Valid Safe ID is required"),
+  body("networkKey").isString().withMessage("networkKey is required"),
+  body("calls")
+    .isArray({ min: 1, max: 50 })
+    .withMessage("calls must be an array of 1 to 50 calls"),
+  body("calls.*.to")
+    .isEthereumAddress()
+    .withMessage("Each call needs a valid target address"),
+  body("calls.*.value")
+    .optional()
+    .matches(/^\d+$/)
+    .withMessage("Call value must be a wei amount as a decimal string"),
+  body("calls.*.data")
+    .optional()
+    .matches(/^0x([a-fA-F0-9]{2})*$/)
+    .withMessage("Call data must be 0x-prefixed hex"),
+  body("calls.*.operation")
+    .optional()
+    .isIn([0, 1])
+    .withMessage("Call operation must be 0 (call) or 1 (delegatecall)"),
+  body("dryRun").optional().isBoolean().withMessage("dryRun must be a boolean"),
+];
+
+// Validation middleware for owner signatures on Safe transactions
+const validateTransactionSignature = [
+  param("safeId").isUUID().withMessage("Valid Safe ID is required"),
+  param("safeTxHash")
+    .matches(/^0x[a-fA-F0-9]{64}$/)
+    .withMessage("Valid safeTxHash is required"),
+  body("signature")
+    .matches(/^0x[a-fA-F0-9]{130}$/)
+    .withMessage("signature must be a 65-byte EIP-712 signature"),
+  body("signer")
+    .optional()
+    .isEthereumAddress()
+    .withMessage("signer must be a valid address"),
+];
+
+// Ownership resolvers for authorizeOwner
+const safeOwner: OwnerResolver = async (req) => {
+  const safe = await Safe.findBySafeId(req.params.safeId);
+  return safe ? [safe.userInfo.userId] : [];
+};
+
+const addressOwners: OwnerResolver = async (req) => {
+  const safes = await Safe.findByAddress(req.params.address);
+  return safes.map((safe) => safe.userInfo.userId);
+};
+
+const jobOwner: OwnerResolver = async (req) => {
+  const job = await DeploymentJob.findByJobId(req.params.jobId);
+  const safe = job ? await Safe.findBySafeId(job.safeId) : null;
+  return safe ? [safe.userInfo.userId] : [];
+};
+
+const userParamOwner: OwnerResolver = async (req) => [req.params.userId];
+
+const userInfoOwner: OwnerResolver = async (req) =>
+  req.body?.userInfo?.userId ? [req.body.userInfo.userId] : [];
+
+// Public routes
+router.get("/health", async (req: Request, res: Response) => {
+  await safeController.healthCheck(req, res);
+});
+
+// Everything below requires a Bearer token or an API key
+router.use(authenticate);
+
 // Routes
 router.post(
   "/deploy",
+  requireScope("deploy"),
+  authorizeOwner(userInfoOwner),
+  idempotency,
   validateSafeDeployment,
   async (req: Request, res: Response) => {
     await safeController.deploySafes(req as any, res);
   }
 );
 
-router.get("/search", async (req: Request, res: Response) => {
-  await safeController.searchSafes(req as any, res);
-});
+router.post(
+  "/predict",
+  requireScope("deploy"),
+  authorizeOwner(userInfoOwner),
+  [
+    ...validateSafeDeployment,
+    body("persist")
+      .optional()
+      .isBoolean()
+      .withMessage("persist must be a boolean"),
+  ],
+  async (req: Request, res: Response) => {
+    await safeController.predictSafe(req as any, res);
+  }
+);
 
-router.get("/health", async (req: Request, res: Response) => {
-  await safeController.healthCheck(req, res);
-});
+router.post(
+  "/recover",
+  requireScope("deploy"),
+  authorizeOwner(userInfoOwner),
+  [
+    ...validateSafeDeployment,
+    body("maxIndex")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("maxIndex must be an integer between 1 and 100"),
+  ],
+  async (req: Request, res: Response) => {
+    await safeController.recoverSafes(req as any, res);
+  }
+);
 
-router.get("/network/stats", async (req: Request, res: Response) => {
-  await safeController.getNetworkStats(req, res);
-});
+router.get(
+  "/search",
+  requireScope("read"),
+  restrictUserQuery,
+  async (req: Request, res: Response) => {
+    await safeController.searchSafes(req as any, res);
+  }
+);
 
-router.get("/address/:address", async (req: Request, res: Response) => {
-  await safeController.getSafeByAddress(req as any, res);
-});
+router.get(
+  "/spend",
+  requireScope("read"),
+  restrictUserQuery,
+  [
+    query("from")
+      .optional()
+      .isISO8601()
+      .withMessage("from must be an ISO date"),
+    query("to").optional().isISO8601().withMessage("to must be an ISO date"),
+  ],
+  async (req: Request, res: Response) => {
+    await safeController.getSpendReport(req as any, res);
+  }
+);
 
-router.get("/user/:userId", async (req: Request, res: Response) => {
-  await safeController.getSafesByUserId(req as any, res);
-});
+router.get(
+  "/network/stats",
+  requireScope("read"),
+  async (req: Request, res: Response) => {
+    await safeController.getNetworkStats(req, res);
+  }
+);
 
-router.get("/user/:userId/stats", async (req: Request, res: Response) => {
-  await safeController.getUserStats(req as any, res);
-});
+router.get(
+  "/jobs/:jobId",
+  requireScope("read"),
+  param("jobId").isUUID().withMessage("Valid job ID is required"),
+  authorizeOwner(jobOwner),
+  async (req: Request, res: Response) => {
+    await safeController.getDeploymentJob(req as any, res);
+  }
+);
 
-router.get("/:safeId", async (req: Request, res: Response) => {
-  await safeController.getSafeById(req as any, res);
-});
+router.get(
+  "/address/:address",
+  requireScope("read"),
+  authorizeOwner(addressOwners),
+  async (req: Request, res: Response) => {
+    await safeController.getSafeByAddress(req as any, res);
+  }
+);
+
+router.get(
+  "/user/:userId",
+  requireScope("read"),
+  authorizeOwner(userParamOwner),
+  async (req: Request, res: Response) => {
+    await safeController.getSafesByUserId(req as any, res);
+  }
+);
+
+router.get(
+  "/user/:userId/stats",
+  requireScope("read"),
+  authorizeOwner(userParamOwner),
+  async (req: Request, res: Response) => {
+    await safeController.getUserStats(req as any, res);
+  }
+);
+
+router.get(
+  "/:safeId",
+  requireScope("read"),
+  authorizeOwner(safeOwner),
+  async (req: Request, res: Response) => {
+    await safeController.getSafeById(req as any, res);
+  }
+);
 
 router.post(
   "/:safeId/expand",
+  requireScope("deploy"),
+  authorizeOwner(safeOwner),
+  idempotency,
   validateSafeExpansion,
   async (req: Request, res: Response) => {
     await safeController.expandSafe(req as any, res);
   }
 );
 
+router.post(
+  "/:safeId/transactions",
+  requireScope("deploy"),
+  authorizeOwner(safeOwner),
+  validateSafeTransaction,
+  async (req: Request, res: Response) => {
+    await safeController.proposeTransaction(req as any, res);
+  }
+);
+
+router.get(
+  "/:safeId/transactions",
+  requireScope("read"),
+  authorizeOwner(safeOwner),
+  async (req: Request, res: Response) => {
+    await safeController.getTransactions(req as any, res);
+  }
+);
+
+router.post(
+  "/:safeId/modules",
+  requireScope("deploy"),
+  authorizeOwner(safeOwner),
+  validateSafeModule,
+  async (req: Request, res: Response) => {
+    await safeController.enableModule(req as any, res);
+  }
+);
+
+router.get(
+  "/:safeId/modules",
+  requireScope("read"),
+  authorizeOwner(safeOwner),
+  async (req: Request, res: Response) => {
+    await safeController.getModules(req as any, res);
+  }
+);
+
+router.get(
+  "/:safeId/verify",
+  requireScope("read"),
+  authorizeOwner(safeOwner),
+  async (req: Request, res: Response) => {
+    await safeController.verifySafe(req as any, res);
+  }
+);
+
+router.get(
+  "/:safeId/balances",
+  requireScope("read"),
+  authorizeOwner(safeOwner),
+  validateSafeBalances,
+  async (req: Request, res: Response) => {
+    await safeController.getBalances(req as any, res);
+  }
+);
+
+router.get(
+  "/:safeId/policy",
+  requireScope("read"),
+  authorizeOwner(safeOwner),
+  async (req: Request, res: Response) => {
+    await safeController.getPolicy(req as any, res);
+  }
+);
+
+router.put(
+  "/:safeId/policy",
+  requireScope("admin"),
+  validateSafePolicy,
+  async (req: Request, res: Response) => {
+    await safeController.updatePolicy(req as any, res);
+  }
+);
+
+router.get(
+  "/:safeId/policy/violations",
+  requireScope("read"),
+  authorizeOwner(safeOwner),
+  async (req: Request, res: Response) => {
+    await safeController.getPolicyViolations(req as any, res);
+  }
+);
+
+router.get(
+  "/:safeId/policy/guard",
+  requireScope("read"),
+  authorizeOwner(safeOwner),
+  validatePolicyGuard,
+  async (req: Request, res: Response) => {
+    await safeController.compilePolicyGuard(req as any, res);
+  }
+);
+
+router.post(
+  "/:safeId/transactions/batch",
+  requireScope("deploy"),
+  authorizeOwner(safeOwner),
+  validateSafeBatch,
+  async (req: Request, res: Response) => {
+    await safeController.proposeBatch(req as any, res);
+  }
+);
+
+router.get(
+  "/:safeId/transactions/:safeTxHash",
+  requireScope("read"),
+  authorizeOwner(safeOwner),
+  async (req: Request, res: Response) => {
+    await safeController.getTransaction(req as any, res);
+  }
+);
+
+router.post(
+  "/:safeId/transactions/:safeTxHash/signatures",
+  requireScope("deploy"),
+  authorizeOwner(safeOwner),
+  validateTransactionSignature,
+  async (req: Request, res: Response) => {
+    await safeController.addTransactionSignature(req as any, res);
+  }
+);
+
+router.post(
+  "/:safeId/transactions/:safeTxHash/execute",
+  requireScope("deploy"),
+  authorizeOwner(safeOwner),
+  async (req: Request, res: Response) => {
+    await safeController.executeTransaction(req as any, res);
+  }
+);
+
 router.put(
   "/:safeId/metadata",
+  requireScope("deploy"),
+  authorizeOwner(safeOwner),
   validateSafeMetadataUpdate,
   async (req: Request, res: Response) => {
     await safeController.updateSafeMetadata(req as any, res);
@@ -96,10 +538,29 @@ router.put(
 
 router.put(
   "/:safeId/status",
+  requireScope("admin"),
   validateSafeStatusUpdate,
   async (req: Request, res: Response) => {
     await safeController.updateSafeStatus(req as any, res);
   }
 );
 
+router.post(
+  "/:safeId/freeze",
+  requireScope("admin"),
+  validateSafeFreeze,
+  async (req: Request, res: Response) => {
+    await safeController.freezeSafe(req as any, res);
+  }
+);
+
+router.post(
+  "/:safeId/unfreeze",
+  requireScope("admin"),
+  validateSafeFreeze,
+  async (req: Request, res: Response) => {
+    await safeController.unfreezeSafe(req as any, res);
+  }
+);
+
 export default router;
@@ -7,10 +7,19 @@ import morgan from "morgan";
 import dotenv from "dotenv";
 import DatabaseConnection from "./config/database.js";
 import { createClient, RedisClientType } from "redis";
+import DeploymentQueue from "./services/DeploymentQueue.js";
+import NetworkRegistry from "./services/NetworkRegistry.js";
+import NonceManager from "./services/NonceManager.js";
+import BalanceService from "./services/BalanceService.js";
+import KeyRotationService from "./services/KeyRotationService.js";
+import ReconciliationService from "./services/ReconciliationService.js";
+import DeployerBalanceMonitor from "./services/DeployerBalanceMonitor.js";
+import SafeService from "./services/SafeService.js";
 
 // Import routes
 import safeRoutes from "./routes/safe.js";
 import networkRoutes from "./routes/network.js";
+import agentRoutes from "./routes/agents.js";
 import healthRoutes from "./routes/health.js";
 
 // Import middleware
@@ -117,7 +126,13 @@ app.use(
     origin: config.corsOrigin,
     credentials: true,
     methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
+    allowedHeaders: [
+      "Content-Type",
+      "Authorization",
+      "X-API-Key",
+      "Idempotency-Key",
+      "X-Requested-With",
+    ],
   })
 );
 
@@ -146,6 +161,7 @@ app.use((req: Request, res: Response, next: NextFunction): void => {
 app.use("/api/health", healthRoutes);
 app.use("/api/safe", safeRoutes);
 app.use("/api/network", networkRoutes);
+app.use("/api/agents", agentRoutes);
 
 // Root endpoint
 app.get("/", (req: Request, res: Response): void => {
@@ -158,6 +174,7 @@ app.get("/", (req: Request, res: Response): void => {
       health: "/api/health",
       safe: "/api/safe",
       network: "/api/network",
+      agents: "/api/agents",
     },
     documentation: "/api/docs",
   });
@@ -168,7 +185,12 @@ app.use("*", (req: Request, res: Response): void => {
   res.status(404).json({
     error: "Endpoint not found",
     message: `The requested endpoint ${req.originalUrl} does not exist`,
-    availableEndpoints: ["/api/health", "/api/safe", "/api/network"],
+    availableEndpoints: [
+      "/api/health",
+      "/api/safe",
+      "/api/network",
+      "/api/agents",
+    ],
   });
 });
 
@@ -180,6 +202,11 @@ const gracefulShutdown = async (signal: string): Promise<void> => {
   logger.info(`${signal} received, shutting down gracefully`);
 
   try {
+    DeploymentQueue.getInstance().stop();
+    KeyRotationService.getInstance().stop();
+    ReconciliationService.getInstance().stop();
+    DeployerBalanceMonitor.getInstance().stop();
+    NetworkRegistry.getInstance().stop();
     await DatabaseConnection.getInstance().disconnect();
     await redis?.quit();
     logger.info("Database connections closed");
@@ -197,30 +224,53 @@ process.on("SIGINT", () => gracefulShutdown("SIGINT"));
 // Start server
 const startServer = async (): Promise<void> => {
   try {
-    // Connect to MongoDB
+    // Connect to Redis first: workers started below send transactions, and their
+    // nonces must be shared with other instances from the start
     try {
-      await DatabaseConnection.getInstance().connect();
-    } catch (mongoError) {
+      if (config.redisEnabled) {
+        await redis?.connect();
+        // Share deployer nonces with other instances
+        NonceManager.getInstance().setRedis(redis);
+        // Cache Safe balances for CACHE_TTL seconds
+        BalanceService.getInstance().setRedis(redis);
+      }
+    } catch (redisError) {
       if (config.nodeEnv === "production") {
-        throw mongoError;
+        throw redisError;
       } else {
         logger.warn(
-          "MongoDB connection failed in development - some features may not work"
+          "Redis connection failed in development - continuing without cache"
         );
       }
     }
 
-    // Connect to Redis (with graceful fallback for development)
+    // Connect to MongoDB
     try {
-      if (config.redisEnabled) {
-        await redis?.connect();
-      }
-    } catch (redisError) {
+      await DatabaseConnection.getInstance().connect();
+
+      // Load networks from the registry (seeding built-in ones on first start)
+      await NetworkRegistry.getInstance().initialize();
+
+      // Resume queued and interrupted deployment jobs
+      const safeService = new SafeService();
+      DeploymentQueue.getInstance().start((job) =>
+        safeService.processDeploymentJob(job)
+      );
+
+      // Resume agent key rotations
+      KeyRotationService.getInstance().start();
+
+      // Periodically compare stored deployments with the chain
+      ReconciliationService.getInstance().start();
+
+      // Watch agent signer balances and alert before deployments run dry
+      DeployerBalanceMonitor.getInstance().start();
+    } catch (mongoError) {
       if (config.nodeEnv === "production") {
-        throw redisError;
+        throw mongoError;
       } else {
         logger.warn(
-          "Redis connection failed in development - continuing without cache"
+          "MongoDB connection failed in development - some features may not work"
         );
       }
     }
@@ -239,7 +289,13 @@ const startServer = async (): Promise<void> => {
         logger.info(`   - POST /api/safe/deploy`);
         logger.info(`   - GET  /api/safe/:address`);
         logger.info(`   - POST /api/safe/:address/expand`);
+        logger.info(`   - GET  /api/safe/jobs/:jobId`);
+        logger.info(`   - GET  /api/safe/:safeId/verify`);
+        logger.info(`   - GET  /api/safe/:safeId/balances`);
         logger.info(`   - GET  /api/network/supported`);
+        logger.info(`   - GET  /api/network/deployer-balances`);
+        logger.info(`   - GET  /api/agents/types`);
+        logger.info(`   - POST /api/agents/:agentType/rotations`);
       }
     });
   } catch (error) {
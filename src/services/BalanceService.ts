@@ -0,0 +1,251 @@
+import { ethers } from "ethers";
+import { RedisClientType } from "redis";
+import { Safe as SafeModel, ISafeDeployment } from "../models/Safe.js";
+import { getNetwork, NetworkKey } from "../config/networks.js";
+import ProviderPool from "./ProviderPool.js";
+import logger from "../config/logger.js";
+
+// Multicall3 is deployed at the same address on every supported chain
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  "function getEthBalance(address addr) view returns (uint256 balance)",
+  "function getBlockNumber() view returns (uint256 blockNumber)",
+];
+const ERC20_ABI = ["function balanceOf(address owner) view returns (uint256)"];
+
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+export interface AssetBalance {
+  symbol: string;
+  name?: string;
+  decimals: number;
+  balance: string; // Smallest unit
+  formatted: string;
+}
+
+export interface TokenBalance extends AssetBalance {
+  address: string;
+  error?: string; // balanceOf reverted, e.g. no token at the configured address
+}
+
+export interface NetworkBalances {
+  networkKey: NetworkKey;
+  chainId: number;
+  safeAddress: string;
+  native?: AssetBalance;
+  tokens: TokenBalance[];
+  blockNumber?: number;
+  fetchedAt: string;
+  cached: boolean;
+  error?: string; // The chain could not be read; the other networks are still returned
+}
+
+/**
+ * BalanceService - Native and ERC-20 balances of every active deployment of a Safe
+ * One Multicall3 call per network reads the native balance and every token of the
+ * network's token list. Results are cached per deployment in Redis for CACHE_TTL
+ * seconds when connected; failed networks are not cached
+ */
+class BalanceService {
+  private static instance: BalanceService;
+  private redis: RedisClientType | null = null;
+  private cacheTtlSeconds: number;
+
+  private constructor() {
+    this.cacheTtlSeconds = parseInt(process.env.CACHE_TTL || "300");
+  }
+
+  public static getInstance(): BalanceService {
+    if (!BalanceService.instance) {
+      BalanceService.instance = new BalanceService();
+    }
+    return BalanceService.instance;
+  }
+
+  /**
+   * Cache balances in Redis (call once the client is connected)
+   */
+  public setRedis(redis: RedisClientType | null): void {
+    this.redis = redis;
+  }
+
+  /**
+   * Balances of every active deployment; `refresh` skips the cache
+   */
+  public async getBalances(
+    safeId: string,
+    options: { refresh?: boolean } = {}
+  ): Promise<NetworkBalances[]> {
+    const safe = await SafeModel.findOne({ safeId });
+    if (!safe) {
+      throw new Error(`Safe not found: ${safeId}`);
+    }
+
+    // Networks are independent, so a chain that is down only fails its own entry
+    return await Promise.all(
+      safe
+        .getActiveDeployments()
+        .map((deployment) =>
+          this.getDeploymentBalances(deployment, options.refresh ?? false)
+        )
+    );
+  }
+
+  private async getDeploymentBalances(
+    deployment: ISafeDeployment,
+    refresh: boolean
+  ): Promise<NetworkBalances> {
+    const { networkKey, address } = deployment;
+    const cacheKey = `balances:${networkKey}:${address.toLowerCase()}`;
+
+    if (!refresh) {
+      const cached = await this.readCache(cacheKey);
+      if (cached) {
+        return { ...cached, cached: true };
+      }
+    }
+
+    try {
+      const balances = await this.readBalances(networkKey, address);
+      await this.writeCache(cacheKey, balances);
+      return balances;
+    } catch (error) {
+      logger.warn(
+        `Reading balances of ${address} on ${networkKey} failed: ${error instanceof Error ? error.message : error}`
+      );
+      return {
+        networkKey,
+        chainId: deployment.chainId,
+        safeAddress: address,
+        tokens: [],
+        fetchedAt: new Date().toISOString(),
+        cached: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async readBalances(
+    networkKey: NetworkKey,
+    safeAddress: string
+  ): Promise<NetworkBalances> {
+    const network = getNetwork(networkKey);
+    const tokens = network.tokens || [];
+    const multicall = new ethers.Contract(
+      MULTICALL3_ADDRESS,
+      MULTICALL3_ABI,
+      ProviderPool.getInstance().getProvider(networkKey)
+    );
+
+    const calls = [
+      {
+        target: MULTICALL3_ADDRESS,
+        allowFailure: false,
+        callData: multicallInterface.encodeFunctionData("getBlockNumber"),
+      },
+      {
+        target: MULTICALL3_ADDRESS,
+        allowFailure: false,
+        callData: multicallInterface.encodeFunctionData("getEthBalance", [
+          safeAddress,
+        ]),
+      },
+      ...tokens.map((token) => ({
+        target: token.address,
+        allowFailure: true,
+        callData: erc20Interface.encodeFunctionData("balanceOf", [safeAddress]),
+      })),
+    ];
+
+    const results: { success: boolean; returnData: string }[] =
+      await multicall.aggregate3.staticCall(calls);
+
+    const [blockNumber] = multicallInterface.decodeFunctionResult(
+      "getBlockNumber",
+      results[0].returnData
+    );
+    const [nativeBalance] = multicallInterface.decodeFunctionResult(
+      "getEthBalance",
+      results[1].returnData
+    );
+
+    return {
+      networkKey,
+      chainId: network.chainId,
+      safeAddress,
+      native: {
+        symbol: network.currency.symbol,
+        name: network.currency.name,
+        decimals: network.currency.decimals,
+        balance: nativeBalance.toString(),
+        formatted: ethers.formatUnits(nativeBalance, network.currency.decimals),
+      },
+      tokens: tokens.map((token, index): TokenBalance => {
+        const result = results[index + 2];
+        const asset = {
+          address: token.address,
+          symbol: token.symbol,
+          name: token.name,
+          decimals: token.decimals,
+        };
+        try {
+          if (!result.success) {
+            throw new Error("balanceOf reverted");
+          }
+          if (result.returnData === "0x") {
+            throw new Error(`No token contract at ${token.address}`);
+          }
+          const [balance] = erc20Interface.decodeFunctionResult(
+            "balanceOf",
+            result.returnData
+          );
+          return {
+            ...asset,
+            balance: balance.toString(),
+            formatted: ethers.formatUnits(balance, token.decimals),
+          };
+        } catch (error) {
+          return {
+            ...asset,
+            balance: "0",
+            formatted: "0",
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }),
+      blockNumber: Number(blockNumber),
+      fetchedAt: new Date().toISOString(),
+      cached: false,
+    };
+  }
+
+  private async readCache(key: string): Promise<NetworkBalances | null> {
+    if (!this.redis?.isReady) return null;
+    try {
+      const raw = await this.redis.get(key);
+      return raw ? (JSON.parse(raw) as NetworkBalances) : null;
+    } catch (error) {
+      logger.warn("Balance cache read failed:", error);
+      return null;
+    }
+  }
+
+  private async writeCache(
+    key: string,
+    balances: NetworkBalances
+  ): Promise<void> {
+    if (!this.redis?.isReady || this.cacheTtlSeconds <= 0) return;
+    try {
+      await this.redis.set(key, JSON.stringify(balances), {
+        EX: this.cacheTtlSeconds,
+      });
+    } catch (error) {
+      logger.warn("Balance cache write failed:", error);
+    }
+  }
+}
+
+export default BalanceService;
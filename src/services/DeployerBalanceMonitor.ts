@@ -0,0 +1,415 @@
+import { ethers } from "ethers";
+import {
+  getNetwork,
+  isNetworkSupported,
+  NetworkKey,
+} from "../config/networks.js";
+import {
+  AGENT_TYPES,
+  AgentTypeConfig,
+  getAgentAddress,
+  normalizeAgentType,
+} from "../config/agents.js";
+import { Safe } from "../models/Safe.js";
+import { SpendEntry } from "../models/SpendEntry.js";
+import ProviderPool from "./ProviderPool.js";
+import logger from "../config/logger.js";
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export interface DeployerBalanceMonitorConfig {
+  checkIntervalMs: number;
+  thresholds: Partial<Record<string, string>>; // Minimum balance per network, in native units
+  minDeployments: number; // Used for networks without a threshold
+  defaultDeploymentGas: bigint; // Until a network has deployments in the spend ledger
+  webhookUrl?: string;
+  alertRepeatMs: number; // A network that stays low is reported again after this long
+}
+
+export interface DeployerBalance {
+  agentType: string;
+  address: string;
+  networkKey: NetworkKey;
+  chainId: number;
+  currency: string;
+  balanceWei: string;
+  balance: string;
+  averageGasUsed: string;
+  gasPriceWei: string;
+  deploymentCostWei: string;
+  deploymentsLeft: number | null; // Null when the gas price is unknown
+  thresholdWei?: string;
+  minDeployments?: number;
+  status: "ok" | "low" | "error";
+  error?: string;
+  checkedAt: Date;
+}
+
+/**
+ * Per-network minimum balances, e.g. DEPLOYER_BALANCE_THRESHOLDS={"ethereum": "0.05"}
+ */
+function parseThresholds(): Partial<Record<string, string>> {
+  const raw = process.env.DEPLOYER_BALANCE_THRESHOLDS;
+  if (!raw) {
+    return {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      "Invalid JSON in DEPLOYER_BALANCE_THRESHOLDS environment variable"
+    );
+  }
+}
+
+/**
+ * DeployerBalanceMonitor - Watches the balance of every agent signer on its networks:
+ * the agentType's default networks and those it has deployed or spent gas on
+ * A balance is low below the network's threshold or, without one, when it funds fewer
+ * than minDeployments deployments at the average gasUsed of the spend ledger and the
+ * current gas price. Low balances are logged and posted to the alert webhook
+ */
+class DeployerBalanceMonitor {
+  private static instance: DeployerBalanceMonitor;
+  private config: DeployerBalanceMonitorConfig;
+  private timer: NodeJS.Timeout | null = null;
+  private balances = new Map<string, DeployerBalance>();
+  private lastAlertAt = new Map<string, number>();
+  private lastCheckAt: Date | null = null;
+  private checking: Promise<DeployerBalance[]> | null = null;
+
+  private constructor() {
+    this.config = {
+      checkIntervalMs: parseInt(
+        process.env.DEPLOYER_BALANCE_CHECK_MS || "300000"
+      ),
+      thresholds: parseThresholds(),
+      minDeployments: parseInt(process.env.DEPLOYER_MIN_DEPLOYMENTS || "5"),
+      defaultDeploymentGas: BigInt(
+        process.env.DEPLOYER_DEFAULT_DEPLOYMENT_GAS || "300000"
+      ),
+      webhookUrl: process.env.DEPLOYER_ALERT_WEBHOOK_URL || undefined,
+      alertRepeatMs: parseInt(
+        process.env.DEPLOYER_ALERT_REPEAT_MS || "21600000"
+      ),
+    };
+  }
+
+  public static getInstance(): DeployerBalanceMonitor {
+    if (!DeployerBalanceMonitor.instance) {
+      DeployerBalanceMonitor.instance = new DeployerBalanceMonitor();
+    }
+    return DeployerBalanceMonitor.instance;
+  }
+
+  /**
+   * Check now and then every checkIntervalMs; must be called after the database
+   * is connected and the network registry is loaded
+   */
+  public start(): void {
+    if (this.timer) return;
+
+    const run = () =>
+      this.checkAll().catch((error) =>
+        logger.error("Deployer balance check failed:", error)
+      );
+    run();
+    this.timer = setInterval(run, this.config.checkIntervalMs);
+    this.timer.unref();
+    logger.info(
+      `💰 Deployer balance monitor started (every ${this.config.checkIntervalMs}ms)`
+    );
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Balances from the last check
+   */
+  public getBalances(): DeployerBalance[] {
+    return [...this.balances.values()];
+  }
+
+  public getLastCheckAt(): Date | null {
+    return this.lastCheckAt;
+  }
+
+  /**
+   * Entries of the last check whose balance is below their threshold
+   */
+  public getUnderfunded(): DeployerBalance[] {
+    return this.getBalances().filter((balance) => balance.status === "low");
+  }
+
+  /**
+   * Check every agent signer on every network it may deploy to
+   * A check already running is joined instead of started twice
+   */
+  public async checkAll(): Promise<DeployerBalance[]> {
+    if (!this.checking) {
+      this.checking = this.runCheck().finally(() => {
+        this.checking = null;
+      });
+    }
+    return await this.checking;
+  }
+
+  private async runCheck(): Promise<DeployerBalance[]> {
+    const [averageGas, usedNetworks] = await Promise.all([
+      this.getAverageDeploymentGas(),
+      this.getUsedNetworks(),
+    ]);
+    const gasPrices = new Map<NetworkKey, Promise<bigint | null>>();
+    const results: DeployerBalance[] = [];
+
+    await Promise.all(
+      AGENT_TYPES.map(async (agentType) => {
+        let address: string;
+        try {
+          address = getAgentAddress(agentType.name);
+        } catch (error) {
+          // Agent types without a configured signer cannot deploy anywhere
+          logger.debug(
+            `Skipping deployer balance of ${agentType.name}: ${error instanceof Error ? error.message : error}`
+          );
+          return;
+        }
+
+        const networks = this.getNetworksToCheck(
+          agentType,
+          usedNetworks.get(agentType.name)
+        );
+
+        await Promise.all(
+          networks.map(async (networkKey) => {
+            if (!gasPrices.has(networkKey)) {
+              gasPrices.set(networkKey, this.getGasPrice(networkKey));
+            }
+            results.push(
+              await this.checkBalance(
+                agentType.name,
+                address,
+                networkKey,
+                averageGas.get(networkKey) ?? this.config.defaultDeploymentGas,
+                await gasPrices.get(networkKey)!
+              )
+            );
+          })
+        );
+      })
+    );
+
+    results.sort(
+      (a, b) =>
+        a.agentType.localeCompare(b.agentType) ||
+        a.networkKey.localeCompare(b.networkKey)
+    );
+
+    // Signers or networks that were removed drop out of the snapshot
+    this.balances = new Map(
+      results.map((balance) => [
+        `${balance.agentType}:${balance.networkKey}`,
+        balance,
+      ])
+    );
+    this.lastCheckAt = new Date();
+
+    for (const [key, balance] of this.balances) {
+      await this.alertIfLow(key, balance);
+    }
+    return this.getBalances();
+  }
+
+  private async checkBalance(
+    agentType: string,
+    address: string,
+    networkKey: NetworkKey,
+    averageGasUsed: bigint,
+    gasPrice: bigint | null
+  ): Promise<DeployerBalance> {
+    const network = getNetwork(networkKey);
+    const threshold = this.config.thresholds[networkKey];
+    const deploymentCost = averageGasUsed * (gasPrice ?? 0n);
+    const base = {
+      agentType,
+      address,
+      networkKey,
+      chainId: network.chainId,
+      currency: network.currency.symbol,
+      averageGasUsed: averageGasUsed.toString(),
+      gasPriceWei: (gasPrice ?? 0n).toString(),
+      deploymentCostWei: deploymentCost.toString(),
+      ...(!threshold && { minDeployments: this.config.minDeployments }),
+      checkedAt: new Date(),
+    };
+
+    try {
+      const thresholdWei = threshold
+        ? ethers.parseUnits(threshold, network.currency.decimals)
+        : undefined;
+      const balance = await ProviderPool.getInstance()
+        .getProvider(networkKey)
+        .getBalance(address);
+      const deploymentsLeft =
+        deploymentCost > 0n ? Number(balance / deploymentCost) : null;
+
+      const low =
+        thresholdWei !== undefined
+          ? balance < thresholdWei
+          : balance === 0n ||
+            (deploymentsLeft !== null &&
+              deploymentsLeft < this.config.minDeployments);
+
+      return {
+        ...base,
+        ...(thresholdWei !== undefined && {
+          thresholdWei: thresholdWei.toString(),
+        }),
+        balanceWei: balance.toString(),
+        balance: ethers.formatUnits(balance, network.currency.decimals),
+        deploymentsLeft,
+        status: low ? "low" : "ok",
+      };
+    } catch (error) {
+      return {
+        ...base,
+        balanceWei: "0",
+        balance: "0",
+        deploymentsLeft: null,
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Default networks of the agentType and the networks it was used on, as far as
+   * it may deploy there; other registry networks would only report empty balances
+   */
+  private getNetworksToCheck(
+    agentType: AgentTypeConfig,
+    usedNetworks: Set<string> = new Set()
+  ): NetworkKey[] {
+    return [...new Set([...agentType.defaultNetworks, ...usedNetworks])].filter(
+      (networkKey) =>
+        isNetworkSupported(networkKey) &&
+        (!agentType.allowedNetworks ||
+          agentType.allowedNetworks.includes(networkKey))
+    );
+  }
+
+  /**
+   * Networks per agentType with deployed Safes or deployer spend
+   */
+  private async getUsedNetworks(): Promise<Map<string, Set<string>>> {
+    const used = new Map<string, Set<string>>();
+    const add = (agentType: string | undefined, networkKey: string) => {
+      const name = normalizeAgentType(agentType);
+      if (!used.has(name)) used.set(name, new Set());
+      used.get(name)!.add(networkKey);
+    };
+
+    try {
+      const [deployed, spent] = await Promise.all([
+        Safe.findDeployedNetworks(),
+        SpendEntry.sumBy({}, ["agentType", "networkKey"]),
+      ]);
+      deployed.forEach(({ agentType, networkKey }) =>
+        add(agentType, networkKey)
+      );
+      spent.forEach(({ key }) => add(key.agentType, key.networkKey));
+    } catch (error) {
+      logger.warn("Reading networks in use failed:", error);
+    }
+    return used;
+  }
+
+  /**
+   * Average gasUsed per deployment and network from the deployer spend ledger
+   * Reverted and cancelled transactions are paid for but are not deployments
+   */
+  private async getAverageDeploymentGas(): Promise<Map<NetworkKey, bigint>> {
+    const averages = new Map<NetworkKey, bigint>();
+    try {
+      const totals = await SpendEntry.sumBy({}, ["networkKey"]);
+      for (const total of totals) {
+        if (total.deployments > 0) {
+          averages.set(
+            total.key.networkKey,
+            total.deploymentGasUsed / BigInt(total.deployments)
+          );
+        }
+      }
+    } catch (error) {
+      logger.warn("Reading average deployment gas failed:", error);
+    }
+    return averages;
+  }
+
+  private async getGasPrice(networkKey: NetworkKey): Promise<bigint | null> {
+    try {
+      const feeData = await ProviderPool.getInstance()
+        .getProvider(networkKey)
+        .getFeeData();
+      return feeData.maxFeePerGas ?? feeData.gasPrice;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Log and post a low balance once, then again every alertRepeatMs while it stays low
+   */
+  private async alertIfLow(
+    key: string,
+    balance: DeployerBalance
+  ): Promise<void> {
+    if (balance.status !== "low") {
+      if (balance.status === "ok" && this.lastAlertAt.delete(key)) {
+        logger.info(
+          `💰 Deployer ${balance.address} (${balance.agentType}) on ${balance.networkKey} is funded again: ${balance.balance} ${balance.currency}`
+        );
+      }
+      return;
+    }
+
+    const lastAlertAt = this.lastAlertAt.get(key);
+    if (
+      lastAlertAt !== undefined &&
+      Date.now() - lastAlertAt < this.config.alertRepeatMs
+    ) {
+      return;
+    }
+    this.lastAlertAt.set(key, Date.now());
+
+    logger.warn(
+      `⚠️  Deployer ${balance.address} (${balance.agentType}) is low on ${balance.networkKey}: ${balance.balance} ${balance.currency}, ${balance.deploymentsLeft ?? "unknown"} deployment(s) left`
+    );
+    if (!this.config.webhookUrl) return;
+
+    try {
+      const request = new ethers.FetchRequest(this.config.webhookUrl);
+      request.timeout = WEBHOOK_TIMEOUT_MS;
+      request.setHeader("content-type", "application/json");
+      request.body = JSON.stringify({
+        event: "deployer_balance_low",
+        ...balance,
+      });
+      const response = await request.send();
+      if (!response.ok()) {
+        throw new Error(`HTTP ${response.statusCode}`);
+      }
+    } catch (error) {
+      logger.error(
+        `Deployer balance alert webhook failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+}
+
+export default DeployerBalanceMonitor;
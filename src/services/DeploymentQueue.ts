@@ -0,0 +1,233 @@
+import os from "os";
+import { v4 as uuidv4 } from "uuid";
+import {
+  DeploymentJob,
+  DeploymentJobType,
+  INetworkProgress,
+} from "../models/DeploymentJob.js";
+import { NetworkKey } from "../config/networks.js";
+import logger from "../config/logger.js";
+
+export type DeploymentJobProcessor = (job: DeploymentJob) => Promise<void>;
+
+interface QueueConfig {
+  pollIntervalMs: number;
+  lockTtlMs: number;
+  concurrency: number;
+  maxAttempts: number;
+  retryDelayMs: number; // Wait before a job with failed networks is claimed again
+}
+
+/**
+ * DeploymentQueue - Durable deployment job queue backed by MongoDB
+ * Jobs survive restarts: a job whose worker died is re-claimed once its lock expires
+ */
+class DeploymentQueue {
+  private static instance: DeploymentQueue;
+  private config: QueueConfig;
+  private workerId: string;
+  private processor: DeploymentJobProcessor | null = null;
+  private activeJobs: Set<string> = new Set();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  private constructor() {
+    this.config = {
+      pollIntervalMs: parseInt(process.env.DEPLOYMENT_QUEUE_POLL_MS || "2000"),
+      lockTtlMs: parseInt(process.env.DEPLOYMENT_QUEUE_LOCK_TTL_MS || "120000"),
+      concurrency: parseInt(process.env.DEPLOYMENT_QUEUE_CONCURRENCY || "2"),
+      maxAttempts: parseInt(process.env.DEPLOYMENT_QUEUE_MAX_ATTEMPTS || "3"),
+      retryDelayMs: parseInt(
+        process.env.DEPLOYMENT_QUEUE_RETRY_DELAY_MS || "30000"
+      ),
+    };
+    this.workerId = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+  }
+
+  public static getInstance(): DeploymentQueue {
+    if (!DeploymentQueue.instance) {
+      DeploymentQueue.instance = new DeploymentQueue();
+    }
+    return DeploymentQueue.instance;
+  }
+
+  /**
+   * Persist a new deployment job for the given Safe and networks
+   */
+  public async enqueue(
+    safeId: string,
+    type: DeploymentJobType,
+    networks: NetworkKey[]
+  ): Promise<DeploymentJob> {
+    // Replaces the old in-memory guard: a network can only be in one active job
+    const activeJobs = await DeploymentJob.findActiveForNetworks(
+      safeId,
+      networks
+    );
+    if (activeJobs.length > 0) {
+      const busyNetworks = networks.filter((networkKey) =>
+        activeJobs.some((job) => job.networks[networkKey])
+      );
+      throw new Error(
+        `Deployment already in progress for ${busyNetworks.join(", ")} (job ${activeJobs[0].jobId})`
+      );
+    }
+
+    const progress: { [key: string]: INetworkProgress } = {};
+    for (const networkKey of networks) {
+      progress[networkKey] = { networkKey, status: "pending" };
+    }
+
+    const job = new DeploymentJob({
+      jobId: uuidv4(),
+      safeId,
+      type,
+      status: "queued",
+      networks: progress,
+      maxAttempts: this.config.maxAttempts,
+    });
+
+    await job.save();
+    logger.info(
+      `📥 Enqueued ${type} job ${job.jobId} for Safe ${safeId}: ${networks.join(", ")}`
+    );
+
+    // Pick it up right away instead of waiting for the next poll
+    this.schedulePoll(0);
+
+    return job;
+  }
+
+  public async getJob(jobId: string): Promise<DeploymentJob | null> {
+    return await DeploymentJob.findByJobId(jobId);
+  }
+
+  /**
+   * Start polling for jobs; must be called after the database is connected
+   */
+  public start(processor: DeploymentJobProcessor): void {
+    if (this.running) return;
+
+    this.processor = processor;
+    this.running = true;
+    logger.info(
+      `Deployment queue worker ${this.workerId} started (concurrency ${this.config.concurrency})`
+    );
+    this.schedulePoll(0);
+  }
+
+  public stop(): void {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    logger.info(`Deployment queue worker ${this.workerId} stopped`);
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) return;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+    }
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.poll()
+        .catch((error) => logger.error("Deployment queue poll error:", error))
+        .finally(() => this.schedulePoll(this.config.pollIntervalMs));
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    const exhausted = await DeploymentJob.failExhausted();
+    if (exhausted > 0) {
+      logger.warn(
+        `Marked ${exhausted} deployment job(s) as failed after max attempts`
+      );
+    }
+
+    while (this.running && this.activeJobs.size < this.config.concurrency) {
+      const job = await DeploymentJob.claimNext(
+        this.workerId,
+        this.config.lockTtlMs
+      );
+      if (!job) return;
+
+      this.activeJobs.add(job.jobId);
+      // Run without awaiting so several jobs can progress concurrently
+      this.runJob(job)
+        .catch((error) =>
+          logger.error(`Deployment job ${job.jobId} could not be saved:`, error)
+        )
+        .finally(() => this.activeJobs.delete(job.jobId));
+    }
+  }
+
+  private async runJob(job: DeploymentJob): Promise<void> {
+    if (!this.processor) return;
+
+    logger.info(
+      `⚙️  Processing ${job.type} job ${job.jobId} (attempt ${job.attempts}/${job.maxAttempts})`
+    );
+
+    // Keep the lock alive while long confirmations are awaited
+    const heartbeat = setInterval(
+      () => {
+        DeploymentJob.extendLock(
+          job.jobId,
+          this.workerId,
+          this.config.lockTtlMs
+        ).catch((error) =>
+          logger.error(`Failed to extend lock for job ${job.jobId}:`, error)
+        );
+      },
+      Math.floor(this.config.lockTtlMs / 3)
+    );
+
+    try {
+      job.startedAt = job.startedAt || new Date();
+      await this.processor(job);
+
+      const results = Object.values(job.networks);
+      const deployedCount = results.filter(
+        (r) => r.status === "deployed"
+      ).length;
+
+      if (deployedCount === results.length) {
+        job.status = "completed";
+      } else if (job.attempts < job.maxAttempts) {
+        // Only the networks that did not deploy run again (see getPendingNetworks)
+        job.status = "queued";
+        job.availableAt = new Date(Date.now() + this.config.retryDelayMs);
+        logger.warn(
+          `🔁 Job ${job.jobId} retries ${job.getPendingNetworks().join(", ")} in ${this.config.retryDelayMs}ms`
+        );
+        return;
+      } else {
+        job.status = deployedCount > 0 ? "partial" : "failed";
+      }
+      job.completedAt = new Date();
+      logger.info(`✅ Job ${job.jobId} finished with status ${job.status}`);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      logger.error(`❌ Job ${job.jobId} failed:`, error);
+
+      job.error = errorMessage;
+      if (job.attempts >= job.maxAttempts) {
+        job.status = "failed";
+        job.completedAt = new Date();
+      } else {
+        job.status = "queued";
+        job.availableAt = new Date(Date.now() + this.config.retryDelayMs);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      job.lockedBy = undefined;
+      job.lockExpiresAt = undefined;
+      await job.save();
+    }
+  }
+}
+
+export default DeploymentQueue;
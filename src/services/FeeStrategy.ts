@@ -0,0 +1,211 @@
+import { ethers } from "ethers";
+import { getNetwork, GasPrice, NetworkKey } from "../config/networks.js";
+import { IFeeQuote } from "../models/Safe.js";
+import ProviderPool from "./ProviderPool.js";
+import logger from "../config/logger.js";
+
+export interface FeeStrategyConfig {
+  historyBlocks: number;
+  priorityPercentile: number;
+  baseFeeMultiplier: number; // Headroom for base fee increases while the tx is pending
+  gasLimitMarginPercent: number;
+}
+
+/**
+ * FeeStrategy - EIP-1559 fees from recent blocks, clamped to NetworkConfig.gasPrice
+ * Refuses to quote when the current network fee is above the configured max
+ */
+class FeeStrategy {
+  private config: FeeStrategyConfig;
+
+  constructor(config: Partial<FeeStrategyConfig> = {}) {
+    this.config = {
+      historyBlocks: parseInt(process.env.FEE_HISTORY_BLOCKS || "10"),
+      priorityPercentile: parseInt(process.env.FEE_PRIORITY_PERCENTILE || "50"),
+      baseFeeMultiplier: parseInt(process.env.FEE_BASE_MULTIPLIER || "2"),
+      gasLimitMarginPercent: parseInt(
+        process.env.GAS_LIMIT_MARGIN_PERCENT || "20"
+      ),
+      ...config,
+    };
+  }
+
+  /**
+   * Quote fees and gas limit for a transaction with the given gas estimate
+   */
+  async quote(networkKey: NetworkKey, gasEstimate: bigint): Promise<IFeeQuote> {
+    const network = getNetwork(networkKey);
+    const { min, max } = this.getBounds(network.gasPrice);
+    const gasLimit =
+      (gasEstimate * BigInt(100 + this.config.gasLimitMarginPercent)) / 100n;
+
+    const history = await this.getFeeHistory(networkKey);
+
+    if (!history) {
+      // No EIP-1559 on this chain: fall back to a legacy gas price
+      const feeData = await ProviderPool.getInstance()
+        .getProvider(networkKey)
+        .getFeeData();
+      const networkGasPrice = feeData.gasPrice ?? 0n;
+      this.assertBelowMax(network.name, networkGasPrice, max, network.gasPrice);
+
+      const gasPrice = networkGasPrice < min ? min : networkGasPrice;
+      return {
+        type: "legacy",
+        gasPrice: gasPrice.toString(),
+        gasEstimate: gasEstimate.toString(),
+        gasLimit: gasLimit.toString(),
+        estimatedCostWei: (gasLimit * gasPrice).toString(),
+        quotedAt: new Date(),
+      };
+    }
+
+    const { baseFeePerGas, priorityFee } = history;
+    this.assertBelowMax(
+      network.name,
+      baseFeePerGas + priorityFee,
+      max,
+      network.gasPrice
+    );
+
+    let maxFeePerGas =
+      baseFeePerGas * BigInt(this.config.baseFeeMultiplier) + priorityFee;
+    if (max > 0n && maxFeePerGas > max) {
+      maxFeePerGas = max;
+    }
+    if (maxFeePerGas < min) {
+      maxFeePerGas = min;
+    }
+    const maxPriorityFeePerGas =
+      priorityFee > maxFeePerGas ? maxFeePerGas : priorityFee;
+
+    return {
+      type: "eip1559",
+      baseFeePerGas: baseFeePerGas.toString(),
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      gasEstimate: gasEstimate.toString(),
+      gasLimit: gasLimit.toString(),
+      estimatedCostWei: (gasLimit * maxFeePerGas).toString(),
+      quotedAt: new Date(),
+    };
+  }
+
+  /**
+   * Transaction fields for a quote
+   */
+  toTransactionOverrides(quote: IFeeQuote): ethers.TransactionRequest {
+    if (quote.type === "legacy") {
+      return {
+        type: 0,
+        gasLimit: BigInt(quote.gasLimit),
+        gasPrice: BigInt(quote.gasPrice!),
+      };
+    }
+    return {
+      type: 2,
+      gasLimit: BigInt(quote.gasLimit),
+      maxFeePerGas: BigInt(quote.maxFeePerGas!),
+      maxPriorityFeePerGas: BigInt(quote.maxPriorityFeePerGas!),
+    };
+  }
+
+  /**
+   * Raise the fees of a sent transaction by a percentage so it can be replaced
+   * Returns null when the bumped fee would exceed the network max and enforceMax is set
+   */
+  bumpFees(
+    networkKey: NetworkKey,
+    overrides: ethers.TransactionRequest,
+    percent: number,
+    enforceMax = true
+  ): ethers.TransactionRequest | null {
+    const { max } = this.getBounds(getNetwork(networkKey).gasPrice);
+    const bump = (value: ethers.BigNumberish | null | undefined) =>
+      (BigInt(value ?? 0) * BigInt(100 + percent)) / 100n + 1n;
+
+    const bumped: ethers.TransactionRequest =
+      overrides.type === 0
+        ? { ...overrides, gasPrice: bump(overrides.gasPrice) }
+        : {
+            ...overrides,
+            maxFeePerGas: bump(overrides.maxFeePerGas),
+            maxPriorityFeePerGas: bump(overrides.maxPriorityFeePerGas),
+          };
+
+    const fee = BigInt(
+      (bumped.type === 0 ? bumped.gasPrice : bumped.maxFeePerGas) ?? 0
+    );
+    if (enforceMax && max > 0n && fee > max) {
+      return null;
+    }
+    return bumped;
+  }
+
+  /**
+   * Next block base fee and the median priority fee over recent blocks
+   * Returns null when the chain does not support EIP-1559
+   */
+  private async getFeeHistory(
+    networkKey: NetworkKey
+  ): Promise<{ baseFeePerGas: bigint; priorityFee: bigint } | null> {
+    let history: { baseFeePerGas?: string[]; reward?: string[][] };
+    try {
+      history = await ProviderPool.getInstance().send(
+        networkKey,
+        "eth_feeHistory",
+        [
+          ethers.toQuantity(this.config.historyBlocks),
+          "latest",
+          [this.config.priorityPercentile],
+        ]
+      );
+    } catch (error) {
+      logger.warn(
+        `eth_feeHistory unavailable on ${networkKey}, using legacy gas price: ${error instanceof Error ? error.message : error}`
+      );
+      return null;
+    }
+
+    const baseFees = (history.baseFeePerGas || []).map((fee) => BigInt(fee));
+    // The last entry is the base fee of the next block
+    const baseFeePerGas = baseFees[baseFees.length - 1] ?? 0n;
+    if (baseFeePerGas === 0n) {
+      return null;
+    }
+
+    const rewards = (history.reward || [])
+      .map((reward) => BigInt(reward[0] ?? 0))
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const priorityFee =
+      rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : 0n;
+
+    return { baseFeePerGas, priorityFee };
+  }
+
+  private assertBelowMax(
+    networkName: string,
+    networkFee: bigint,
+    max: bigint,
+    bounds: GasPrice
+  ): void {
+    if (max > 0n && networkFee > max) {
+      throw new Error(
+        `Network fee on ${networkName} is ${ethers.formatUnits(networkFee, "gwei")} gwei, above the configured max of ${bounds.max} ${bounds.unit}`
+      );
+    }
+  }
+
+  /**
+   * Configured bounds in wei; a max of 0 means unbounded
+   */
+  private getBounds(bounds: GasPrice): { min: bigint; max: bigint } {
+    const toWei = (value: number) =>
+      bounds.unit === "gwei"
+        ? ethers.parseUnits(value.toFixed(9), "gwei")
+        : BigInt(Math.round(value));
+    return { min: toWei(bounds.min || 0), max: toWei(bounds.max || 0) };
+  }
+}
+
+export default FeeStrategy;
@@ -0,0 +1,459 @@
+import os from "os";
+import { ethers } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+import {
+  KeyRotation,
+  IRotationNetworkProgress,
+  IRotationSafeProgress,
+} from "../models/KeyRotation.js";
+import { Safe as SafeModel } from "../models/Safe.js";
+import { SafeTransaction } from "../models/SafeTransaction.js";
+import {
+  getAgentAddress,
+  getAgentType,
+  normalizeAgentType,
+} from "../config/agents.js";
+import ProviderPool from "./ProviderPool.js";
+import SafeTransactionService from "./SafeTransactionService.js";
+import logger from "../config/logger.js";
+
+// Head of the Safe owner linked list: the "previous owner" of the first owner
+const SENTINEL_OWNERS = "0x0000000000000000000000000000000000000001";
+
+const SAFE_OWNER_ABI = [
+  "function getOwners() view returns (address[])",
+  "function swapOwner(address prevOwner, address oldOwner, address newOwner)",
+];
+
+const safeOwnerInterface = new ethers.Interface(SAFE_OWNER_ABI);
+
+interface RotationConfig {
+  pollIntervalMs: number;
+  lockTtlMs: number;
+  signatureCheckIntervalMs: number; // How often proposed swaps are checked for execution
+}
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+/**
+ * KeyRotationService - Replaces a leaked agent key as owner of every Safe of an agentType
+ * The old key proposes swapOwner(prev, old, new) on each active deployment through
+ * SafeTransactionService (executing right away at threshold 1); Safe records get the
+ * new owner only once all their swaps are confirmed. Rotations are stored and resumed
+ * after restarts like deployment jobs
+ */
+class KeyRotationService {
+  private static instance: KeyRotationService;
+  private config: RotationConfig;
+  private workerId: string;
+  private safeTransactionService = new SafeTransactionService();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private busy = false;
+
+  private constructor() {
+    this.config = {
+      pollIntervalMs: parseInt(process.env.KEY_ROTATION_POLL_MS || "5000"),
+      lockTtlMs: parseInt(process.env.KEY_ROTATION_LOCK_TTL_MS || "120000"),
+      signatureCheckIntervalMs: parseInt(
+        process.env.KEY_ROTATION_SIGNATURE_CHECK_MS || "60000"
+      ),
+    };
+    this.workerId = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+  }
+
+  public static getInstance(): KeyRotationService {
+    if (!KeyRotationService.instance) {
+      KeyRotationService.instance = new KeyRotationService();
+    }
+    return KeyRotationService.instance;
+  }
+
+  /**
+   * Start rotating the current agent key of an agentType to newAddress
+   * The current key must stay configured until the rotation completes: it signs the swaps
+   */
+  public async startRotation(
+    agentType: string,
+    newAddress: string
+  ): Promise<KeyRotation> {
+    const type = getAgentType(agentType);
+    if (!ethers.isAddress(newAddress)) {
+      throw new Error(`Invalid new agent address: ${newAddress}`);
+    }
+    const fromAddress = getAgentAddress(type.name);
+    const toAddress = ethers.getAddress(newAddress);
+    if (sameAddress(fromAddress, toAddress)) {
+      throw new Error(
+        `New agent address ${toAddress} is the current ${type.name} agent key`
+      );
+    }
+
+    const active = await KeyRotation.findActiveForAgentType(type.name);
+    if (active) {
+      throw new Error(
+        `Key rotation ${active.rotationId} is already in progress for agentType ${type.name}`
+      );
+    }
+
+    const rotation = new KeyRotation({
+      rotationId: uuidv4(),
+      agentType: type.name,
+      fromAddress,
+      toAddress,
+      status: "queued",
+    });
+    await this.collectSafes(rotation);
+    await rotation.save();
+
+    logger.info(
+      `🔁 Key rotation ${rotation.rotationId} queued for ${type.name}: ${fromAddress} -> ${toAddress} on ${rotation.safes.length} Safe(s)`
+    );
+    this.schedulePoll(0);
+    return rotation;
+  }
+
+  /**
+   * Retry failed swaps and re-check proposed ones of a finished or waiting rotation
+   */
+  public async resumeRotation(rotationId: string): Promise<KeyRotation> {
+    const rotation = await this.getRotation(rotationId);
+    if (rotation.status === "queued" || rotation.status === "running") {
+      throw new Error(
+        `Key rotation ${rotationId} is already ${rotation.status}`
+      );
+    }
+    if (rotation.status === "completed") {
+      throw new Error(`Key rotation ${rotationId} is already completed`);
+    }
+
+    rotation.status = "queued";
+    rotation.error = undefined;
+    rotation.completedAt = undefined;
+    await rotation.save();
+
+    logger.info(`🔁 Key rotation ${rotationId} resumed`);
+    this.schedulePoll(0);
+    return rotation;
+  }
+
+  public async getRotation(rotationId: string): Promise<KeyRotation> {
+    const rotation = await KeyRotation.findByRotationId(rotationId);
+    if (!rotation) {
+      throw new Error(`Key rotation not found: ${rotationId}`);
+    }
+    return rotation;
+  }
+
+  public async listRotations(agentType?: string): Promise<KeyRotation[]> {
+    return await KeyRotation.findByAgentType(
+      agentType ? getAgentType(agentType).name : undefined
+    );
+  }
+
+  /**
+   * Start processing rotations; must be called after the database is connected
+   */
+  public start(): void {
+    if (this.running) return;
+    this.running = true;
+    logger.info(`Key rotation worker ${this.workerId} started`);
+    this.schedulePoll(0);
+  }
+
+  public stop(): void {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    logger.info(`Key rotation worker ${this.workerId} stopped`);
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) return;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+    }
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.poll()
+        .catch((error) => logger.error("Key rotation poll error:", error))
+        .finally(() => this.schedulePoll(this.config.pollIntervalMs));
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    // One rotation at a time: the swaps share the agent key's nonce anyway
+    if (this.busy) return;
+    this.busy = true;
+    try {
+      let rotation: KeyRotation | null;
+      while (
+        this.running &&
+        (rotation = await KeyRotation.claimNext(
+          this.workerId,
+          this.config.lockTtlMs
+        ))
+      ) {
+        await this.runRotation(rotation);
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private async runRotation(rotation: KeyRotation): Promise<void> {
+    logger.info(
+      `⚙️  Processing key rotation ${rotation.rotationId} (${rotation.agentType}, attempt ${rotation.attempts})`
+    );
+
+    const heartbeat = setInterval(
+      () => {
+        KeyRotation.extendLock(
+          rotation.rotationId,
+          this.workerId,
+          this.config.lockTtlMs
+        ).catch((error) =>
+          logger.error(
+            `Failed to extend lock for key rotation ${rotation.rotationId}:`,
+            error
+          )
+        );
+      },
+      Math.floor(this.config.lockTtlMs / 3)
+    );
+
+    try {
+      rotation.startedAt = rotation.startedAt || new Date();
+
+      // The old key signs every swap, so it must still be the configured signer
+      const signerAddress = getAgentAddress(rotation.agentType);
+      if (!sameAddress(signerAddress, rotation.fromAddress)) {
+        throw new Error(
+          `The ${rotation.agentType} signer is now ${signerAddress}; keep the key of ${rotation.fromAddress} configured until the rotation completes`
+        );
+      }
+
+      // Safes created or deployed since the last run are picked up as well
+      await this.collectSafes(rotation);
+      await rotation.save();
+
+      for (const safeProgress of rotation.safes) {
+        if (safeProgress.ownersUpdated) continue;
+        await this.rotateSafe(rotation, safeProgress);
+      }
+
+      const summary = rotation.getSummary();
+      if (summary.failed > 0) {
+        rotation.status = "failed";
+        rotation.error = `${summary.failed} owner swap(s) failed; resume the rotation to retry`;
+      } else if (summary.proposed > 0) {
+        rotation.status = "awaiting_signatures";
+        rotation.nextCheckAt = new Date(
+          Date.now() + this.config.signatureCheckIntervalMs
+        );
+      } else {
+        rotation.status = "completed";
+      }
+      if (rotation.status !== "awaiting_signatures") {
+        rotation.completedAt = new Date();
+        rotation.nextCheckAt = undefined;
+      }
+      logger.info(
+        `✅ Key rotation ${rotation.rotationId} is ${rotation.status} (${summary.confirmed} confirmed, ${summary.proposed} awaiting signatures, ${summary.failed} failed)`
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      logger.error(`❌ Key rotation ${rotation.rotationId} failed:`, error);
+      rotation.status = "failed";
+      rotation.error = errorMessage;
+      rotation.completedAt = new Date();
+    } finally {
+      clearInterval(heartbeat);
+      rotation.lockedBy = undefined;
+      rotation.lockExpiresAt = undefined;
+      await rotation.save();
+    }
+  }
+
+  /**
+   * Add Safes of the agentType that still list the old key as an owner, and
+   * their active deployments, to the rotation
+   */
+  private async collectSafes(rotation: KeyRotation): Promise<void> {
+    const safes = await SafeModel.find({
+      "config.owners": { $regex: `^${rotation.fromAddress}$`, $options: "i" },
+    });
+
+    for (const safe of safes) {
+      if (normalizeAgentType(safe.userInfo.agentType) !== rotation.agentType) {
+        continue;
+      }
+
+      let progress = rotation.safes.find((s) => s.safeId === safe.safeId);
+      if (!progress) {
+        progress = { safeId: safe.safeId, networks: {}, ownersUpdated: false };
+        rotation.safes.push(progress);
+      }
+
+      for (const deployment of safe.getActiveDeployments()) {
+        if (!progress.networks[deployment.networkKey]) {
+          progress.networks[deployment.networkKey] = {
+            networkKey: deployment.networkKey,
+            safeAddress: deployment.address,
+            status: "pending",
+          };
+        }
+      }
+    }
+  }
+
+  private async rotateSafe(
+    rotation: KeyRotation,
+    safeProgress: IRotationSafeProgress
+  ): Promise<void> {
+    const networks = Object.values(safeProgress.networks);
+    if (networks.length === 0) {
+      safeProgress.note =
+        "No active deployments; owners are left unchanged until the Safe is deployed";
+      return;
+    }
+
+    for (const progress of networks) {
+      if (progress.status === "confirmed" || progress.status === "skipped") {
+        continue;
+      }
+      try {
+        await this.rotateOnNetwork(rotation, safeProgress.safeId, progress);
+      } catch (error) {
+        progress.status = "failed";
+        progress.error = error instanceof Error ? error.message : String(error);
+        logger.error(
+          `Owner swap failed for Safe ${safeProgress.safeId} on ${progress.networkKey}:`,
+          error
+        );
+      }
+      progress.updatedAt = new Date();
+      await rotation.save();
+    }
+
+    if (!KeyRotation.isSafeSwapped(safeProgress)) {
+      return;
+    }
+
+    // No active deployment lists the old key any more: update the record to match.
+    // Networks where it was no owner (e.g. a frozen Safe) are skipped, and unfreezing
+    // adds the current key, which is the new one
+    const safe = await SafeModel.findOne({ safeId: safeProgress.safeId });
+    if (!safe) {
+      safeProgress.note = "Safe record no longer exists";
+      return;
+    }
+    safe.config.initialOwners ??= safe.config.owners;
+    safe.config.initialThreshold ??= safe.config.threshold;
+    safe.config.owners = safe.config.owners.map((owner) =>
+      sameAddress(owner, rotation.fromAddress) ? rotation.toAddress : owner
+    );
+    if (
+      safe.freeze &&
+      sameAddress(safe.freeze.agentAddress, rotation.fromAddress)
+    ) {
+      safe.freeze.agentAddress = rotation.toAddress;
+    }
+    safe.metadata.updatedAt = new Date();
+    await safe.save();
+    safeProgress.ownersUpdated = true;
+    await rotation.save();
+
+    logger.info(
+      `🔑 Safe ${safe.safeId} owners updated: ${rotation.fromAddress} -> ${rotation.toAddress}`
+    );
+  }
+
+  /**
+   * Swap the owner on one deployment; safe to repeat after a crash because the
+   * on-chain owners are read first
+   */
+  private async rotateOnNetwork(
+    rotation: KeyRotation,
+    safeId: string,
+    progress: IRotationNetworkProgress
+  ): Promise<void> {
+    const { networkKey, safeAddress } = progress;
+    const provider = ProviderPool.getInstance().getProvider(networkKey);
+    const contract = new ethers.Contract(safeAddress, SAFE_OWNER_ABI, provider);
+    const owners: string[] = await contract.getOwners();
+    const isOwner = (address: string) =>
+      owners.some((owner) => sameAddress(owner, address));
+
+    progress.error = undefined;
+
+    if (isOwner(rotation.toAddress) && !isOwner(rotation.fromAddress)) {
+      progress.status = "confirmed";
+      return;
+    }
+    if (!isOwner(rotation.fromAddress)) {
+      progress.status = "skipped";
+      progress.note = "The old agent key is not an owner on this network";
+      return;
+    }
+    if (isOwner(rotation.toAddress)) {
+      throw new Error(
+        `${rotation.toAddress} is already an owner; remove ${rotation.fromAddress} instead of swapping`
+      );
+    }
+
+    // A swap proposed earlier may still be collecting owner signatures
+    if (progress.safeTxHash) {
+      const existing = await SafeTransaction.findBySafeTxHash(
+        safeId,
+        progress.safeTxHash
+      );
+      if (existing?.status === "pending" || existing?.status === "executing") {
+        progress.status = "proposed";
+        return;
+      }
+    }
+
+    const index = owners.findIndex((owner) =>
+      sameAddress(owner, rotation.fromAddress)
+    );
+    const prevOwner = index === 0 ? SENTINEL_OWNERS : owners[index - 1];
+
+    const transaction = await this.safeTransactionService.proposeTransaction(
+      safeId,
+      {
+        networkKey,
+        to: safeAddress,
+        data: safeOwnerInterface.encodeFunctionData("swapOwner", [
+          prevOwner,
+          rotation.fromAddress,
+          rotation.toAddress,
+        ]),
+      },
+      { enforcePolicy: false }
+    );
+    progress.safeTxHash = transaction.safeTxHash;
+
+    if (transaction.status === "executed") {
+      progress.status = "confirmed";
+      progress.txHash = transaction.txHash;
+      progress.note = undefined;
+      logger.info(
+        `🔁 Swapped agent owner of Safe ${safeId} on ${networkKey} in tx ${transaction.txHash}`
+      );
+    } else if (transaction.status === "pending") {
+      progress.status = "proposed";
+      progress.note = `Waiting for owner signatures (${transaction.signatures.length}/${transaction.threshold})`;
+    } else {
+      throw new Error(
+        transaction.error || `swapOwner transaction is ${transaction.status}`
+      );
+    }
+  }
+}
+
+export default KeyRotationService;
@@ -0,0 +1,239 @@
+import { ethers } from "ethers";
+import {
+  getRpcUrls,
+  NETWORKS,
+  NetworkConfig,
+  NetworkKey,
+  setRegistryNetworks,
+} from "../config/networks.js";
+import { Network } from "../models/Network.js";
+import { Safe as SafeModel } from "../models/Safe.js";
+import logger from "../config/logger.js";
+
+const CHAIN_ID_TIMEOUT_MS = 10000;
+
+/**
+ * NetworkRegistry - Networks stored in MongoDB and cached in memory
+ * getNetwork/isNetworkSupported read the cache; it is refreshed on every change
+ * and periodically so other instances pick up admin edits
+ */
+class NetworkRegistry {
+  private static instance: NetworkRegistry;
+  private refreshIntervalMs: number;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private lastRefreshAt: Date | null = null;
+
+  private constructor() {
+    this.refreshIntervalMs = parseInt(
+      process.env.NETWORK_REGISTRY_REFRESH_MS || "60000"
+    );
+  }
+
+  public static getInstance(): NetworkRegistry {
+    if (!NetworkRegistry.instance) {
+      NetworkRegistry.instance = new NetworkRegistry();
+    }
+    return NetworkRegistry.instance;
+  }
+
+  /**
+   * Seed built-in networks, load the cache and start periodic refresh
+   * Must be called after the database is connected
+   */
+  public async initialize(): Promise<void> {
+    const seeded = await Network.seed(NETWORKS);
+    if (seeded > 0) {
+      logger.info(`🌐 Seeded ${seeded} network(s) into the registry`);
+    }
+    const backfilled = await Network.backfillTokens(NETWORKS);
+    if (backfilled > 0) {
+      logger.info(
+        `🌐 Added token lists to ${backfilled} registered network(s)`
+      );
+    }
+
+    await this.refresh();
+
+    if (!this.refreshTimer) {
+      this.refreshTimer = setInterval(() => {
+        this.refresh().catch((error) =>
+          logger.error("Network registry refresh failed:", error)
+        );
+      }, this.refreshIntervalMs);
+      this.refreshTimer.unref();
+    }
+  }
+
+  public stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Reload enabled networks into the in-memory cache
+   */
+  public async refresh(): Promise<void> {
+    const networks = await Network.findAll({ enabledOnly: true });
+    const cache: Record<NetworkKey, NetworkConfig> = {};
+    for (const network of networks) {
+      cache[network.key] = network.config;
+    }
+    setRegistryNetworks(cache);
+    this.lastRefreshAt = new Date();
+  }
+
+  public getLastRefreshAt(): Date | null {
+    return this.lastRefreshAt;
+  }
+
+  public async listNetworks(): Promise<Network[]> {
+    return await Network.findAll();
+  }
+
+  public async getNetwork(key: NetworkKey): Promise<Network> {
+    const network = await Network.findByKey(key);
+    if (!network) {
+      throw new Error(`Network not found: ${key}`);
+    }
+    return network;
+  }
+
+  /**
+   * Register a new network after checking its RPCs report the declared chainId
+   */
+  public async createNetwork(
+    key: NetworkKey,
+    config: NetworkConfig,
+    enabled = true
+  ): Promise<Network> {
+    if (await Network.findByKey(key)) {
+      throw new Error(`Network ${key} already exists`);
+    }
+    const [sameChain] = await Network.findByChainId(config.chainId);
+    if (sameChain) {
+      throw new Error(
+        `Network ${sameChain.key} already exists for chainId ${config.chainId}`
+      );
+    }
+
+    await this.verifyEndpoints(config);
+
+    const network = new Network({ ...config, key, enabled });
+    await network.save();
+    await this.refresh();
+
+    logger.info(`🌐 Registered network ${key} (chainId ${config.chainId})`);
+    return network;
+  }
+
+  /**
+   * Update a network; the chainId is re-verified when the RPCs or chainId change
+   */
+  public async updateNetwork(
+    key: NetworkKey,
+    updates: Partial<NetworkConfig> & { enabled?: boolean }
+  ): Promise<Network> {
+    const network = await this.getNetwork(key);
+    const { enabled, ...configUpdates } = updates;
+
+    if (
+      configUpdates.chainId !== undefined &&
+      configUpdates.chainId !== network.config.chainId &&
+      (await this.hasDeployments(key))
+    ) {
+      throw new Error(
+        `Cannot change chainId of ${key}: Safes are already deployed on it`
+      );
+    }
+
+    const nextConfig: NetworkConfig = { ...network.config, ...configUpdates };
+    if (
+      getRpcUrls(nextConfig).join() !== getRpcUrls(network.config).join() ||
+      nextConfig.chainId !== network.config.chainId
+    ) {
+      await this.verifyEndpoints(nextConfig);
+    }
+
+    network.config = nextConfig;
+    if (enabled !== undefined) {
+      network.enabled = enabled;
+    }
+    await network.save();
+    await this.refresh();
+
+    logger.info(`🌐 Updated network ${key}`);
+    return network;
+  }
+
+  /**
+   * Remove a network; networks with deployed Safes must be disabled instead
+   */
+  public async deleteNetwork(key: NetworkKey): Promise<void> {
+    const network = await this.getNetwork(key);
+
+    if (await this.hasDeployments(key)) {
+      throw new Error(
+        `Cannot delete ${key}: Safes are deployed on it; disable it instead`
+      );
+    }
+
+    await network.delete();
+    await this.refresh();
+    logger.info(`🌐 Deleted network ${key}`);
+  }
+
+  /**
+   * Check every RPC endpoint of a network reports its chainId
+   */
+  private async verifyEndpoints(config: NetworkConfig): Promise<void> {
+    for (const rpc of getRpcUrls(config)) {
+      await this.verifyChainId(rpc, config.chainId);
+    }
+  }
+
+  /**
+   * Check the RPC answers eth_chainId with the declared chainId
+   */
+  public async verifyChainId(rpc: string, chainId: number): Promise<void> {
+    // A static network skips ethers' own detection, so eth_chainId goes to the RPC as-is
+    const provider = new ethers.JsonRpcProvider(rpc, chainId, {
+      staticNetwork: true,
+    });
+
+    let reported: number;
+    try {
+      const result = await Promise.race([
+        provider.send("eth_chainId", []),
+        new Promise<never>((_, reject) =>
+          setTimeout(
+            () => reject(new Error("timed out")),
+            CHAIN_ID_TIMEOUT_MS
+          ).unref()
+        ),
+      ]);
+      reported = Number(BigInt(result));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`RPC ${rpc} is unreachable: ${reason}`);
+    } finally {
+      provider.destroy();
+    }
+
+    if (reported !== chainId) {
+      throw new Error(
+        `RPC chainId mismatch: expected ${chainId} but ${rpc} reported ${reported}`
+      );
+    }
+  }
+
+  private async hasDeployments(key: NetworkKey): Promise<boolean> {
+    const safe = await SafeModel.findOne({
+      [`deployments.${key}`]: { $exists: true },
+    });
+    return safe !== null;
+  }
+}
+
+export default NetworkRegistry;
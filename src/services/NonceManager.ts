@@ -0,0 +1,269 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+import { RedisClientType } from "redis";
+import logger from "../config/logger.js";
+
+const LOCK_TIMEOUT_MS = parseInt(process.env.NONCE_LOCK_TIMEOUT_MS || "30000");
+const LOCK_TTL_MS = parseInt(process.env.NONCE_LOCK_TTL_MS || "60000");
+const STATE_TTL_MS =
+  parseInt(process.env.NONCE_STATE_TTL_HOURS || "24") * 60 * 60 * 1000;
+// Allocations this recent may not show up as pending on every RPC endpoint yet
+const RESYNC_AFTER_MS = parseInt(process.env.NONCE_RESYNC_AFTER_MS || "60000");
+const LOCK_RETRY_MS = 50;
+
+// Delete the lock only if this holder still owns it
+const UNLOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+
+/**
+ * A nonce reserved for one transaction
+ * commit() once the transaction is broadcast, release() when it was never sent
+ */
+export interface NonceLease {
+  nonce: number;
+  commit(): Promise<void>;
+  release(): Promise<void>;
+}
+
+interface NonceState {
+  next: number; // Next nonce to hand out
+  updatedAt: number;
+}
+
+interface NonceStore {
+  lock(key: string): Promise<() => Promise<void>>;
+  getState(key: string): Promise<NonceState | null>;
+  setState(key: string, next: number): Promise<void>;
+  // Smallest released nonce at or above min (the chain's pending nonce), removed from the store
+  takeGap(key: string, min: number): Promise<number | null>;
+  addGap(key: string, nonce: number): Promise<void>;
+  clearGaps(key: string): Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function localStore(): NonceStore {
+  const locks = new Map<string, Promise<void>>();
+  const states = new Map<string, NonceState>();
+  const gaps = new Map<string, Set<number>>();
+
+  return {
+    async lock(key) {
+      const previous = locks.get(key) ?? Promise.resolve();
+      let unlock!: () => void;
+      const current = new Promise<void>((resolve) => (unlock = resolve));
+      const chained = previous.then(() => current);
+      locks.set(key, chained);
+
+      await previous;
+      return async () => {
+        unlock();
+        if (locks.get(key) === chained) {
+          locks.delete(key);
+        }
+      };
+    },
+    async getState(key) {
+      return states.get(key) ?? null;
+    },
+    async setState(key, next) {
+      states.set(key, { next, updatedAt: Date.now() });
+    },
+    async takeGap(key, min) {
+      const released = gaps.get(key);
+      if (!released) return null;
+      for (const nonce of released) {
+        if (nonce < min) released.delete(nonce);
+      }
+      if (released.size === 0) return null;
+      const nonce = Math.min(...released);
+      released.delete(nonce);
+      return nonce;
+    },
+    async addGap(key, nonce) {
+      if (!gaps.has(key)) gaps.set(key, new Set());
+      gaps.get(key)!.add(nonce);
+    },
+    async clearGaps(key) {
+      gaps.delete(key);
+    },
+  };
+}
+
+function redisStore(redis: RedisClientType): NonceStore {
+  const redisKey = (key: string, suffix: string) => `nonce:${key}:${suffix}`;
+  return {
+    async lock(key) {
+      const lockKey = redisKey(key, "lock");
+      const token = crypto.randomUUID();
+      const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+      while (
+        (await redis.set(lockKey, token, { NX: true, PX: LOCK_TTL_MS })) !==
+        "OK"
+      ) {
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for nonce lock ${key}`);
+        }
+        await sleep(LOCK_RETRY_MS);
+      }
+
+      return async () => {
+        await redis.eval(UNLOCK_SCRIPT, {
+          keys: [lockKey],
+          arguments: [token],
+        });
+      };
+    },
+    async getState(key) {
+      const raw = await redis.get(redisKey(key, "state"));
+      return raw ? (JSON.parse(raw) as NonceState) : null;
+    },
+    async setState(key, next) {
+      const state: NonceState = { next, updatedAt: Date.now() };
+      await redis.set(redisKey(key, "state"), JSON.stringify(state), {
+        PX: STATE_TTL_MS,
+      });
+    },
+    async takeGap(key, min) {
+      const gapsKey = redisKey(key, "gaps");
+      // Released nonces below the chain's pending nonce were used meanwhile
+      await redis.zRemRangeByScore(gapsKey, "-inf", `(${min}`);
+      const [nonce] = await redis.zRangeByScore(gapsKey, min, "+inf", {
+        LIMIT: { offset: 0, count: 1 },
+      });
+      if (nonce === undefined) return null;
+      // Another holder cannot race us here: the caller holds the lock
+      await redis.zRem(gapsKey, nonce);
+      return parseInt(nonce);
+    },
+    async addGap(key, nonce) {
+      const gapsKey = redisKey(key, "gaps");
+      await redis.zAdd(gapsKey, { score: nonce, value: nonce.toString() });
+      await redis.pExpire(gapsKey, STATE_TTL_MS);
+    },
+    async clearGaps(key) {
+      await redis.del(redisKey(key, "gaps"));
+    },
+  };
+}
+
+/**
+ * NonceManager - Serializes nonce allocation per (chain, signer)
+ * Concurrent deployments from the same key get consecutive nonces instead of the
+ * same provider-assigned one; nonces of transactions that were never broadcast are
+ * handed out again. State is shared across instances through Redis when connected
+ */
+class NonceManager {
+  private static instance: NonceManager;
+  private local = localStore();
+  private redis: RedisClientType | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): NonceManager {
+    if (!NonceManager.instance) {
+      NonceManager.instance = new NonceManager();
+    }
+    return NonceManager.instance;
+  }
+
+  /**
+   * Share nonce state through Redis (call once the client is connected)
+   */
+  public setRedis(redis: RedisClientType | null): void {
+    this.redis = redis;
+  }
+
+  /**
+   * Reserve the next nonce of a signer on a chain
+   * The lock is held until the lease is committed or released, so callers should
+   * broadcast right after acquiring
+   */
+  public async acquire(
+    chainId: number,
+    address: string,
+    provider: ethers.Provider
+  ): Promise<NonceLease> {
+    const key = `${chainId}:${address.toLowerCase()}`;
+    const store = this.getStore();
+    const unlock = await store.lock(key);
+
+    let nonce: number;
+    try {
+      nonce = await this.allocate(store, key, address, provider);
+    } catch (error) {
+      await unlock();
+      throw error;
+    }
+
+    let settled = false;
+    const settle = async (action: () => Promise<void>) => {
+      if (settled) return;
+      settled = true;
+      try {
+        await action();
+      } finally {
+        await unlock();
+      }
+    };
+
+    return {
+      nonce,
+      commit: () => settle(async () => {}),
+      release: () =>
+        settle(async () => {
+          // Hand the nonce back: rewind if nothing was allocated after it, else leave a gap
+          const state = await store.getState(key);
+          if (state?.next === nonce + 1) {
+            await store.setState(key, nonce);
+          } else {
+            await store.addGap(key, nonce);
+          }
+        }),
+    };
+  }
+
+  private async allocate(
+    store: NonceStore,
+    key: string,
+    address: string,
+    provider: ethers.Provider
+  ): Promise<number> {
+    const [latest, pending] = await Promise.all([
+      provider.getTransactionCount(address, "latest"),
+      provider.getTransactionCount(address, "pending"),
+    ]);
+    const state = await store.getState(key);
+    let next = state?.next ?? null;
+
+    // Nothing of ours is pending but we are ahead of the chain: transactions were
+    // dropped (or state is stale), so start over from the chain's nonce
+    if (
+      state &&
+      pending === latest &&
+      state.next > pending &&
+      Date.now() - state.updatedAt > RESYNC_AFTER_MS
+    ) {
+      logger.warn(
+        `Nonce gap for ${address} on chain ${key.split(":")[0]}: expected ${state.next}, chain is at ${pending}; resetting`
+      );
+      await store.clearGaps(key);
+      next = null;
+    }
+
+    const gap = await store.takeGap(key, pending);
+    if (gap !== null && (next === null || gap < next)) {
+      return gap;
+    }
+
+    const nonce = next === null ? pending : Math.max(pending, next);
+    await store.setState(key, nonce + 1);
+    return nonce;
+  }
+
+  private getStore(): NonceStore {
+    return this.redis?.isReady ? redisStore(this.redis) : this.local;
+  }
+}
+
+export default NonceManager;
@@ -0,0 +1,370 @@
+import { ethers } from "ethers";
+import {
+  getNetwork,
+  getRpcUrls,
+  NetworkConfig,
+  NetworkKey,
+} from "../config/networks.js";
+import logger from "../config/logger.js";
+
+const REQUEST_TIMEOUT_MS = parseInt(process.env.RPC_TIMEOUT_MS || "10000");
+const STALL_TIMEOUT_MS = parseInt(process.env.RPC_STALL_TIMEOUT_MS || "1500");
+// Rebuild the fallback provider this often so endpoints it gave up on get another chance
+const REBUILD_INTERVAL_MS = 5 * 60 * 1000;
+// Replaced providers are destroyed after this long, once signers still sending through them are done
+const RETIRED_PROVIDER_TTL_MS = 30 * 60 * 1000;
+const SMOOTHING = 0.2;
+const DOWN_AFTER_FAILURES = 3;
+const DOWN_RETRY_MS = 30000;
+const SLOW_LATENCY_MS = 2000;
+
+export type RpcEndpointStatus = "unknown" | "healthy" | "degraded" | "down";
+
+export interface RpcEndpointHealth {
+  url: string;
+  status: RpcEndpointStatus;
+  score: number; // Lower is better
+  latencyMs: number | null; // Smoothed over recent requests
+  errorRate: number; // Smoothed share of failed requests (0-1)
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastErrorAt?: Date;
+  lastSuccessAt?: Date;
+  blockNumber?: number; // Set by health checks
+}
+
+/**
+ * Request statistics of one RPC endpoint
+ */
+class RpcEndpoint {
+  public readonly url: string;
+  public readonly provider: ScoredJsonRpcProvider;
+  public latencyMs: number | null = null;
+  public errorRate = 0;
+  public requests = 0;
+  public failures = 0;
+  public consecutiveFailures = 0;
+  public lastError?: string;
+  public lastErrorAt?: Date;
+  public lastSuccessAt?: Date;
+  public blockNumber?: number;
+
+  constructor(url: string, network: ethers.Network) {
+    this.url = url;
+    this.provider = new ScoredJsonRpcProvider(this, network);
+  }
+
+  public recordSuccess(latencyMs: number): void {
+    this.requests++;
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = new Date();
+    this.latencyMs =
+      this.latencyMs === null
+        ? latencyMs
+        : this.latencyMs * (1 - SMOOTHING) + latencyMs * SMOOTHING;
+    this.errorRate *= 1 - SMOOTHING;
+  }
+
+  public recordFailure(error: unknown): void {
+    this.requests++;
+    this.failures++;
+    this.consecutiveFailures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.lastErrorAt = new Date();
+    this.errorRate = this.errorRate * (1 - SMOOTHING) + SMOOTHING;
+  }
+
+  public getStatus(): RpcEndpointStatus {
+    if (this.requests === 0) {
+      return "unknown";
+    }
+    if (this.isDown()) {
+      return "down";
+    }
+    if (
+      this.consecutiveFailures > 0 ||
+      this.errorRate > 0.2 ||
+      (this.latencyMs ?? 0) > SLOW_LATENCY_MS
+    ) {
+      return "degraded";
+    }
+    return "healthy";
+  }
+
+  /**
+   * Latency plus penalties for errors; a down endpoint sinks to the bottom
+   * until DOWN_RETRY_MS has passed since its last failure
+   */
+  public getScore(): number {
+    const downPenalty = this.isDown() ? 1000000 : 0;
+    return (this.latencyMs ?? 0) + this.errorRate * 10000 + downPenalty;
+  }
+
+  public toJSON(): RpcEndpointHealth {
+    return {
+      url: this.url,
+      status: this.getStatus(),
+      score: Math.round(this.getScore()),
+      latencyMs: this.latencyMs === null ? null : Math.round(this.latencyMs),
+      errorRate: Number(this.errorRate.toFixed(3)),
+      requests: this.requests,
+      failures: this.failures,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt,
+      lastSuccessAt: this.lastSuccessAt,
+      blockNumber: this.blockNumber,
+    };
+  }
+
+  private isDown(): boolean {
+    return (
+      this.consecutiveFailures >= DOWN_AFTER_FAILURES &&
+      !!this.lastErrorAt &&
+      Date.now() - this.lastErrorAt.getTime() < DOWN_RETRY_MS
+    );
+  }
+}
+
+/**
+ * JsonRpcProvider that reports latency and transport failures to its endpoint
+ * JSON-RPC errors (reverts, bad params) are answers, not endpoint failures
+ */
+class ScoredJsonRpcProvider extends ethers.JsonRpcProvider {
+  private endpoint: RpcEndpoint;
+
+  constructor(endpoint: RpcEndpoint, network: ethers.Network) {
+    const request = new ethers.FetchRequest(endpoint.url);
+    request.timeout = REQUEST_TIMEOUT_MS;
+    super(request, network, { staticNetwork: network });
+    this.endpoint = endpoint;
+  }
+
+  override async _send(
+    payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>
+  ): Promise<Array<ethers.JsonRpcResult>> {
+    const startedAt = Date.now();
+    try {
+      const result = await super._send(payload);
+      this.endpoint.recordSuccess(Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      this.endpoint.recordFailure(error);
+      throw error;
+    }
+  }
+}
+
+interface BuiltProvider {
+  provider: ethers.AbstractProvider;
+  builtAt: number;
+}
+
+interface NetworkPool {
+  chainId: number;
+  signature: string; // URLs and quorum the pool was built from
+  endpoints: RpcEndpoint[];
+  providers: Map<string, BuiltProvider>; // By ranking of the endpoints
+}
+
+/**
+ * ProviderPool - Shared providers per network with failover across its RPC endpoints
+ * Endpoints are ranked by latency and error rate; with rpcQuorum 1 (the default)
+ * requests go to the best endpoint and fail over to the next when it errors or stalls
+ */
+class ProviderPool {
+  private static instance: ProviderPool;
+  private pools = new Map<NetworkKey, NetworkPool>();
+
+  private constructor() {}
+
+  public static getInstance(): ProviderPool {
+    if (!ProviderPool.instance) {
+      ProviderPool.instance = new ProviderPool();
+    }
+    return ProviderPool.instance;
+  }
+
+  /**
+   * Provider for a network, cached by the ranking of its endpoints so rankings
+   * that alternate reuse their providers; each is rebuilt after REBUILD_INTERVAL_MS
+   */
+  public getProvider(networkKey: NetworkKey): ethers.AbstractProvider {
+    const network = getNetwork(networkKey);
+    const pool = this.getPool(networkKey, network);
+    const ranked = this.rank(pool.endpoints);
+    const ranking = ranked.map((endpoint) => endpoint.url).join();
+
+    let built = pool.providers.get(ranking);
+    if (!built || Date.now() - built.builtAt > REBUILD_INTERVAL_MS) {
+      this.pruneProviders(pool);
+      built = {
+        provider: this.buildProvider(network, ranked),
+        builtAt: Date.now(),
+      };
+      pool.providers.set(ranking, built);
+    }
+    return built.provider;
+  }
+
+  /**
+   * Best-ranked RPC URL, for clients that take a URL instead of a provider (protocol-kit)
+   */
+  public getRpcUrl(networkKey: NetworkKey): string {
+    const network = getNetwork(networkKey);
+    return this.rank(this.getPool(networkKey, network).endpoints)[0].url;
+  }
+
+  /**
+   * Send a raw JSON-RPC request (e.g. eth_feeHistory), trying endpoints in ranked order
+   */
+  public async send(
+    networkKey: NetworkKey,
+    method: string,
+    params: unknown[]
+  ): Promise<any> {
+    const network = getNetwork(networkKey);
+    const ranked = this.rank(this.getPool(networkKey, network).endpoints);
+
+    let lastError: unknown;
+    for (const endpoint of ranked) {
+      try {
+        return await endpoint.provider.send(method, params);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Probe every endpoint of a network with eth_blockNumber and report their health
+   */
+  public async checkHealth(
+    networkKey: NetworkKey
+  ): Promise<RpcEndpointHealth[]> {
+    const network = getNetwork(networkKey);
+    const { endpoints } = this.getPool(networkKey, network);
+
+    await Promise.all(
+      endpoints.map(async (endpoint) => {
+        try {
+          endpoint.blockNumber = await endpoint.provider.getBlockNumber();
+        } catch (error) {
+          endpoint.blockNumber = undefined;
+          logger.warn(
+            `RPC health check failed for ${networkKey} (${endpoint.url}): ${error instanceof Error ? error.message : error}`
+          );
+        }
+      })
+    );
+
+    return this.rank(endpoints).map((endpoint) => endpoint.toJSON());
+  }
+
+  private getPool(networkKey: NetworkKey, network: NetworkConfig): NetworkPool {
+    const urls = getRpcUrls(network);
+    const signature = [network.rpcQuorum ?? 1, ...urls].join();
+
+    const existing = this.pools.get(networkKey);
+    if (
+      existing &&
+      existing.chainId === network.chainId &&
+      existing.signature === signature
+    ) {
+      return existing;
+    }
+    for (const { provider } of existing?.providers.values() ?? []) {
+      this.retireProvider(provider);
+    }
+
+    // Keep statistics of endpoints that are still configured for the same chain
+    const previous =
+      existing?.chainId === network.chainId ? existing.endpoints : [];
+    const chain = ethers.Network.from(network.chainId);
+    const endpoints = urls.map(
+      (url) =>
+        previous.find((endpoint) => endpoint.url === url) ||
+        new RpcEndpoint(url, chain)
+    );
+
+    const pool: NetworkPool = {
+      chainId: network.chainId,
+      signature,
+      endpoints,
+      providers: new Map(),
+    };
+    this.pools.set(networkKey, pool);
+    logger.info(
+      `🔌 RPC pool for ${networkKey}: ${urls.length} endpoint(s), quorum ${network.rpcQuorum ?? 1}`
+    );
+    return pool;
+  }
+
+  /**
+   * Sort endpoints by score; ties keep the configured order (primary first)
+   */
+  private rank(endpoints: RpcEndpoint[]): RpcEndpoint[] {
+    return endpoints
+      .map((endpoint, index) => ({ endpoint, index }))
+      .sort(
+        (a, b) =>
+          a.endpoint.getScore() - b.endpoint.getScore() || a.index - b.index
+      )
+      .map(({ endpoint }) => endpoint);
+  }
+
+  /**
+   * Retire cached providers older than REBUILD_INTERVAL_MS
+   */
+  private pruneProviders(pool: NetworkPool): void {
+    for (const [ranking, built] of pool.providers) {
+      if (Date.now() - built.builtAt > REBUILD_INTERVAL_MS) {
+        pool.providers.delete(ranking);
+        this.retireProvider(built.provider);
+      }
+    }
+  }
+
+  /**
+   * Destroy a replaced provider once callers holding it are likely done
+   * The shared provider of a single endpoint is never destroyed
+   */
+  private retireProvider(provider: ethers.AbstractProvider): void {
+    if (provider instanceof ethers.FallbackProvider) {
+      setTimeout(
+        () => void provider.destroy(),
+        RETIRED_PROVIDER_TTL_MS
+      ).unref();
+    }
+  }
+
+  private buildProvider(
+    network: NetworkConfig,
+    ranked: RpcEndpoint[]
+  ): ethers.AbstractProvider {
+    const quorum = network.rpcQuorum ?? 1;
+    if (ranked.length === 1) {
+      return ranked[0].provider;
+    }
+
+    // Destroying a FallbackProvider destroys its providers, so it gets its own
+    const chain = ethers.Network.from(network.chainId);
+
+    // Lower priority is tried first; the next endpoint starts when one stalls or fails
+    return new ethers.FallbackProvider(
+      ranked.map((endpoint, index) => ({
+        provider: new ScoredJsonRpcProvider(endpoint, chain),
+        priority: index + 1,
+        weight: 1,
+        stallTimeout: STALL_TIMEOUT_MS,
+      })),
+      chain,
+      { quorum }
+    );
+  }
+}
+
+export default ProviderPool;
@@ -0,0 +1,284 @@
+import cron, { ScheduledTask } from "node-cron";
+import { ethers } from "ethers";
+import {
+  Safe as SafeModel,
+  ISafeDeployment,
+  IDeploymentReconciliation,
+  ISafeReconciliation,
+} from "../models/Safe.js";
+import { SafeTransaction } from "../models/SafeTransaction.js";
+import ProviderPool from "./ProviderPool.js";
+import logger from "../config/logger.js";
+
+const SAFE_STATE_ABI = [
+  "function getOwners() view returns (address[])",
+  "function getThreshold() view returns (uint256)",
+  "function nonce() view returns (uint256)",
+];
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+interface ReconciliationConfig {
+  schedule: string; // Cron expression; "off" disables the scheduled run
+  maxSafesPerRun: number;
+}
+
+/**
+ * ReconciliationService - Re-checks stored deployments against the chain
+ * Deployment records are written once; a reorg or a record written from a failed
+ * path leaves them wrong. Code, owners, threshold and nonce at each stored address
+ * are compared with the Safe record and mismatches are stored on it
+ */
+class ReconciliationService {
+  private static instance: ReconciliationService;
+  private config: ReconciliationConfig;
+  private task: ScheduledTask | null = null;
+  private running = false;
+
+  private constructor() {
+    this.config = {
+      schedule: process.env.RECONCILE_CRON || "*/30 * * * *",
+      maxSafesPerRun: parseInt(process.env.RECONCILE_MAX_SAFES || "200"),
+    };
+  }
+
+  public static getInstance(): ReconciliationService {
+    if (!ReconciliationService.instance) {
+      ReconciliationService.instance = new ReconciliationService();
+    }
+    return ReconciliationService.instance;
+  }
+
+  /**
+   * Schedule reconciliation runs; must be called after the database is connected
+   */
+  public start(): void {
+    if (this.task || this.config.schedule === "off") return;
+    if (!cron.validate(this.config.schedule)) {
+      throw new Error(
+        `Invalid RECONCILE_CRON expression: ${this.config.schedule}`
+      );
+    }
+
+    this.task = cron.schedule(this.config.schedule, () => {
+      this.runOnce().catch((error) =>
+        logger.error("Reconciliation run failed:", error)
+      );
+    });
+    logger.info(`Reconciliation scheduled (${this.config.schedule})`);
+  }
+
+  public stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+
+  /**
+   * Reconcile the least recently checked Safes; a run still in progress is not overlapped
+   */
+  public async runOnce(): Promise<void> {
+    if (this.running) {
+      logger.warn(
+        "Reconciliation run skipped: the previous run is still going"
+      );
+      return;
+    }
+    this.running = true;
+
+    try {
+      const safes = await SafeModel.findForReconciliation(
+        this.config.maxSafesPerRun
+      );
+      let mismatched = 0;
+      for (const safe of safes) {
+        try {
+          const result = await this.verifySafe(safe);
+          if (result.status !== "ok") mismatched++;
+        } catch (error) {
+          logger.error(`Reconciliation of Safe ${safe.safeId} failed:`, error);
+        }
+      }
+      logger.info(
+        `🔎 Reconciled ${safes.length} Safe(s); ${mismatched} with mismatches or unreadable networks`
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Compare every deployed network of a Safe with the chain and store the result
+   */
+  public async verifySafe(
+    safeOrId: SafeModel | string
+  ): Promise<ISafeReconciliation> {
+    const safe =
+      typeof safeOrId === "string"
+        ? await SafeModel.findOne({ safeId: safeOrId })
+        : safeOrId;
+    if (!safe) {
+      throw new Error(`Safe not found: ${safeOrId}`);
+    }
+
+    const deployments = Object.values(safe.deployments).filter(
+      (deployment) => deployment.deploymentStatus === "deployed"
+    );
+    const checks = await Promise.all(
+      deployments.map((deployment) => this.verifyDeployment(safe, deployment))
+    );
+
+    const networks: ISafeReconciliation["networks"] = {};
+    deployments.forEach((deployment, index) => {
+      networks[deployment.networkKey] = checks[index];
+    });
+
+    const statuses = checks.map((check) => check.status);
+    const reconciliation: ISafeReconciliation = {
+      status: statuses.includes("mismatch")
+        ? "mismatch"
+        : statuses.includes("error")
+          ? "error"
+          : "ok",
+      checkedAt: new Date(),
+      networks,
+    };
+
+    await SafeModel.setReconciliation(safe.safeId, reconciliation);
+
+    if (reconciliation.status === "mismatch") {
+      logger.warn(
+        `⚠️  Safe ${safe.safeId} does not match the chain: ${Object.entries(
+          networks
+        )
+          .filter(([, check]) => check.status === "mismatch")
+          .map(
+            ([networkKey, check]) =>
+              `${networkKey} (${check.mismatches.join("; ")})`
+          )
+          .join(", ")}`
+      );
+    }
+    return reconciliation;
+  }
+
+  private async verifyDeployment(
+    safe: SafeModel,
+    deployment: ISafeDeployment
+  ): Promise<IDeploymentReconciliation> {
+    const checkedAt = new Date();
+    const { networkKey, address } = deployment;
+
+    try {
+      const provider = ProviderPool.getInstance().getProvider(networkKey);
+      const code = await provider.getCode(address);
+      if (code === "0x") {
+        return {
+          status: "mismatch",
+          checkedAt,
+          hasCode: false,
+          mismatches: [`No contract code at ${address}`],
+        };
+      }
+
+      const contract = new ethers.Contract(address, SAFE_STATE_ABI, provider);
+      const [owners, threshold, nonce]: [string[], bigint, bigint] =
+        await Promise.all([
+          contract.getOwners(),
+          contract.getThreshold(),
+          contract.nonce(),
+        ]);
+
+      const mismatches = [
+        ...this.compareOwnership(safe, owners, Number(threshold)),
+        ...(await this.compareNonce(safe, networkKey, Number(nonce))),
+      ];
+
+      return {
+        status: mismatches.length > 0 ? "mismatch" : "ok",
+        checkedAt,
+        hasCode: true,
+        owners,
+        threshold: Number(threshold),
+        nonce: Number(nonce),
+        mismatches,
+      };
+    } catch (error) {
+      return {
+        status: "error",
+        checkedAt,
+        hasCode: false,
+        mismatches: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Owners and threshold must match the stored config, minus the agent on a frozen Safe
+   * While a freeze or unfreeze is in progress the owners legitimately differ per network
+   */
+  private compareOwnership(
+    safe: SafeModel,
+    owners: string[],
+    threshold: number
+  ): string[] {
+    if (safe.isFreezeInProgress()) return [];
+
+    let expectedOwners = safe.config.owners;
+    let expectedThreshold = safe.config.threshold;
+    if (
+      safe.freeze?.action === "freeze" &&
+      safe.freeze.status === "completed"
+    ) {
+      const agent = safe.freeze.agentAddress;
+      expectedOwners = expectedOwners.filter(
+        (owner) => !sameAddress(owner, agent)
+      );
+      expectedThreshold = Math.min(expectedThreshold, expectedOwners.length);
+    }
+
+    const mismatches: string[] = [];
+    const missing = expectedOwners.filter(
+      (owner) => !owners.some((o) => sameAddress(o, owner))
+    );
+    const unexpected = owners.filter(
+      (owner) => !expectedOwners.some((o) => sameAddress(o, owner))
+    );
+    if (missing.length > 0) {
+      mismatches.push(`Owners missing on-chain: ${missing.join(", ")}`);
+    }
+    if (unexpected.length > 0) {
+      mismatches.push(`Unexpected on-chain owners: ${unexpected.join(", ")}`);
+    }
+    if (threshold !== expectedThreshold) {
+      mismatches.push(
+        `Threshold is ${threshold} on-chain, ${expectedThreshold} expected`
+      );
+    }
+    return mismatches;
+  }
+
+  /**
+   * Every transaction executed through this service must be below the on-chain nonce;
+   * a lower nonce means executions were reorged out
+   */
+  private async compareNonce(
+    safe: SafeModel,
+    networkKey: string,
+    nonce: number
+  ): Promise<string[]> {
+    const maxExecuted = await SafeTransaction.findMaxExecutedNonce(
+      safe.safeId,
+      networkKey
+    );
+    if (maxExecuted !== null && nonce <= maxExecuted) {
+      return [
+        `Nonce is ${nonce} on-chain but transaction nonce ${maxExecuted} is recorded as executed`,
+      ];
+    }
+    return [];
+  }
+}
+
+export default ReconciliationService;
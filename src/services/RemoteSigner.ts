@@ -0,0 +1,173 @@
+import { ethers } from "ethers";
+
+const REQUEST_TIMEOUT_MS = parseInt(
+  process.env.REMOTE_SIGNER_TIMEOUT_MS || "10000"
+);
+
+/**
+ * RemoteSigner - Signs with a key held by a remote signer over HTTP
+ * Speaks the Web3Signer eth1 JSON-RPC API (eth_signTransaction, eth_sign,
+ * eth_signTypedData); signatures are checked against the expected address
+ * before they are used
+ */
+class RemoteSigner extends ethers.AbstractSigner {
+  public readonly url: string;
+  public readonly address: string;
+  private requestId = 0;
+
+  constructor(url: string, address: string, provider?: ethers.Provider | null) {
+    super(provider);
+    this.url = url;
+    this.address = ethers.getAddress(address);
+  }
+
+  override async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  override connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, provider);
+  }
+
+  /**
+   * Check that the remote signer holds the key for this address
+   */
+  async checkAvailable(): Promise<void> {
+    const accounts: string[] = await this.request("eth_accounts", []);
+    if (
+      !accounts.some(
+        (account) => account.toLowerCase() === this.address.toLowerCase()
+      )
+    ) {
+      throw new Error(
+        `Remote signer at ${this.url} has no key for ${this.address}`
+      );
+    }
+  }
+
+  override async signTransaction(
+    tx: ethers.TransactionRequest
+  ): Promise<string> {
+    const to = tx.to ? await ethers.resolveAddress(tx.to, this.provider) : null;
+    const quantity = (value: ethers.BigNumberish | null | undefined) =>
+      value === null || value === undefined
+        ? undefined
+        : ethers.toQuantity(value);
+
+    const signed: string = await this.request("eth_signTransaction", [
+      {
+        from: this.address,
+        to: to ?? undefined,
+        data: tx.data ?? "0x",
+        value: quantity(tx.value ?? 0),
+        nonce: quantity(tx.nonce),
+        gas: quantity(tx.gasLimit),
+        gasPrice: quantity(tx.gasPrice),
+        maxFeePerGas: quantity(tx.maxFeePerGas),
+        maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+        chainId: quantity(tx.chainId),
+        type: quantity(tx.type),
+      },
+    ]);
+
+    const parsed = ethers.Transaction.from(signed);
+    if (parsed.from?.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error(
+        `Remote signer returned a transaction signed by ${parsed.from}, expected ${this.address}`
+      );
+    }
+    if (
+      tx.chainId !== undefined &&
+      tx.chainId !== null &&
+      parsed.chainId !== BigInt(tx.chainId)
+    ) {
+      throw new Error(
+        `Remote signer signed for chain ${parsed.chainId}, expected ${tx.chainId}`
+      );
+    }
+    return signed;
+  }
+
+  override async signMessage(message: string | Uint8Array): Promise<string> {
+    const data =
+      typeof message === "string" ? ethers.toUtf8Bytes(message) : message;
+    const signature: string = await this.request("eth_sign", [
+      this.address,
+      ethers.hexlify(data),
+    ]);
+
+    this.assertSigner(ethers.verifyMessage(data, signature));
+    return signature;
+  }
+
+  override async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const resolved = await ethers.TypedDataEncoder.resolveNames(
+      domain,
+      types,
+      value,
+      async (name) => ethers.resolveAddress(name, this.provider)
+    );
+    const payload = ethers.TypedDataEncoder.getPayload(
+      resolved.domain,
+      types,
+      resolved.value
+    );
+    const signature: string = await this.request("eth_signTypedData", [
+      this.address,
+      JSON.stringify(payload),
+    ]);
+
+    this.assertSigner(
+      ethers.verifyTypedData(resolved.domain, types, resolved.value, signature)
+    );
+    return signature;
+  }
+
+  private assertSigner(recovered: string): void {
+    if (recovered.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error(
+        `Remote signer signature recovers to ${recovered}, expected ${this.address}`
+      );
+    }
+  }
+
+  private async request(method: string, params: unknown[]): Promise<any> {
+    const request = new ethers.FetchRequest(this.url);
+    request.timeout = REQUEST_TIMEOUT_MS;
+    request.setHeader("content-type", "application/json");
+    request.body = JSON.stringify({
+      jsonrpc: "2.0",
+      id: ++this.requestId,
+      method,
+      params,
+    });
+
+    let response: ethers.FetchResponse;
+    try {
+      response = await request.send();
+    } catch (error) {
+      throw new Error(
+        `Remote signer at ${this.url} is unreachable: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    if (!response.ok()) {
+      throw new Error(
+        `Remote signer ${method} failed with HTTP ${response.statusCode}`
+      );
+    }
+
+    const body = response.bodyJson;
+    if (body.error) {
+      throw new Error(
+        `Remote signer ${method} failed: ${body.error.message || JSON.stringify(body.error)}`
+      );
+    }
+    return body.result;
+  }
+}
+
+export default RemoteSigner;
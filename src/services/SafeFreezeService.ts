@@ -0,0 +1,268 @@
+import { ethers } from "ethers";
+import {
+  Safe as SafeModel,
+  ISafeFreeze,
+  ISafeFreezeNetwork,
+} from "../models/Safe.js";
+import { SafeTransaction } from "../models/SafeTransaction.js";
+import { NetworkKey } from "../config/networks.js";
+import { getAgentAddress } from "../config/agents.js";
+import ProviderPool from "./ProviderPool.js";
+import SafeTransactionService from "./SafeTransactionService.js";
+import logger from "../config/logger.js";
+
+// Head of the Safe owner linked list: the "previous owner" of the first owner
+const SENTINEL_OWNERS = "0x0000000000000000000000000000000000000001";
+
+const SAFE_OWNER_MANAGER_ABI = [
+  "function getOwners() view returns (address[])",
+  "function getThreshold() view returns (uint256)",
+  "function removeOwner(address prevOwner, address owner, uint256 _threshold)",
+  "function addOwnerWithThreshold(address owner, uint256 _threshold)",
+];
+
+const ownerManagerInterface = new ethers.Interface(SAFE_OWNER_MANAGER_ABI);
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+/**
+ * SafeFreezeService - Takes the agent's on-chain power over a Safe away and gives it back
+ * Freezing proposes removeOwner(agent) on every active deployment, unfreezing proposes
+ * addOwnerWithThreshold(agent); the Safe becomes suspended or active again only once every
+ * owner change is confirmed on-chain. Repeating a call retries failed networks
+ */
+class SafeFreezeService {
+  private safeTransactionService = new SafeTransactionService();
+
+  /**
+   * Remove the agent as owner of the Safe on every network it is deployed to
+   * The agent signs its own removal, so Safes with threshold 1 freeze immediately
+   */
+  async freeze(safeId: string, reason?: string): Promise<SafeModel> {
+    const safe = await this.getSafe(safeId);
+    if (safe.status !== "active" && safe.status !== "suspended") {
+      throw new Error(
+        `Safe ${safeId} is ${safe.status}; only active or suspended Safes can be frozen`
+      );
+    }
+
+    return await this.run(safe, this.openOperation(safe, "freeze", reason));
+  }
+
+  /**
+   * Add the agent back as owner with the configured threshold
+   * The agent is no longer an owner, so the other owners sign the proposed change
+   */
+  async unfreeze(safeId: string): Promise<SafeModel> {
+    const safe = await this.getSafe(safeId);
+    if (safe.status !== "suspended") {
+      throw new Error(`Safe ${safeId} is ${safe.status}; it is not frozen`);
+    }
+
+    return await this.run(safe, this.openOperation(safe, "unfreeze"));
+  }
+
+  /**
+   * Re-check an open freeze or unfreeze after one of its owner changes was executed
+   * (the other owners' signatures completed it)
+   */
+  async syncTransaction(safeId: string, safeTxHash: string): Promise<void> {
+    const safe = await SafeModel.findOne({ safeId });
+    if (safe?.freeze && safe.isFreezeTransaction(safeTxHash)) {
+      await this.run(safe, safe.freeze);
+    }
+  }
+
+  /**
+   * Continue the unfinished operation of the same action, or start a new one
+   * Starting a freeze abandons an open unfreeze: its owner change no longer gets signatures
+   */
+  private openOperation(
+    safe: SafeModel,
+    action: ISafeFreeze["action"],
+    reason?: string
+  ): ISafeFreeze {
+    if (safe.freeze?.action === action && safe.freeze.status !== "completed") {
+      if (reason) safe.freeze.reason = reason;
+      return safe.freeze;
+    }
+
+    return {
+      action,
+      status: "in_progress",
+      agentAddress: getAgentAddress(safe.userInfo.agentType),
+      reason,
+      networks: {},
+      requestedAt: new Date(),
+    };
+  }
+
+  private async run(safe: SafeModel, freeze: ISafeFreeze): Promise<SafeModel> {
+    for (const deployment of safe.getActiveDeployments()) {
+      if (!freeze.networks[deployment.networkKey]) {
+        freeze.networks[deployment.networkKey] = {
+          status: "pending",
+          updatedAt: new Date(),
+        };
+      }
+    }
+
+    // Networks are independent (one nonce sequence per chain), so they run in parallel
+    await Promise.all(
+      Object.entries(freeze.networks).map(async ([networkKey, progress]) => {
+        if (progress.status === "confirmed" || progress.status === "skipped") {
+          return;
+        }
+        try {
+          await this.applyOnNetwork(
+            safe,
+            freeze,
+            networkKey as NetworkKey,
+            progress
+          );
+        } catch (error) {
+          progress.status = "failed";
+          progress.error =
+            error instanceof Error ? error.message : String(error);
+          logger.error(
+            `Safe ${safe.safeId} ${freeze.action} failed on ${networkKey}:`,
+            error
+          );
+        }
+        progress.updatedAt = new Date();
+      })
+    );
+
+    // Executions updated the analytics of the stored record meanwhile
+    const current = await this.getSafe(safe.safeId);
+
+    const statuses = Object.values(freeze.networks).map((n) => n.status);
+    if (statuses.includes("failed")) {
+      freeze.status = "failed";
+    } else if (statuses.includes("proposed")) {
+      freeze.status = "in_progress";
+    } else {
+      // Every owner change is on-chain: only now does the status follow
+      freeze.status = "completed";
+      freeze.completedAt = new Date();
+      current.status = freeze.action === "freeze" ? "suspended" : "active";
+    }
+
+    current.freeze = freeze;
+    current.metadata.updatedAt = new Date();
+    await current.save();
+
+    logger.info(
+      `🧊 Safe ${current.safeId} ${freeze.action} is ${freeze.status} (status: ${current.status})`
+    );
+    return current;
+  }
+
+  /**
+   * Apply the owner change on one network; on-chain owners are read first, so
+   * repeating it after a failure or restart is safe
+   */
+  private async applyOnNetwork(
+    safe: SafeModel,
+    freeze: ISafeFreeze,
+    networkKey: NetworkKey,
+    progress: ISafeFreezeNetwork
+  ): Promise<void> {
+    const deployment = safe.getDeployment(networkKey);
+    if (!deployment) {
+      throw new Error(`Safe ${safe.safeId} is not deployed on ${networkKey}`);
+    }
+
+    const contract = new ethers.Contract(
+      deployment.address,
+      SAFE_OWNER_MANAGER_ABI,
+      ProviderPool.getInstance().getProvider(networkKey)
+    );
+    const [owners, threshold]: [string[], bigint] = await Promise.all([
+      contract.getOwners(),
+      contract.getThreshold(),
+    ]);
+    const agentIsOwner = owners.some((owner) =>
+      sameAddress(owner, freeze.agentAddress)
+    );
+
+    progress.error = undefined;
+
+    const done = freeze.action === "freeze" ? !agentIsOwner : agentIsOwner;
+    if (done) {
+      progress.status = progress.safeTxHash ? "confirmed" : "skipped";
+      return;
+    }
+
+    if (progress.safeTxHash) {
+      const existing = await SafeTransaction.findBySafeTxHash(
+        safe.safeId,
+        progress.safeTxHash
+      );
+      if (existing?.status === "pending" || existing?.status === "executing") {
+        progress.status = "proposed";
+        return;
+      }
+      // Executed but not visible yet on a lagging RPC endpoint
+      if (existing?.status === "executed") {
+        progress.status = "confirmed";
+        progress.txHash = existing.txHash;
+        return;
+      }
+    }
+
+    let data: string;
+    if (freeze.action === "freeze") {
+      if (owners.length === 1) {
+        throw new Error("The agent is the only owner and cannot be removed");
+      }
+      const index = owners.findIndex((owner) =>
+        sameAddress(owner, freeze.agentAddress)
+      );
+      const prevOwner = index === 0 ? SENTINEL_OWNERS : owners[index - 1];
+      // The threshold may not exceed the owners left after the removal
+      const newThreshold = Math.min(Number(threshold), owners.length - 1);
+      data = ownerManagerInterface.encodeFunctionData("removeOwner", [
+        prevOwner,
+        freeze.agentAddress,
+        newThreshold,
+      ]);
+    } else {
+      // Restore the configured threshold lowered by the freeze
+      const newThreshold = Math.min(safe.config.threshold, owners.length + 1);
+      data = ownerManagerInterface.encodeFunctionData("addOwnerWithThreshold", [
+        freeze.agentAddress,
+        newThreshold,
+      ]);
+    }
+
+    const transaction = await this.safeTransactionService.proposeTransaction(
+      safe.safeId,
+      { networkKey, to: deployment.address, data },
+      { allowSuspended: true, enforcePolicy: false }
+    );
+    progress.safeTxHash = transaction.safeTxHash;
+
+    if (transaction.status === "executed") {
+      progress.status = "confirmed";
+      progress.txHash = transaction.txHash;
+    } else if (transaction.status === "pending") {
+      progress.status = "proposed";
+    } else {
+      throw new Error(
+        transaction.error || `Owner change transaction is ${transaction.status}`
+      );
+    }
+  }
+
+  private async getSafe(safeId: string): Promise<SafeModel> {
+    const safe = await SafeModel.findOne({ safeId });
+    if (!safe) {
+      throw new Error(`Safe not found: ${safeId}`);
+    }
+    return safe;
+  }
+}
+
+export default SafeFreezeService;
@@ -0,0 +1,361 @@
+import { ethers } from "ethers";
+import { Safe as SafeModel, ISafeModule } from "../models/Safe.js";
+import { SafeTransaction } from "../models/SafeTransaction.js";
+import { isNetworkSupported, NetworkKey } from "../config/networks.js";
+import ProviderPool from "./ProviderPool.js";
+import SafeTransactionService from "./SafeTransactionService.js";
+import logger from "../config/logger.js";
+
+// Head of the Safe module linked list, used as the start of getModulesPaginated
+const SENTINEL_MODULES = "0x0000000000000000000000000000000000000001";
+const MODULES_PAGE_SIZE = 50;
+
+const SAFE_MODULE_MANAGER_ABI = [
+  "function enableModule(address module)",
+  "function disableModule(address prevModule, address module)",
+  "function isModuleEnabled(address module) view returns (bool)",
+  "function getModulesPaginated(address start, uint256 pageSize) view returns (address[] array, address next)",
+];
+
+const moduleManagerInterface = new ethers.Interface(SAFE_MODULE_MANAGER_ABI);
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+export interface EnableModuleRequest {
+  moduleAddress: string;
+  networks?: NetworkKey[]; // Defaults to every active deployment
+  label?: string;
+}
+
+export interface ModuleEnableResult {
+  networkKey: NetworkKey;
+  status: "enabled" | "already_enabled" | "pending" | "failed";
+  safeTxHash?: string;
+  txHash?: string;
+  error?: string;
+}
+
+export interface SafeModuleState {
+  networkKey: NetworkKey;
+  safeAddress: string;
+  onChain: string[];
+  stored: ISafeModule[];
+  missingOnChain: string[]; // Stored but no longer enabled (disabled outside this service)
+  unknownOnChain: string[]; // Enabled on-chain but never recorded
+  inSync: boolean;
+  error?: string;
+}
+
+/**
+ * SafeModuleService - Enables Safe modules (allowance, session key or roles modules) and
+ * keeps the enabled set of every deployment on the Safe record
+ * enableModule goes through SafeTransactionService like any Safe transaction, so Safes
+ * with a higher threshold collect owner signatures first
+ */
+class SafeModuleService {
+  private safeTransactionService = new SafeTransactionService();
+
+  /**
+   * Propose enableModule(module) on the requested networks
+   */
+  async enableModule(
+    safeId: string,
+    request: EnableModuleRequest
+  ): Promise<ModuleEnableResult[]> {
+    const safe = await this.getSafe(safeId);
+    if (!ethers.isAddress(request.moduleAddress)) {
+      throw new Error(`Invalid module address: ${request.moduleAddress}`);
+    }
+    const moduleAddress = ethers.getAddress(request.moduleAddress);
+
+    const networks =
+      request.networks ??
+      safe.getActiveDeployments().map((deployment) => deployment.networkKey);
+    if (networks.length === 0) {
+      throw new Error(`Safe ${safeId} has no active deployments`);
+    }
+    for (const networkKey of networks) {
+      if (!isNetworkSupported(networkKey)) {
+        throw new Error(`Unsupported network: ${networkKey}`);
+      }
+      if (!safe.isDeployedOnNetwork(networkKey)) {
+        throw new Error(`Safe ${safeId} is not deployed on ${networkKey}`);
+      }
+    }
+
+    // Networks are independent (one nonce sequence per chain), so they run in parallel
+    const results = await Promise.all(
+      networks.map(async (networkKey): Promise<ModuleEnableResult> => {
+        try {
+          return await this.enableOnNetwork(safe, networkKey, moduleAddress);
+        } catch (error) {
+          logger.error(
+            `Enabling module ${moduleAddress} on Safe ${safeId} (${networkKey}) failed:`,
+            error
+          );
+          return {
+            networkKey,
+            status: "failed",
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+
+    const enabled = results.filter(
+      (r) => r.status === "enabled" || r.status === "already_enabled"
+    );
+    if (enabled.length > 0) {
+      await this.recordModules(
+        safeId,
+        enabled.map((result) => ({
+          networkKey: result.networkKey,
+          module: {
+            address: moduleAddress,
+            label: request.label,
+            enabledAt: new Date(),
+            txHash: result.txHash,
+          },
+        }))
+      );
+    }
+
+    logger.info(
+      `🧩 Module ${moduleAddress} on Safe ${safeId}: ${results.map((r) => `${r.networkKey}=${r.status}`).join(", ")}`
+    );
+    return results;
+  }
+
+  /**
+   * Read the enabled modules of every active deployment and compare them with the record
+   */
+  async getModules(safeId: string): Promise<SafeModuleState[]> {
+    const safe = await this.getSafe(safeId);
+
+    return await Promise.all(
+      safe.getActiveDeployments().map(async (deployment) => {
+        const stored = deployment.modules || [];
+        try {
+          const onChain = await this.readModules(
+            deployment.networkKey,
+            deployment.address
+          );
+          const missingOnChain = stored
+            .map((module) => module.address)
+            .filter((address) => !onChain.some((m) => sameAddress(m, address)));
+          const unknownOnChain = onChain.filter(
+            (address) => !stored.some((m) => sameAddress(m.address, address))
+          );
+
+          return {
+            networkKey: deployment.networkKey,
+            safeAddress: deployment.address,
+            onChain,
+            stored,
+            missingOnChain,
+            unknownOnChain,
+            inSync: missingOnChain.length === 0 && unknownOnChain.length === 0,
+          };
+        } catch (error) {
+          return {
+            networkKey: deployment.networkKey,
+            safeAddress: deployment.address,
+            onChain: [],
+            stored,
+            missingOnChain: [],
+            unknownOnChain: [],
+            inSync: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+  }
+
+  /**
+   * Record enableModule/disableModule calls the Safe made on itself once executed,
+   * e.g. after the owners' signatures completed a pending enableModule
+   */
+  async syncTransaction(
+    safeId: string,
+    transaction: SafeTransaction
+  ): Promise<void> {
+    if (
+      transaction.status !== "executed" ||
+      transaction.operation !== 0 ||
+      !sameAddress(transaction.to, transaction.safeAddress)
+    ) {
+      return;
+    }
+
+    let call: ethers.TransactionDescription | null;
+    try {
+      call = moduleManagerInterface.parseTransaction({
+        data: transaction.data,
+      });
+    } catch {
+      return;
+    }
+
+    if (call?.name === "enableModule") {
+      await this.recordModules(safeId, [
+        {
+          networkKey: transaction.networkKey,
+          module: {
+            address: ethers.getAddress(call.args[0]),
+            enabledAt: transaction.executedAt || new Date(),
+            txHash: transaction.txHash,
+          },
+        },
+      ]);
+    } else if (call?.name === "disableModule") {
+      await this.removeModule(
+        safeId,
+        transaction.networkKey,
+        ethers.getAddress(call.args[1])
+      );
+    }
+  }
+
+  private async enableOnNetwork(
+    safe: SafeModel,
+    networkKey: NetworkKey,
+    moduleAddress: string
+  ): Promise<ModuleEnableResult> {
+    const deployment = safe.getDeployment(networkKey)!;
+    const provider = ProviderPool.getInstance().getProvider(networkKey);
+
+    // A module is called with the Safe's full authority; an empty address is a typo
+    const code = await provider.getCode(moduleAddress);
+    if (code === "0x") {
+      throw new Error(`No contract at ${moduleAddress} on ${networkKey}`);
+    }
+
+    const contract = new ethers.Contract(
+      deployment.address,
+      SAFE_MODULE_MANAGER_ABI,
+      provider
+    );
+    if (await contract.isModuleEnabled(moduleAddress)) {
+      return { networkKey, status: "already_enabled" };
+    }
+
+    const transaction = await this.safeTransactionService.proposeTransaction(
+      safe.safeId,
+      {
+        networkKey,
+        to: deployment.address,
+        data: moduleManagerInterface.encodeFunctionData("enableModule", [
+          moduleAddress,
+        ]),
+      }
+    );
+
+    if (transaction.status === "executed") {
+      return {
+        networkKey,
+        status: "enabled",
+        safeTxHash: transaction.safeTxHash,
+        txHash: transaction.txHash,
+      };
+    }
+    if (transaction.status === "pending") {
+      return {
+        networkKey,
+        status: "pending",
+        safeTxHash: transaction.safeTxHash,
+      };
+    }
+    return {
+      networkKey,
+      status: "failed",
+      safeTxHash: transaction.safeTxHash,
+      txHash: transaction.txHash,
+      error:
+        transaction.error ||
+        `enableModule transaction is ${transaction.status}`,
+    };
+  }
+
+  private async readModules(
+    networkKey: NetworkKey,
+    safeAddress: string
+  ): Promise<string[]> {
+    const contract = new ethers.Contract(
+      safeAddress,
+      SAFE_MODULE_MANAGER_ABI,
+      ProviderPool.getInstance().getProvider(networkKey)
+    );
+
+    const modules: string[] = [];
+    let start = SENTINEL_MODULES;
+    for (;;) {
+      const [page, next]: [string[], string] =
+        await contract.getModulesPaginated(start, MODULES_PAGE_SIZE);
+      modules.push(...page);
+      if (
+        page.length < MODULES_PAGE_SIZE ||
+        sameAddress(next, SENTINEL_MODULES) ||
+        next === ethers.ZeroAddress
+      ) {
+        return modules;
+      }
+      start = next;
+    }
+  }
+
+  /**
+   * Add modules to the stored sets; the record is re-read because executions
+   * update its analytics meanwhile
+   */
+  private async recordModules(
+    safeId: string,
+    entries: { networkKey: NetworkKey; module: ISafeModule }[]
+  ): Promise<void> {
+    const safe = await this.getSafe(safeId);
+    for (const { networkKey, module } of entries) {
+      const deployment = safe.getDeployment(networkKey);
+      if (!deployment) continue;
+
+      const modules = deployment.modules || [];
+      const existing = modules.find((m) =>
+        sameAddress(m.address, module.address)
+      );
+      if (existing) {
+        existing.label = module.label || existing.label;
+      } else {
+        modules.push(module);
+      }
+      deployment.modules = modules;
+    }
+    safe.metadata.updatedAt = new Date();
+    await safe.save();
+  }
+
+  private async removeModule(
+    safeId: string,
+    networkKey: NetworkKey,
+    moduleAddress: string
+  ): Promise<void> {
+    const safe = await this.getSafe(safeId);
+    const deployment = safe.getDeployment(networkKey);
+    if (!deployment?.modules) return;
+
+    deployment.modules = deployment.modules.filter(
+      (m) => !sameAddress(m.address, moduleAddress)
+    );
+    safe.metadata.updatedAt = new Date();
+    await safe.save();
+  }
+
+  private async getSafe(safeId: string): Promise<SafeModel> {
+    const safe = await SafeModel.findOne({ safeId });
+    if (!safe) {
+      throw new Error(`Safe not found: ${safeId}`);
+    }
+    return safe;
+  }
+}
+
+export default SafeModuleService;
@@ -0,0 +1,423 @@
+import { ethers } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+import { Safe as SafeModel, ISafePolicy } from "../models/Safe.js";
+import {
+  SafeTransaction,
+  ISafeTransactionCall,
+} from "../models/SafeTransaction.js";
+import { PolicyViolation, PolicyRule } from "../models/PolicyViolation.js";
+import { NetworkKey } from "../config/networks.js";
+import logger from "../config/logger.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const erc20Interface = new ethers.Interface([
+  "function transfer(address to, uint256 amount)",
+  "function approve(address spender, uint256 amount)",
+  "function transferFrom(address from, address to, uint256 amount)",
+  "function increaseAllowance(address spender, uint256 addedValue)",
+]);
+
+// Token movements governed by allowedTokens instead of allowedTargets/allowedSelectors
+const TOKEN_SELECTORS = erc20Interface.fragments.map((fragment) =>
+  (fragment as ethers.FunctionFragment).selector.toLowerCase()
+);
+
+// Zodiac ScopeGuard (gnosis/zodiac-guard-scope) setters
+const scopeGuardInterface = new ethers.Interface([
+  "function setTargetAllowed(address target, bool allow)",
+  "function setScoped(address target, bool scoped)",
+  "function setAllowedFunction(address target, bytes4 functionSig, bool allow)",
+  "function setFallbackAllowedOnTarget(address target, bool allow)",
+  "function setValueAllowedOnTarget(address target, bool allow)",
+  "function setDelegateCallAllowedOnTarget(address target, bool allow)",
+]);
+
+const safeGuardManagerInterface = new ethers.Interface([
+  "function setGuard(address guard)",
+  "function addOwnerWithThreshold(address owner, uint256 _threshold)",
+  "function removeOwner(address prevOwner, address owner, uint256 _threshold)",
+  "function swapOwner(address prevOwner, address oldOwner, address newOwner)",
+  "function changeThreshold(uint256 _threshold)",
+]);
+
+// Calls the Safe must keep making on itself under a guard: owner changes (freeze,
+// key rotation) and replacing the guard
+const SELF_MANAGEMENT_SELECTORS = safeGuardManagerInterface.fragments.map(
+  (fragment) => (fragment as ethers.FunctionFragment).selector
+);
+
+const includesAddress = (list: string[], address: string) =>
+  list.some((entry) => entry.toLowerCase() === address.toLowerCase());
+
+export interface SafePolicyInput {
+  enabled?: boolean;
+  allowedTargets?: string[];
+  allowedSelectors?: string[];
+  maxValuePerTxWei?: string;
+  dailyValueCapWei?: string;
+  allowedTokens?: string[];
+  allowDelegateCall?: boolean;
+}
+
+export interface GuardCall {
+  to: string;
+  data: string;
+  description: string;
+}
+
+export interface ScopeGuardConfig {
+  guardAddress: string;
+  calls: GuardCall[]; // Executed by the guard owner
+  setGuard: (GuardCall & { networkKey: NetworkKey })[]; // Safe transactions installing the guard
+  notEnforcedOnChain: PolicyRule[];
+}
+
+/**
+ * SafePolicyService - Declarative per-Safe rules checked before the agent signs
+ * A policy only restricts the agent's signature; owners signing with their own keys are
+ * not limited by it. Every rejection is stored with the rule that blocked it
+ */
+class SafePolicyService {
+  async getPolicy(safeId: string): Promise<ISafePolicy | null> {
+    const safe = await this.getSafe(safeId);
+    return safe.policy || null;
+  }
+
+  /**
+   * Replace the policy of a Safe; unset rules do not restrict
+   */
+  async updatePolicy(
+    safeId: string,
+    input: SafePolicyInput
+  ): Promise<ISafePolicy> {
+    const safe = await this.getSafe(safeId);
+
+    const policy: ISafePolicy = {
+      enabled: input.enabled ?? true,
+      allowedTargets: this.normalizeAddresses(
+        "allowedTargets",
+        input.allowedTargets
+      ),
+      allowedSelectors: input.allowedSelectors?.map((selector) => {
+        if (!/^0x[0-9a-fA-F]{8}$/.test(selector)) {
+          throw new Error(`Invalid selector in allowedSelectors: ${selector}`);
+        }
+        return selector.toLowerCase();
+      }),
+      maxValuePerTxWei: this.normalizeWei(
+        "maxValuePerTxWei",
+        input.maxValuePerTxWei
+      ),
+      dailyValueCapWei: this.normalizeWei(
+        "dailyValueCapWei",
+        input.dailyValueCapWei
+      ),
+      allowedTokens: this.normalizeAddresses(
+        "allowedTokens",
+        input.allowedTokens
+      ),
+      allowDelegateCall: input.allowDelegateCall ?? false,
+      updatedAt: new Date(),
+    };
+
+    safe.policy = policy;
+    safe.metadata.updatedAt = new Date();
+    await safe.save();
+
+    logger.info(
+      `📜 Policy of Safe ${safeId} ${policy.enabled ? "updated" : "disabled"}`
+    );
+    return policy;
+  }
+
+  async getViolations(safeId: string, limit = 50): Promise<PolicyViolation[]> {
+    await this.getSafe(safeId);
+    return await PolicyViolation.findBySafeId(safeId, limit);
+  }
+
+  /**
+   * Check the calls of a Safe transaction against the Safe's policy before the agent signs
+   * Throws "Policy violation (<rule>): ..." for the first rule a call breaks
+   */
+  async enforce(
+    safe: SafeModel,
+    networkKey: NetworkKey,
+    calls: ISafeTransactionCall[]
+  ): Promise<void> {
+    const policy = safe.policy;
+    if (!policy?.enabled) return;
+
+    let totalValue = 0n;
+    for (const [index, call] of calls.entries()) {
+      const selector =
+        call.data && call.data !== "0x"
+          ? call.data.slice(0, 10).toLowerCase()
+          : undefined;
+      const reject = (rule: PolicyRule, message: string) =>
+        this.reject(
+          safe,
+          networkKey,
+          rule,
+          message,
+          calls.length > 1 ? index : undefined,
+          {
+            to: call.to,
+            value: call.value,
+            selector,
+            operation: call.operation,
+          }
+        );
+
+      if (call.operation === 1 && !policy.allowDelegateCall) {
+        await reject(
+          "allowDelegateCall",
+          `delegatecall to ${call.to} is not allowed`
+        );
+      }
+
+      const isTokenCall = !!selector && TOKEN_SELECTORS.includes(selector);
+      if (isTokenCall && policy.allowedTokens) {
+        if (!includesAddress(policy.allowedTokens, call.to)) {
+          await reject("allowedTokens", `${call.to} is not an allowed token`);
+        }
+      } else {
+        if (
+          policy.allowedTargets &&
+          !includesAddress(policy.allowedTargets, call.to)
+        ) {
+          await reject("allowedTargets", `${call.to} is not an allowed target`);
+        }
+        if (
+          selector &&
+          policy.allowedSelectors &&
+          !policy.allowedSelectors.includes(selector)
+        ) {
+          await reject(
+            "allowedSelectors",
+            `function ${selector} on ${call.to} is not allowed`
+          );
+        }
+      }
+
+      totalValue += BigInt(call.value || "0");
+    }
+
+    const reject = (rule: PolicyRule, message: string) =>
+      this.reject(safe, networkKey, rule, message);
+
+    if (
+      policy.maxValuePerTxWei &&
+      totalValue > BigInt(policy.maxValuePerTxWei)
+    ) {
+      await reject(
+        "maxValuePerTxWei",
+        `transaction moves ${totalValue} wei, above the ${policy.maxValuePerTxWei} wei limit`
+      );
+    }
+
+    if (policy.dailyValueCapWei && totalValue > 0n) {
+      const spent = await SafeTransaction.sumExecutedValueSince(
+        safe.safeId,
+        networkKey,
+        new Date(Date.now() - DAY_MS)
+      );
+      if (spent + totalValue > BigInt(policy.dailyValueCapWei)) {
+        await reject(
+          "dailyValueCapWei",
+          `${spent} wei executed on ${networkKey} in the last 24 hours; ${totalValue} more exceeds the ${policy.dailyValueCapWei} wei daily cap`
+        );
+      }
+    }
+  }
+
+  /**
+   * Compile the policy into Zodiac ScopeGuard settings, so the chain enforces targets,
+   * selectors and delegatecalls even if this service is bypassed
+   * Value amounts and daily caps have no ScopeGuard equivalent and stay server-side
+   */
+  async compileScopeGuard(
+    safeId: string,
+    guardAddress: string
+  ): Promise<ScopeGuardConfig> {
+    const safe = await this.getSafe(safeId);
+    const policy = safe.policy;
+    if (!policy) {
+      throw new Error(`Safe ${safeId} has no policy`);
+    }
+    if (!ethers.isAddress(guardAddress)) {
+      throw new Error(`Invalid guard address: ${guardAddress}`);
+    }
+    const guard = ethers.getAddress(guardAddress);
+
+    const targets = policy.allowedTargets || [];
+    const tokens = (policy.allowedTokens || []).filter(
+      (token) => !includesAddress(targets, token)
+    );
+    if (targets.length === 0 && tokens.length === 0) {
+      throw new Error(
+        "Invalid policy for a guard: a ScopeGuard without allowedTargets or allowedTokens blocks every call"
+      );
+    }
+
+    const calls: GuardCall[] = [];
+    const add = (fn: string, args: unknown[], description: string) =>
+      calls.push({
+        to: guard,
+        data: scopeGuardInterface.encodeFunctionData(fn, args),
+        description,
+      });
+    const valueAllowed = policy.maxValuePerTxWei !== "0";
+
+    const allowTarget = (target: string, selectors?: string[]) => {
+      add("setTargetAllowed", [target, true], `Allow calls to ${target}`);
+      if (valueAllowed) {
+        add(
+          "setValueAllowedOnTarget",
+          [target, true],
+          `Allow value to ${target}`
+        );
+      }
+      if (policy.allowDelegateCall) {
+        add(
+          "setDelegateCallAllowedOnTarget",
+          [target, true],
+          `Allow delegatecall to ${target}`
+        );
+      }
+      if (selectors) {
+        add(
+          "setScoped",
+          [target, true],
+          `Restrict ${target} to allowed functions`
+        );
+        add(
+          "setFallbackAllowedOnTarget",
+          [target, true],
+          `Allow calls without data to ${target}`
+        );
+        for (const selector of selectors) {
+          add(
+            "setAllowedFunction",
+            [target, selector, true],
+            `Allow ${selector} on ${target}`
+          );
+        }
+      }
+    };
+
+    for (const target of targets) {
+      allowTarget(target, policy.allowedSelectors);
+    }
+    for (const token of tokens) {
+      allowTarget(token, TOKEN_SELECTORS);
+    }
+
+    // Each deployment must still manage its owners and guard through itself
+    const deployments = safe.getActiveDeployments();
+    const safeAddresses = [
+      ...new Set(deployments.map((d) => ethers.getAddress(d.address))),
+    ];
+    for (const address of safeAddresses) {
+      add(
+        "setTargetAllowed",
+        [address, true],
+        `Allow the Safe ${address} to call itself`
+      );
+      add(
+        "setScoped",
+        [address, true],
+        `Restrict self-calls of ${address} to owner and guard management`
+      );
+      for (const selector of SELF_MANAGEMENT_SELECTORS) {
+        add(
+          "setAllowedFunction",
+          [address, selector, true],
+          `Allow ${selector} on ${address}`
+        );
+      }
+    }
+
+    const notEnforcedOnChain: PolicyRule[] = [];
+    if (policy.maxValuePerTxWei && valueAllowed) {
+      notEnforcedOnChain.push("maxValuePerTxWei");
+    }
+    if (policy.dailyValueCapWei) {
+      notEnforcedOnChain.push("dailyValueCapWei");
+    }
+
+    return {
+      guardAddress: guard,
+      calls,
+      setGuard: deployments.map((deployment) => ({
+        networkKey: deployment.networkKey,
+        to: deployment.address,
+        data: safeGuardManagerInterface.encodeFunctionData("setGuard", [guard]),
+        description: `Install the guard on ${deployment.networkKey}`,
+      })),
+      notEnforcedOnChain,
+    };
+  }
+
+  private async reject(
+    safe: SafeModel,
+    networkKey: NetworkKey,
+    rule: PolicyRule,
+    message: string,
+    callIndex?: number,
+    call?: PolicyViolation["call"]
+  ): Promise<never> {
+    logger.warn(
+      `🚫 Policy of Safe ${safe.safeId} blocked a transaction on ${networkKey} (${rule}): ${message}`
+    );
+    try {
+      await new PolicyViolation({
+        violationId: uuidv4(),
+        safeId: safe.safeId,
+        networkKey,
+        rule,
+        message,
+        callIndex,
+        call,
+      }).save();
+    } catch (error) {
+      logger.error(
+        `Failed to record policy violation for Safe ${safe.safeId}:`,
+        error
+      );
+    }
+    throw new Error(`Policy violation (${rule}): ${message}`);
+  }
+
+  private normalizeAddresses(
+    field: string,
+    addresses?: string[]
+  ): string[] | undefined {
+    return addresses?.map((address) => {
+      if (!ethers.isAddress(address)) {
+        throw new Error(`Invalid address in ${field}: ${address}`);
+      }
+      return ethers.getAddress(address);
+    });
+  }
+
+  private normalizeWei(field: string, value?: string): string | undefined {
+    if (value === undefined) return undefined;
+    if (!/^\d+$/.test(value)) {
+      throw new Error(
+        `Invalid ${field}: must be a wei amount as a decimal string`
+      );
+    }
+    return BigInt(value).toString();
+  }
+
+  private async getSafe(safeId: string): Promise<SafeModel> {
+    const safe = await SafeModel.findOne({ safeId });
+    if (!safe) {
+      throw new Error(`Safe not found: ${safeId}`);
+    }
+    return safe;
+  }
+}
+
+export default SafePolicyService;
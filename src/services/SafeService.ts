@@ -6,7 +6,11 @@ import {
   ISafeDocument,
   ISafeDeployment,
   ISafeConfig,
+  IFeeQuote,
+  ITransactionAttempt,
   IUserInfo,
+  buildSafeOwners,
+  validateSafeOwners,
 } from "../models/Safe.js";
 import {
   getNetwork,
@@ -14,8 +18,36 @@ import {
   NetworkKey,
   NetworkConfig,
 } from "../config/networks.js";
+import {
+  assertAgentTypeNetworks,
+  getAgentAddress,
+  getAgentType,
+  normalizeAgentType,
+} from "../config/agents.js";
+import {
+  DEFAULT_SAFE_VERSION,
+  getContractNetworks,
+  resolveSafeContracts,
+  SafeContractSet,
+  SafeVersion,
+} from "../config/safeContracts.js";
 import DatabaseConnection from "../config/database.js";
 import logger from "../config/logger.js";
+import { DeploymentJob, INetworkProgress } from "../models/DeploymentJob.js";
+import DeploymentQueue from "./DeploymentQueue.js";
+import ProviderPool from "./ProviderPool.js";
+import SignerRegistry from "./SignerRegistry.js";
+import FeeStrategy from "./FeeStrategy.js";
+import TransactionMonitor, {
+  MonitoredTransactionResult,
+} from "./TransactionMonitor.js";
+import SpendService, { SpendReport } from "./SpendService.js";
+import SafeFreezeService from "./SafeFreezeService.js";
+import {
+  computeSafeAddressOnNetwork,
+  deriveDeterministicSaltNonce,
+} from "../utils/safeAddress.js";
+import { SpendFilter } from "../models/SpendEntry.js";
 
 // Interface definitions
 export interface DeploymentConfig {
@@ -23,6 +55,19 @@ export interface DeploymentConfig {
   autoExpand?: boolean;
   description?: string;
   tags?: string[];
+  owners?: string[]; // Extra owners besides the user wallet (e.g. a recovery key)
+  threshold?: number;
+  includeAgent?: boolean; // Defaults to true; false leaves the agent out of the owners
+  saltStrategy?: "random" | "deterministic"; // Defaults to random
+  saltIndex?: number; // Deterministic only; defaults to the next unused index
+  safeVersion?: SafeVersion; // Defaults to the networks' safeVersion
+}
+
+export interface DeploymentContext {
+  userId: string;
+  agentType?: string;
+  // Persists sent/replaced/cancelled transactions while a deployment is pending
+  onTransactionAttempt?: (attempts: ITransactionAttempt[]) => Promise<void>;
 }
 
 export interface DeploymentResult {
@@ -34,20 +79,41 @@ export interface DeploymentResult {
   deploymentTimestamp: Date;
   gasUsed?: string;
   gasPrice?: string;
+  actualCostWei?: string;
+  feeQuote?: IFeeQuote;
+  transactionAttempts?: ITransactionAttempt[];
   deploymentStatus: "pending" | "deployed" | "failed";
   explorerUrl?: string;
   isExisting?: boolean;
   error?: string;
 }
 
-export interface SafeDeploymentResponse {
+export interface SafeDeploymentJobResponse {
   safeId: string;
+  jobId: string;
   config: ISafeConfig;
-  deployments: Record<string, DeploymentResult>;
-  commonAddress?: string;
+  networks: NetworkKey[];
   metadata: any;
 }
 
+export interface SafePredictionResponse {
+  safeId?: string;
+  predictedAddress: string;
+  addresses: Record<string, string>;
+  config: ISafeConfig;
+  networks: NetworkKey[];
+}
+
+export interface SafeRecoveryCandidate {
+  saltIndex: number;
+  address: string;
+  addresses: Record<string, string>;
+  deployedOn: NetworkKey[];
+  errors: Record<string, string>;
+  safeId?: string;
+  action: "created" | "updated" | "unchanged" | "not_deployed";
+}
+
 export interface GetSafesOptions {
   status?: "initializing" | "active" | "suspended" | "archived";
   networks?: string[];
@@ -86,132 +152,286 @@ export interface UserStats {
  */
 class SafeService {
   private cache: Map<string, any>;
-  private deploymentQueue: Map<string, boolean>;
+  private spendService: SpendService;
+  private feeStrategy: FeeStrategy;
+  private transactionMonitor: TransactionMonitor;
+  private safeFreezeService: SafeFreezeService;
 
   constructor() {
     // Do not enforce a specific key at construction time; we will validate per request
     this.cache = new Map(); // In-memory cache for frequently accessed data
-    this.deploymentQueue = new Map(); // Track ongoing deployments
-  }
-
-  /**
-   * Resolve which agent private key to use based on agentType
-   * perpetuals -> AGENT_PRIVATE_KEY (legacy default)
-   * spot -> SPOT_AGENT_PRIVATE_KEY
-   */
-  private getAgentPrivateKey(agentType?: string): string {
-    const normalized = (agentType || "").toLowerCase();
-    const isSpot = normalized === "spot";
-    const isPerp =
-      normalized === "perp" ||
-      normalized === "perps" ||
-      normalized === "perpetual" ||
-      normalized === "perpetuals" ||
-      normalized === "";
-
-    if (isSpot) {
-      const key = process.env.SPOT_AGENT_PRIVATE_KEY || "";
-      if (!key) {
-        throw new Error(
-          "SPOT_AGENT_PRIVATE_KEY environment variable is required for spot agentType"
-        );
-      }
-      return key;
-    }
-
-    // default to perpetuals key for backward compatibility
-    const key = process.env.AGENT_PRIVATE_KEY || "";
-    if (!key) {
-      throw new Error(
-        "AGENT_PRIVATE_KEY environment variable is required for perpetuals agentType"
-      );
-    }
-    return key;
+    this.spendService = new SpendService();
+    this.feeStrategy = new FeeStrategy();
+    this.transactionMonitor = new TransactionMonitor(this.feeStrategy);
+    this.safeFreezeService = new SafeFreezeService();
   }
 
   /**
-   * Deploy Safe wallets across multiple networks for a user
+   * Create the Safe record for a user and enqueue its multi-network deployment
    */
   async deploySafesForUser(
-    userInfo: IUserInfo,
+    requestUserInfo: IUserInfo,
     config: DeploymentConfig = {}
-  ): Promise<SafeDeploymentResponse> {
-    const {
-      networks = ["sepolia", "arbitrum_sepolia", "base_sepolia", "arbitrum"],
-      autoExpand = false,
-      description = "",
-      tags = [],
-    } = config;
+  ): Promise<SafeDeploymentJobResponse> {
+    const { userInfo, networks } = this.resolveAgentNetworks(
+      requestUserInfo,
+      config.networks
+    );
 
     logger.info(
-      `Deploying Safes for user ${userInfo.userId} on networks: ${networks.join(", ")}`
+      `Deploying Safes for user ${userInfo.userId} (${userInfo.agentType}) on networks: ${networks.join(", ")}`
     );
 
-    // Validate networks
-    for (const networkKey of networks) {
-      if (!isNetworkSupported(networkKey)) {
-        throw new Error(`Unsupported network: ${networkKey}`);
-      }
-    }
+    // Reject up front when a network's sponsorship budget is already used up
+    await this.spendService.assertBudgetsAvailable(
+      userInfo.userId,
+      userInfo.agentType,
+      networks
+    );
 
-    // Generate unique Salt Nonce for deterministic addresses
-    const saltNonce = this.generateSaltNonce(userInfo.userId);
+    // Safe configuration: owners, threshold and salt nonce for deterministic addresses
+    const safeConfig = await this.buildSafeConfig(userInfo, config, networks);
 
-    // Agent wallet that will co-own the Safes (selected by agentType)
-    const selectedPrivateKey = this.getAgentPrivateKey(userInfo.agentType);
-    const agentWallet = new ethers.Wallet(selectedPrivateKey);
+    // Create Safe record in database
+    const safeRecord = await this.createSafeRecord(
+      userInfo,
+      safeConfig,
+      config,
+      networks
+    );
+    const safeId = safeRecord.safeId;
 
-    // Safe configuration: User + Agent as owners
-    const owners = [userInfo.walletAddress, agentWallet.address];
-    const threshold = 1; // Either user or agent can execute transactions
+    // Store wallet address in ctxbt-signal-flow database
+    await this.storeWalletAddressInSignalFlow(userInfo);
 
-    const safeConfig: ISafeConfig = {
-      owners,
-      threshold,
-      saltNonce,
-      safeVersion: "1.4.1",
-    };
+    // Deployments run in the background; callers poll the job for progress
+    const job = await DeploymentQueue.getInstance().enqueue(
+      safeId,
+      "deploy",
+      networks
+    );
 
-    // Create Safe record in database
-    const safeId = uuidv4();
-    const safeRecord = new SafeModel({
+    return {
       safeId,
-      userInfo: {
-        ...userInfo,
-        preferences: {
-          defaultNetworks: networks,
-          autoExpand,
-          notifications: { email: true, webhook: false },
-        },
-      },
+      jobId: job.jobId,
       config: safeConfig,
-      metadata: {
-        description,
-        tags,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        totalDeployments: 0,
-        activeNetworks: [],
-        lastActivityAt: new Date(),
-      },
-    });
+      networks,
+      metadata: safeRecord.metadata,
+    };
+  }
 
-    await safeRecord.save();
-    logger.info(`Created Safe record with ID: ${safeId}`);
+  /**
+   * Predict the Safe address for a user without deploying or touching any RPC
+   * Optionally persists the Safe record as "initializing" so it can be deployed later via expand
+   */
+  async predictSafeForUser(
+    requestUserInfo: IUserInfo,
+    config: DeploymentConfig = {},
+    persist = false
+  ): Promise<SafePredictionResponse> {
+    const { userInfo, networks } = this.resolveAgentNetworks(
+      requestUserInfo,
+      config.networks
+    );
 
-    // Store wallet address in ctxbt-signal-flow database
-    await this.storeWalletAddressInSignalFlow(userInfo);
+    const safeConfig = await this.buildSafeConfig(userInfo, config, networks);
 
-    // Deploy on each network in parallel
-    const deploymentPromises = networks.map((networkKey) =>
-      this.deploySafeOnNetwork(
-        safeId,
-        networkKey,
+    // Canonical deployments give the same address on every chain; networks with
+    // their own contracts or an L1 singleton get a different one
+    const addresses = this.predictAddresses(safeConfig, networks);
+    const predictedAddress = addresses[networks[0]];
+
+    let safeId: string | undefined;
+    if (persist) {
+      const safeRecord = await this.createSafeRecord(
+        userInfo,
         safeConfig,
-        userInfo.agentType
-      )
+        config,
+        networks
+      );
+      safeId = safeRecord.safeId;
+    }
+
+    return {
+      safeId,
+      predictedAddress,
+      addresses,
+      config: safeConfig,
+      networks,
+    };
+  }
+
+  /**
+   * Rebuild missing Safe records from chain state for deterministic salts
+   * Recomputes candidate addresses for indexes [0, maxIndex) and checks which have code on each network
+   */
+  async recoverSafesForUser(
+    requestUserInfo: IUserInfo,
+    config: DeploymentConfig = {},
+    maxIndex = 5
+  ): Promise<SafeRecoveryCandidate[]> {
+    const { userInfo, networks } = this.resolveAgentNetworks(
+      requestUserInfo,
+      config.networks
     );
 
+    const agentType = normalizeAgentType(userInfo.agentType);
+    const { owners, threshold } = this.resolveSafeOwnership(userInfo, config);
+    const safeVersion = this.resolveSafeVersion(config, networks);
+    const candidates: SafeRecoveryCandidate[] = [];
+
+    for (let saltIndex = 0; saltIndex < maxIndex; saltIndex++) {
+      const safeConfig: ISafeConfig = {
+        owners,
+        threshold,
+        saltNonce: deriveDeterministicSaltNonce(
+          userInfo.userId,
+          agentType,
+          saltIndex
+        ),
+        safeVersion,
+        saltStrategy: "deterministic",
+        saltIndex,
+      };
+      const addresses = this.predictAddresses(safeConfig, networks);
+
+      // Check every network in parallel; an unreachable RPC is reported, not fatal
+      const codeChecks = await Promise.allSettled(
+        networks.map(async (networkKey) => {
+          const provider = ProviderPool.getInstance().getProvider(networkKey);
+          const code = await provider.getCode(addresses[networkKey]);
+          return code !== "0x";
+        })
+      );
+
+      const deployedOn: NetworkKey[] = [];
+      const errors: Record<string, string> = {};
+      codeChecks.forEach((check, i) => {
+        if (check.status === "fulfilled") {
+          if (check.value) deployedOn.push(networks[i]);
+        } else {
+          errors[networks[i]] = check.reason?.message || String(check.reason);
+        }
+      });
+
+      const candidate: SafeRecoveryCandidate = {
+        saltIndex,
+        address: addresses[networks[0]],
+        addresses,
+        deployedOn,
+        errors,
+        action: "not_deployed",
+      };
+
+      if (deployedOn.length > 0) {
+        let safe = await SafeModel.findOne({
+          "config.saltNonce": safeConfig.saltNonce,
+        });
+
+        if (!safe) {
+          safe = await this.createSafeRecord(
+            userInfo,
+            safeConfig,
+            config,
+            networks
+          );
+          candidate.action = "created";
+        } else {
+          candidate.action = "unchanged";
+        }
+
+        for (const networkKey of deployedOn) {
+          if (safe.isDeployedOnNetwork(networkKey)) continue;
+
+          const network = getNetwork(networkKey);
+          const address = addresses[networkKey];
+          await safe.addDeployment(networkKey, {
+            chainId: network.chainId,
+            address,
+            deploymentStatus: "deployed",
+            deploymentTimestamp: new Date(),
+            explorerUrl: `${network.explorer}/address/${address}`,
+            isActive: true,
+          });
+          if (candidate.action === "unchanged") {
+            candidate.action = "updated";
+          }
+        }
+
+        if (safe.status === "initializing") {
+          await safe.updateStatus("active");
+        }
+
+        candidate.safeId = safe.safeId;
+        logger.info(
+          `♻️  Recovered Safe ${candidate.address} (index ${saltIndex}) for user ${userInfo.userId}: ${candidate.action}`
+        );
+      }
+
+      candidates.push(candidate);
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Run a claimed deployment job: deploy every network that is not yet deployed
+   * and record the results on both the job and the Safe
+   */
+  async processDeploymentJob(job: DeploymentJob): Promise<void> {
+    const safe = await SafeModel.findOne({ safeId: job.safeId });
+    if (!safe) {
+      throw new Error(`Safe not found: ${job.safeId}`);
+    }
+
+    // Jobs queued before a key rotation would deploy the new owners at a different address
+    this.assertOwnersNotRotated(safe);
+
+    // Networks confirmed by a previous attempt are not deployed again.
+    // Every network uses the stored config (owners, threshold, salt) so the address matches.
+    const networks = job.getPendingNetworks();
+    const context: DeploymentContext = {
+      userId: safe.userInfo.userId,
+      agentType: safe.userInfo?.agentType,
+    };
+
+    const deploymentPromises = networks.map(async (networkKey) => {
+      await this.recordJobProgress(job, networkKey, {
+        status: "running",
+        startedAt: new Date(),
+        error: undefined,
+      });
+
+      try {
+        const result = await this.deploySafeOnNetwork(
+          job.safeId,
+          networkKey,
+          safe.config,
+          {
+            ...context,
+            onTransactionAttempt: (transactionAttempts) =>
+              this.recordJobProgress(job, networkKey, { transactionAttempts }),
+          }
+        );
+        await this.recordJobProgress(job, networkKey, {
+          status: "deployed",
+          address: result.address,
+          deploymentTxHash: result.deploymentTxHash,
+          completedAt: new Date(),
+        });
+        return result;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        await this.recordJobProgress(job, networkKey, {
+          status: "failed",
+          error: errorMessage,
+          completedAt: new Date(),
+        });
+        throw error;
+      }
+    });
+
     const results = await Promise.allSettled(deploymentPromises);
 
     // Process deployment results
@@ -226,27 +446,26 @@ class SafeService {
           `✅ Safe deployed on ${networkKey}: ${result.value.address}`
         );
       } else {
-        deploymentResults[networkKey] = {
-          networkKey,
-          chainId: getNetwork(networkKey).chainId,
-          address: "",
-          deploymentTimestamp: new Date(),
-          deploymentStatus: "failed",
-          error: result.reason.message,
-        };
         logger.error(
           `❌ Safe deployment failed on ${networkKey}: ${result.reason.message}`
         );
+        const failed = this.toFailedDeployment(
+          safe.config,
+          job.networks[networkKey]
+        );
+        if (failed) {
+          deploymentResults[networkKey] = failed;
+        }
       }
     }
 
     // Update Safe record with deployment results
-    await this.updateSafeDeployments(safeId, deploymentResults);
+    await this.updateSafeDeployments(job.safeId, deploymentResults);
 
     // Check if all deployed addresses are the same (deterministic)
-    const deployedAddresses = Object.values(deploymentResults)
-      .filter((r) => r.deploymentStatus === "deployed")
-      .map((r) => r.address);
+    const deployedAddresses = Object.values(job.networks)
+      .filter((p) => p.status === "deployed" && p.address)
+      .map((p) => p.address);
 
     const uniqueAddresses = [...new Set(deployedAddresses)];
 
@@ -257,17 +476,64 @@ class SafeService {
     } else if (uniqueAddresses.length > 1) {
       logger.warn(`⚠️  Different addresses across networks:`, uniqueAddresses);
     }
+  }
 
-    // Get updated Safe record
-    const updatedSafe = await SafeModel.findOne({ safeId });
+  /**
+   * Get deployer spend report
+   */
+  async getSpendReport(filters: SpendFilter = {}): Promise<SpendReport> {
+    return await this.spendService.getSpendReport(filters);
+  }
+
+  /**
+   * Get a deployment job by ID
+   */
+  async getDeploymentJob(jobId: string): Promise<DeploymentJob> {
+    const job = await DeploymentQueue.getInstance().getJob(jobId);
+    if (!job) {
+      throw new Error(`Deployment job not found: ${jobId}`);
+    }
+    return job;
+  }
 
+  /**
+   * Failed deployment to store on the Safe when transactions were sent, so their
+   * attempts stay on the deployment record; null when nothing reached the chain
+   */
+  private toFailedDeployment(
+    safeConfig: ISafeConfig,
+    progress: INetworkProgress
+  ): DeploymentResult | null {
+    const network = getNetwork(progress.networkKey);
+    const address = computeSafeAddressOnNetwork(safeConfig, network);
+    if (!progress.transactionAttempts?.length || !address) {
+      return null;
+    }
     return {
-      safeId,
-      config: safeConfig,
-      deployments: deploymentResults,
-      commonAddress: this.getCommonAddress(deploymentResults),
-      metadata: updatedSafe?.metadata,
+      networkKey: progress.networkKey,
+      chainId: network.chainId,
+      address,
+      deploymentTimestamp: new Date(),
+      transactionAttempts: progress.transactionAttempts,
+      deploymentStatus: "failed",
+      error: progress.error,
+    };
+  }
+
+  /**
+   * Keep the in-memory job in sync with the persisted per-network progress
+   */
+  private async recordJobProgress(
+    job: DeploymentJob,
+    networkKey: NetworkKey,
+    progress: Partial<INetworkProgress>
+  ): Promise<void> {
+    job.networks[networkKey] = {
+      ...job.networks[networkKey],
+      ...progress,
+      networkKey,
     };
+    await DeploymentJob.updateNetworkProgress(job.jobId, networkKey, progress);
   }
 
   /**
@@ -277,32 +543,25 @@ class SafeService {
     safeId: string,
     networkKey: NetworkKey,
     safeConfig: ISafeConfig,
-    agentType?: string
+    context: DeploymentContext
   ): Promise<DeploymentResult> {
-    const cacheKey = `deployment:${safeId}:${networkKey}`;
-
-    // Check if deployment is already in progress
-    if (this.deploymentQueue.has(cacheKey)) {
-      throw new Error(`Deployment already in progress for ${networkKey}`);
-    }
-
-    this.deploymentQueue.set(cacheKey, true);
+    const { agentType } = context;
 
     try {
       const network = getNetwork(networkKey);
       logger.info(`Deploying Safe on ${network.name} (${networkKey})`);
 
-      // Resolve private key for this operation
-      const privateKey = this.getAgentPrivateKey(agentType);
+      // Shared provider with failover across the network's RPC endpoints
+      const provider = ProviderPool.getInstance().getProvider(networkKey);
 
-      // Create provider and deployer wallet
-      const provider = new ethers.JsonRpcProvider(network.rpc);
-      const deployerWallet = new ethers.Wallet(privateKey, provider);
+      // Agent signer for this operation (env key, keystore or remote signer)
+      const deployer = (
+        await SignerRegistry.getInstance().getSigner(agentType)
+      ).connect(provider);
+      const deployerAddress = await deployer.getAddress();
 
       // Check deployer balance
-      const balance = await deployerWallet.provider!.getBalance(
-        deployerWallet.address
-      );
+      const balance = await provider.getBalance(deployerAddress);
       logger.info(
         `Deployer balance on ${network.name}: ${ethers.formatEther(balance)} ${network.currency.symbol}`
       );
@@ -313,6 +572,16 @@ class SafeService {
         );
       }
 
+      // The Safe's version and this network's contract set (canonical unless overridden)
+      const { safeVersion, contracts, isL1SafeSingleton } =
+        resolveSafeContracts(network, safeConfig.safeVersion);
+      await this.assertSafeContractsDeployed(
+        provider,
+        network,
+        safeVersion,
+        contracts
+      );
+
       // Initialize Safe Protocol Kit with explicit contract addresses for deterministic addresses across all networks
       const safeAccountConfig = {
         owners: safeConfig.owners,
@@ -321,46 +590,29 @@ class SafeService {
 
       const safeDeploymentConfig = {
         saltNonce: safeConfig.saltNonce,
+        safeVersion,
       };
 
       let protocolKit: Safe;
 
       try {
         logger.info(
-          `🔍 Initializing Safe SDK for ${network.name} with Safe v1.4.1 canonical addresses`
+          `🔍 Initializing Safe SDK for ${network.name} with Safe v${safeVersion} (${isL1SafeSingleton ? "L1" : "L2"} singleton)`
         );
 
         protocolKit = await Safe.init({
-          provider: network.rpc,
-          signer: privateKey,
+          // Deployment is sent by the deployer signer: protocol-kit only builds it
+          provider: ProviderPool.getInstance().getRpcUrl(networkKey),
           predictedSafe: {
             safeAccountConfig,
             safeDeploymentConfig,
           },
-          isL1SafeSingleton: false,
-          // canonical addresses for consistent deployment across all networks
-          contractNetworks: {
-            [network.chainId]: {
-              // safeSingletonAddress:
-              //   "0x41675C099F32341bf84BFc5382aF534df5C7461a",
-              safeSingletonAddress:
-                "0x29fcB43b46531BcA003ddC8FCB67FFE91900C762",
-              safeProxyFactoryAddress:
-                "0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67",
-              multiSendAddress: "0x38869bf66a61cF6bDB996A6aE40D5853Fd43B526",
-              multiSendCallOnlyAddress:
-                "0x9641d764fc13c8B624c04430C7356C1C7C8102e2",
-              fallbackHandlerAddress:
-                "0xfd0732Dc9E303f09fCEf3a7388Ad10A83459Ec99",
-              signMessageLibAddress:
-                "0xd53cd0aB83D845Ac265BE939c57F53AD838012c9",
-              createCallAddress: "0x9b35Af71d77eaf8d7e40252370304687390A1A52",
-            },
-          },
+          isL1SafeSingleton,
+          contractNetworks: getContractNetworks(network.chainId, contracts),
         });
 
         logger.info(
-          `✅ Safe SDK initialized successfully for ${network.name} using Safe v1.4.1`
+          `✅ Safe SDK initialized successfully for ${network.name} using Safe v${safeVersion}`
         );
       } catch (error) {
         logger.error(
@@ -378,6 +630,13 @@ class SafeService {
       const predictedAddress = await protocolKit.getAddress();
       logger.info(`Predicted Safe address: ${predictedAddress}`);
 
+      const offlineAddress = computeSafeAddressOnNetwork(safeConfig, network);
+      if (offlineAddress && offlineAddress !== predictedAddress) {
+        logger.warn(
+          `⚠️  Offline address prediction differs from SDK on ${network.name}: ${offlineAddress} vs ${predictedAddress}`
+        );
+      }
+
       // Check if already deployed
       const isAlreadyDeployed = await protocolKit.isSafeDeployed();
 
@@ -400,7 +659,7 @@ class SafeService {
       const deploymentTx = await protocolKit.createSafeDeploymentTransaction();
 
       // Estimate gas
-      const gasEstimate = await deployerWallet.estimateGas({
+      const gasEstimate = await deployer.estimateGas({
         to: deploymentTx.to,
         data: deploymentTx.data,
         value: deploymentTx.value,
@@ -408,21 +667,68 @@ class SafeService {
 
       logger.info(`Estimated gas: ${gasEstimate.toString()}`);
 
-      // Send transaction
-      const txResponse = await deployerWallet.sendTransaction({
-        to: deploymentTx.to,
-        data: deploymentTx.data,
-        value: deploymentTx.value,
-        gasLimit: gasEstimate,
-      });
+      // Fees from recent blocks within the network's bounds; throws when the network fee is above max
+      const feeQuote = await this.feeStrategy.quote(networkKey, gasEstimate);
+      logger.info(
+        `Fee quote on ${network.name}: ${feeQuote.type}, gas limit ${feeQuote.gasLimit}, max cost ${ethers.formatEther(feeQuote.estimatedCostWei)} ${network.currency.symbol}`
+      );
+
+      // Fail fast before sending if the deployment cannot be paid for or is over budget
+      const estimatedCost = BigInt(feeQuote.estimatedCostWei);
 
-      logger.info(`Transaction sent: ${txResponse.hash}`);
+      if (balance < estimatedCost) {
+        throw new Error(
+          `Insufficient ${network.currency.symbol} balance on ${network.name} for deployment: have ${ethers.formatEther(balance)}, need ~${ethers.formatEther(estimatedCost)}`
+        );
+      }
+
+      // Held until the transaction settles so concurrent deployments share the budget;
+      // fee bumps of replacements may cost more than the quote
+      const reservation = await this.spendService.reserveBudget({
+        userId: context.userId,
+        agentType,
+        networkKey,
+        estimatedCostWei: estimatedCost,
+        maxCostWei: this.transactionMonitor.getMaxCostWei(networkKey, feeQuote),
+      });
 
-      // Wait for confirmation
-      const receipt = await txResponse.wait();
-      if (!receipt) {
-        throw new Error("Transaction receipt not found");
+      // Send and wait; a stuck transaction is replaced with higher fees, then cancelled
+      let sent: MonitoredTransactionResult;
+      try {
+        sent = await this.transactionMonitor.sendAndWait({
+          networkKey,
+          signer: deployer,
+          transaction: {
+            to: deploymentTx.to,
+            data: deploymentTx.data,
+            value: deploymentTx.value,
+          },
+          feeQuote,
+          onAttempt: context.onTransactionAttempt,
+          // Reverted deployments and cancellations are paid for as well; a ledger
+          // write failure is logged and does not change the deployment's outcome
+          onMined: (receipt, attempt) =>
+            this.spendService.recordDeploymentSpend({
+              safeId,
+              userId: context.userId,
+              agentType,
+              networkKey,
+              deployerAddress,
+              txHash: receipt.hash,
+              gasUsed: receipt.gasUsed,
+              gasPrice: receipt.gasPrice,
+              outcome:
+                attempt.kind === "cancellation"
+                  ? "cancelled"
+                  : receipt.status === 0
+                    ? "reverted"
+                    : "deployed",
+            }),
+        });
+      } finally {
+        await reservation.release();
       }
+      const { receipt, attempts } = sent;
 
       logger.info(`Transaction confirmed in block ${receipt.blockNumber}`);
 
@@ -441,14 +747,54 @@ class SafeService {
         deploymentTimestamp: new Date(),
         gasUsed: receipt.gasUsed.toString(),
         gasPrice: receipt.gasPrice?.toString(),
+        actualCostWei: receipt.fee.toString(),
+        feeQuote,
+        transactionAttempts: attempts,
         deploymentStatus: "deployed",
         explorerUrl: `${network.explorer}/address/${predictedAddress}`,
       };
     } catch (error) {
       logger.error(`Safe deployment failed on ${networkKey}:`, error);
       throw error;
-    } finally {
-      this.deploymentQueue.delete(cacheKey);
+    }
+  }
+
+  /**
+   * Fail when a key rotation changed the owners the Safe was deployed with
+   */
+  private assertOwnersNotRotated(safe: SafeModel): void {
+    if (safe.hasRotatedOwners()) {
+      throw new Error(
+        `Safe ${safe.safeId} cannot be deployed to new networks: its owners were rotated, so a deployment at the same address would list the rotated-out key`
+      );
+    }
+  }
+
+  /**
+   * Fail before deploying when the singleton or proxy factory has no code on the chain
+   */
+  private async assertSafeContractsDeployed(
+    provider: ethers.Provider,
+    network: NetworkConfig,
+    safeVersion: SafeVersion,
+    contracts: SafeContractSet
+  ): Promise<void> {
+    const required = {
+      singleton: contracts.safeSingletonAddress,
+      "proxy factory": contracts.safeProxyFactoryAddress,
+    };
+
+    const missing: string[] = [];
+    for (const [name, address] of Object.entries(required)) {
+      if ((await provider.getCode(address)) === "0x") {
+        missing.push(`${name} ${address}`);
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new Error(
+        `Safe v${safeVersion} contracts are not deployed on ${network.name}: missing ${missing.join(", ")}`
+      );
     }
   }
 
@@ -458,11 +804,25 @@ class SafeService {
   async expandSafeToNetworks(
     safeId: string,
     newNetworks: NetworkKey[]
-  ): Promise<SafeDeploymentResponse> {
+  ): Promise<SafeDeploymentJobResponse> {
     const safe = await SafeModel.findOne({ safeId });
     if (!safe) {
       throw new Error(`Safe not found: ${safeId}`);
     }
+    // New deployments would list the agent as owner again
+    if (safe.status === "suspended" || safe.isFreezeInProgress()) {
+      throw new Error(
+        `Safe ${safeId} is frozen or being frozen; unfreeze it before expanding`
+      );
+    }
+    this.assertOwnersNotRotated(safe);
+
+    for (const networkKey of newNetworks) {
+      if (!isNetworkSupported(networkKey)) {
+        throw new Error(`Unsupported network: ${networkKey}`);
+      }
+    }
+    assertAgentTypeNetworks(getAgentType(safe.userInfo.agentType), newNetworks);
 
     // Filter out networks where Safe is already deployed
     const networksToExpand = newNetworks.filter(
@@ -473,57 +833,24 @@ class SafeService {
       throw new Error("Safe already deployed on all specified networks");
     }
 
-    // Deploy on new networks (preserve the original agentType used during creation if present)
-    const agentType = safe.userInfo?.agentType;
-    const deploymentPromises = networksToExpand.map((networkKey) =>
-      this.deploySafeOnNetwork(safeId, networkKey, safe.config, agentType)
+    await this.spendService.assertBudgetsAvailable(
+      safe.userInfo.userId,
+      safe.userInfo.agentType,
+      networksToExpand
     );
 
-    const results = await Promise.allSettled(deploymentPromises);
-
-    // Process results
-    const newDeployments: Record<string, DeploymentResult> = {};
-    let hasSuccessfulDeployment = false;
-
-    for (let i = 0; i < results.length; i++) {
-      const networkKey = networksToExpand[i];
-      const result = results[i];
-
-      if (result.status === "fulfilled") {
-        newDeployments[networkKey] = result.value;
-        if (result.value.deploymentStatus === "deployed") {
-          await safe.addDeployment(networkKey, result.value);
-          hasSuccessfulDeployment = true;
-          logger.info(
-            `✅ Added expansion deployment for ${networkKey}: ${result.value.address}`
-          );
-        }
-      } else {
-        newDeployments[networkKey] = {
-          networkKey,
-          chainId: getNetwork(networkKey).chainId,
-          address: "",
-          deploymentTimestamp: new Date(),
-          deploymentStatus: "failed",
-          error: result.reason.message,
-        };
-      }
-    }
-
-    // Update Safe status to "active" if at least one deployment is successful
-    if (hasSuccessfulDeployment && safe.status === "initializing") {
-      safe.status = "active";
-      await safe.save();
-      logger.info(
-        `🎉 Safe status updated to "active" during expansion - Safe ID: ${safeId}`
-      );
-    }
+    // The job worker reuses the stored config (and agentType) so addresses stay deterministic
+    const job = await DeploymentQueue.getInstance().enqueue(
+      safeId,
+      "expand",
+      networksToExpand
+    );
 
     return {
       safeId,
+      jobId: job.jobId,
       config: safe.config,
-      deployments: newDeployments,
-      commonAddress: this.getCommonAddress(newDeployments),
+      networks: networksToExpand,
       metadata: safe.metadata,
     };
   }
@@ -620,6 +947,8 @@ class SafeService {
 
   /**
    * Update Safe status manually
+   * Suspending freezes the Safe on-chain and reactivating a suspended Safe unfreezes it;
+   * the status then changes once the owner changes are confirmed
    */
   async updateSafeStatus(
     safeId: string,
@@ -630,6 +959,13 @@ class SafeService {
       throw new Error(`Safe not found: ${safeId}`);
     }
 
+    if (newStatus === "suspended") {
+      return await this.safeFreezeService.freeze(safeId);
+    }
+    if (newStatus === "active" && safe.status === "suspended") {
+      return await this.safeFreezeService.unfreeze(safeId);
+    }
+
     const oldStatus = safe.status;
     await safe.updateStatus(newStatus);
 
@@ -659,6 +995,12 @@ class SafeService {
         await safe.addDeployment(networkKey, result);
         hasSuccessfulDeployment = true;
         logger.info(`✅ Added deployment for ${networkKey}: ${result.address}`);
+      } else if (
+        result.deploymentStatus === "failed" &&
+        !safe.isDeployedOnNetwork(networkKey)
+      ) {
+        // Kept for its transaction attempts; a later successful attempt replaces it
+        await safe.addDeployment(networkKey, { ...result, isActive: false });
       }
     }
 
@@ -673,43 +1015,231 @@ class SafeService {
   }
 
   /**
-   * Generate salt nonce for deterministic addresses
+   * Resolve the request's agentType (canonical name stored on the Safe) and the
+   * networks to use: the type's defaults unless given, all supported and allowed
    */
-  private generateSaltNonce(userId: string): string {
-    const timestamp = Date.now().toString();
-    const random = Math.random().toString(36).substring(2);
-    return ethers.keccak256(
-      ethers.toUtf8Bytes(`${userId}-${timestamp}-${random}`)
-    );
+  private resolveAgentNetworks(
+    userInfo: IUserInfo,
+    networks?: NetworkKey[]
+  ): { userInfo: IUserInfo; networks: NetworkKey[] } {
+    const agentType = getAgentType(userInfo.agentType);
+    const resolved =
+      networks && networks.length > 0 ? networks : agentType.defaultNetworks;
+
+    for (const networkKey of resolved) {
+      if (!isNetworkSupported(networkKey)) {
+        throw new Error(`Unsupported network: ${networkKey}`);
+      }
+    }
+    assertAgentTypeNetworks(agentType, resolved);
+
+    return {
+      userInfo: { ...userInfo, agentType: agentType.name },
+      networks: resolved,
+    };
   }
 
   /**
-   * Get common address from deployments
-   * With deterministic deployment, all successful deployments should have the same address
+   * Persist a new Safe record in "initializing" state with no deployments
    */
-  private getCommonAddress(
-    deployments: Record<string, DeploymentResult>
-  ): string | undefined {
-    const successfulDeployments = Object.values(deployments).filter(
-      (d) => d.deploymentStatus === "deployed"
-    );
+  private async createSafeRecord(
+    userInfo: IUserInfo,
+    safeConfig: ISafeConfig,
+    config: DeploymentConfig,
+    networks: NetworkKey[]
+  ): Promise<SafeModel> {
+    const { autoExpand = false, description = "", tags = [] } = config;
+    const { defaultTags } = getAgentType(userInfo.agentType);
 
-    if (successfulDeployments.length === 0) {
-      return undefined;
+    const safeId = uuidv4();
+    const safeRecord = new SafeModel({
+      safeId,
+      userInfo: {
+        ...userInfo,
+        preferences: {
+          defaultNetworks: networks,
+          autoExpand,
+          notifications: { email: true, webhook: false },
+        },
+      },
+      config: safeConfig,
+      metadata: {
+        description,
+        tags: [...new Set([...defaultTags, ...tags])],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        totalDeployments: 0,
+        activeNetworks: [],
+        lastActivityAt: new Date(),
+      },
+    });
+
+    await safeRecord.save();
+    logger.info(`Created Safe record with ID: ${safeId}`);
+
+    return safeRecord;
+  }
+
+  /**
+   * Build the full Safe config (owners, threshold, salt) for a new Safe
+   */
+  private async buildSafeConfig(
+    userInfo: IUserInfo,
+    config: DeploymentConfig,
+    networks: NetworkKey[]
+  ): Promise<ISafeConfig> {
+    const { owners, threshold } = this.resolveSafeOwnership(userInfo, config);
+    const { saltStrategy = "random" } = config;
+    const safeVersion = this.resolveSafeVersion(config, networks);
+
+    if (saltStrategy === "deterministic") {
+      const agentType = normalizeAgentType(userInfo.agentType);
+      const saltIndex =
+        config.saltIndex ??
+        (await this.getNextSaltIndex(userInfo.userId, agentType));
+      const saltNonce = deriveDeterministicSaltNonce(
+        userInfo.userId,
+        agentType,
+        saltIndex
+      );
+
+      const existing = await SafeModel.findOne({
+        "config.saltNonce": saltNonce,
+      });
+      if (existing) {
+        throw new Error(
+          `Salt index ${saltIndex} is already used by Safe ${existing.safeId}`
+        );
+      }
+
+      return {
+        owners,
+        threshold,
+        saltNonce,
+        safeVersion,
+        saltStrategy,
+        saltIndex,
+      };
     }
 
-    const addresses = successfulDeployments.map((d) => d.address);
-    const uniqueAddresses = [...new Set(addresses)];
+    return {
+      owners,
+      threshold,
+      saltNonce: this.generateSaltNonce(userInfo.userId),
+      safeVersion,
+      saltStrategy,
+    };
+  }
+
+  /**
+   * Safe version for a new Safe: the requested one, else the networks' common default
+   * A Safe keeps one version everywhere so it can be expanded to more networks later
+   */
+  private resolveSafeVersion(
+    config: DeploymentConfig,
+    networks: NetworkKey[]
+  ): SafeVersion {
+    if (config.safeVersion) {
+      // Validates the version and every network's contract set for it
+      for (const networkKey of networks) {
+        resolveSafeContracts(getNetwork(networkKey), config.safeVersion);
+      }
+      return config.safeVersion;
+    }
 
-    // All addresses should be the same with deterministic deployment
-    if (uniqueAddresses.length > 1) {
-      logger.warn(
-        `⚠️  Multiple Safe addresses detected - deterministic deployment may have failed:`,
-        uniqueAddresses
+    const versions = [
+      ...new Set(networks.map((key) => getNetwork(key).safeVersion)),
+    ];
+    if (versions.length > 1) {
+      throw new Error(
+        `Networks default to different Safe versions (${versions.join(", ")}); set config.safeVersion`
+      );
+    }
+    return versions[0] || DEFAULT_SAFE_VERSION;
+  }
+
+  /**
+   * Offline Safe address per network for a Safe config
+   */
+  private predictAddresses(
+    safeConfig: ISafeConfig,
+    networks: NetworkKey[]
+  ): Record<string, string> {
+    const addresses: Record<string, string> = {};
+    for (const networkKey of networks) {
+      const address = computeSafeAddressOnNetwork(
+        safeConfig,
+        getNetwork(networkKey)
       );
+      if (!address) {
+        throw new Error(
+          `Offline address prediction is not supported on ${networkKey}`
+        );
+      }
+      addresses[networkKey] = address;
     }
+    return addresses;
+  }
+
+  /**
+   * Next unused deterministic salt index for a user and agentType
+   */
+  private async getNextSaltIndex(
+    userId: string,
+    agentType: string
+  ): Promise<number> {
+    const safes = await SafeModel.find({
+      "userInfo.userId": userId,
+      "config.saltStrategy": "deterministic",
+    });
+
+    const usedIndexes = safes
+      .filter(
+        (safe) => normalizeAgentType(safe.userInfo.agentType) === agentType
+      )
+      .map((safe) => safe.config.saltIndex ?? -1);
 
-    return addresses[0];
+    return usedIndexes.length > 0 ? Math.max(...usedIndexes) + 1 : 0;
+  }
+
+  /**
+   * Resolve owners and threshold for a new Safe from the deployment config
+   * Defaults keep the legacy 1-of-2 user + agent setup
+   */
+  private resolveSafeOwnership(
+    userInfo: IUserInfo,
+    config: DeploymentConfig
+  ): Pick<ISafeConfig, "owners" | "threshold"> {
+    const {
+      owners: extraOwners = [],
+      threshold = 1,
+      includeAgent = true,
+    } = config;
+
+    // Agent wallet that co-owns the Safes (selected by agentType)
+    const agentAddress = includeAgent
+      ? getAgentAddress(userInfo.agentType)
+      : undefined;
+
+    const owners = buildSafeOwners(
+      userInfo.walletAddress,
+      extraOwners,
+      agentAddress
+    );
+    validateSafeOwners(owners, threshold);
+
+    return { owners, threshold };
+  }
+
+  /**
+   * Generate salt nonce for deterministic addresses
+   */
+  private generateSaltNonce(userId: string): string {
+    const timestamp = Date.now().toString();
+    const random = Math.random().toString(36).substring(2);
+    return ethers.keccak256(
+      ethers.toUtf8Bytes(`${userId}-${timestamp}-${random}`)
+    );
   }
 
   /**
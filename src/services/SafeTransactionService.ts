@@ -0,0 +1,622 @@
+import Safe, { EthSafeSignature } from "@safe-global/protocol-kit";
+import { ethers } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+import { Safe as SafeModel, ISafeDeployment } from "../models/Safe.js";
+import {
+  SafeTransaction,
+  ISafeTransactionCall,
+  ISafeTransactionSignature,
+  SafeTransactionQuery,
+} from "../models/SafeTransaction.js";
+import {
+  getNetwork,
+  isNetworkSupported,
+  NetworkKey,
+} from "../config/networks.js";
+import {
+  getContractNetworks,
+  resolveSafeContracts,
+} from "../config/safeContracts.js";
+import { toEip1193Provider } from "../utils/eip1193Provider.js";
+import logger from "../config/logger.js";
+import ProviderPool from "./ProviderPool.js";
+import NonceManager from "./NonceManager.js";
+import SignerRegistry from "./SignerRegistry.js";
+import SafePolicyService from "./SafePolicyService.js";
+
+export interface SafeCallRequest extends Partial<ISafeTransactionCall> {
+  to: string;
+}
+
+export interface SafeTransactionRequest extends SafeCallRequest {
+  networkKey: NetworkKey;
+}
+
+export interface SafeBatchRequest {
+  networkKey: NetworkKey;
+  calls: SafeCallRequest[];
+  dryRun?: boolean;
+}
+
+// For owner changes made by the service itself (freeze, key rotation)
+export interface ProposeOptions {
+  allowSuspended?: boolean; // Freeze and unfreeze changes are the only transactions of a suspended Safe
+  enforcePolicy?: boolean; // Defaults to true
+}
+
+export interface SafeTransactionPreview {
+  safeId: string;
+  safeAddress: string;
+  networkKey: NetworkKey;
+  chainId: number;
+  to: string;
+  value: string;
+  data: string;
+  operation: number;
+  nonce: number;
+  safeTxHash: string;
+  threshold: number;
+  calls: ISafeTransactionCall[];
+}
+
+const MAX_BATCH_CALLS = 50;
+
+// How long an execution waits for its receipt before the transaction is left to a retry
+const RECEIPT_TIMEOUT_MS = parseInt(
+  process.env.SAFE_TX_RECEIPT_TIMEOUT_MS || "300000"
+);
+
+// An execution claim older than this belongs to a process that died; the wait for the
+// receipt is its longest step
+const EXECUTION_LEASE_MS = RECEIPT_TIMEOUT_MS + 120000;
+
+// Safe emits ExecutionFailure instead of reverting when the inner call fails
+const EXECUTION_FAILURE_TOPIC = ethers.id("ExecutionFailure(bytes32,uint256)");
+
+/**
+ * SafeTransactionService - Builds, collects signatures for and executes Safe transactions
+ * The agent signs when it is an owner; other owners add EIP-712 signatures until the threshold is met
+ */
+class SafeTransactionService {
+  private policyService = new SafePolicyService();
+
+  /**
+   * Build a Safe transaction, sign it with the agent key and execute it once the threshold is met
+   * Safes with a threshold above 1 stay pending until enough owners have signed
+   */
+  async proposeTransaction(
+    safeId: string,
+    request: SafeTransactionRequest,
+    options: ProposeOptions = {}
+  ): Promise<SafeTransaction> {
+    const { networkKey, ...call } = request;
+    return (await this.propose(
+      safeId,
+      networkKey,
+      [call],
+      false,
+      options
+    )) as SafeTransaction;
+  }
+
+  /**
+   * Encode several calls into one MultiSend Safe transaction so they execute atomically
+   * With dryRun the encoded payload and safeTxHash are returned without signing or storing
+   */
+  async proposeBatch(
+    safeId: string,
+    request: SafeBatchRequest
+  ): Promise<SafeTransaction | SafeTransactionPreview> {
+    const { networkKey, calls, dryRun = false } = request;
+    if (!calls || calls.length === 0) {
+      throw new Error("Batch requires at least one call");
+    }
+    if (calls.length > MAX_BATCH_CALLS) {
+      throw new Error(`Batch exceeds the maximum of ${MAX_BATCH_CALLS} calls`);
+    }
+    return await this.propose(safeId, networkKey, calls, dryRun);
+  }
+
+  private async propose(
+    safeId: string,
+    networkKey: NetworkKey,
+    requestedCalls: SafeCallRequest[],
+    dryRun: boolean,
+    options: ProposeOptions = {}
+  ): Promise<SafeTransaction | SafeTransactionPreview> {
+    const { allowSuspended = false, enforcePolicy = true } = options;
+    const safe = await this.getActiveSafe(safeId, { allowSuspended });
+    const deployment = this.getDeployment(safe, networkKey);
+    const network = getNetwork(networkKey);
+
+    const { protocolKit, agentAddress } = await this.initProtocolKit(
+      safe,
+      deployment
+    );
+
+    const [owners, threshold] = await Promise.all([
+      protocolKit.getOwners(),
+      protocolKit.getThreshold(),
+    ]);
+    const agentIsOwner = owners.some(
+      (o) => o.toLowerCase() === agentAddress.toLowerCase()
+    );
+
+    const calls: ISafeTransactionCall[] = requestedCalls.map((call) => ({
+      to: ethers.getAddress(call.to),
+      value: call.value || "0",
+      data: call.data || "0x",
+      operation: call.operation || 0,
+    }));
+    const isBatch = calls.length > 1;
+
+    // The agent signs only what the Safe's policy allows
+    if (agentIsOwner && !dryRun && enforcePolicy) {
+      await this.policyService.enforce(safe, networkKey, calls);
+    }
+
+    // Several calls are wrapped in a MultiSend delegatecall; MultiSendCallOnly
+    // is used unless a call itself needs delegatecall
+    const safeTx = await protocolKit.createTransaction({
+      transactions: calls,
+      onlyCalls: calls.every((call) => call.operation === 0),
+    });
+    const safeTxHash = await protocolKit.getTransactionHash(safeTx);
+
+    if (dryRun) {
+      return {
+        safeId,
+        safeAddress: deployment.address,
+        networkKey,
+        chainId: network.chainId,
+        to: safeTx.data.to,
+        value: safeTx.data.value,
+        data: safeTx.data.data,
+        operation: Number(safeTx.data.operation),
+        nonce: Number(safeTx.data.nonce),
+        safeTxHash,
+        threshold,
+        calls,
+      };
+    }
+
+    const signatures: ISafeTransactionSignature[] = [];
+    if (agentIsOwner) {
+      const signedTx = await protocolKit.signTransaction(safeTx);
+      const agentSignature = signedTx.getSignature(agentAddress);
+      if (agentSignature) {
+        signatures.push({
+          signer: agentAddress,
+          signature: agentSignature.data,
+          submittedAt: new Date(),
+        });
+      }
+    }
+
+    const record = new SafeTransaction({
+      transactionId: uuidv4(),
+      safeId,
+      safeAddress: deployment.address,
+      networkKey,
+      chainId: network.chainId,
+      to: safeTx.data.to,
+      value: safeTx.data.value,
+      data: safeTx.data.data,
+      operation: Number(safeTx.data.operation),
+      calls: isBatch ? calls : undefined,
+      safeTxGas: safeTx.data.safeTxGas,
+      baseGas: safeTx.data.baseGas,
+      gasPrice: safeTx.data.gasPrice,
+      gasToken: safeTx.data.gasToken,
+      refundReceiver: safeTx.data.refundReceiver,
+      safeTxHash,
+      nonce: Number(safeTx.data.nonce),
+      threshold,
+      signatures,
+      status: "pending",
+      proposedBy: agentAddress,
+    });
+    await record.save();
+
+    logger.info(
+      `📝 Proposed ${isBatch ? `batch of ${calls.length} calls` : "Safe transaction"} ${safeTxHash} on ${network.name} for Safe ${safeId} (${signatures.length}/${threshold} signatures)`
+    );
+
+    if (!record.hasEnoughSignatures()) {
+      return record;
+    }
+    return await this.executeIfReady(safe, record.safeTxHash);
+  }
+
+  /**
+   * Add an owner's EIP-712 signature to a pending transaction
+   * Executes the transaction when this signature completes the threshold
+   */
+  async addSignature(
+    safeId: string,
+    safeTxHash: string,
+    signature: string,
+    expectedSigner?: string
+  ): Promise<SafeTransaction> {
+    const safe = await this.getActiveSafe(safeId, { safeTxHash });
+    const record = await this.getTransaction(safeId, safeTxHash);
+
+    if (record.status !== "pending") {
+      throw new Error(
+        `Safe transaction ${safeTxHash} is ${record.status}; signatures are no longer accepted`
+      );
+    }
+
+    // safeTxHash is the EIP-712 digest, so an EIP-712 signature recovers against it directly
+    let normalizedSignature: string;
+    let signer: string;
+    try {
+      normalizedSignature = ethers.Signature.from(signature).serialized;
+      signer = ethers.recoverAddress(record.safeTxHash, normalizedSignature);
+    } catch {
+      throw new Error("Invalid signature: could not recover signer");
+    }
+
+    if (
+      expectedSigner &&
+      expectedSigner.toLowerCase() !== signer.toLowerCase()
+    ) {
+      throw new Error(
+        `Invalid signature: recovered signer ${signer} does not match ${expectedSigner}`
+      );
+    }
+    if (
+      !safe.config.owners.some((o) => o.toLowerCase() === signer.toLowerCase())
+    ) {
+      throw new Error(`Invalid signature: ${signer} is not a Safe owner`);
+    }
+    if (record.hasSignatureFrom(signer)) {
+      throw new Error(`Owner ${signer} already signed ${safeTxHash}`);
+    }
+
+    const updated = await SafeTransaction.addSignature(
+      safeId,
+      record.safeTxHash,
+      { signer, signature: normalizedSignature, submittedAt: new Date() }
+    );
+    if (!updated) {
+      // Lost a race with another signature or the execution itself
+      throw new Error(
+        `Owner ${signer} already signed ${safeTxHash} or it is no longer pending`
+      );
+    }
+
+    logger.info(
+      `✍️  Signature from ${signer} added to ${safeTxHash} (${updated.signatures.length}/${updated.threshold})`
+    );
+
+    if (!updated.hasEnoughSignatures()) {
+      return updated;
+    }
+    return await this.executeIfReady(safe, updated.safeTxHash);
+  }
+
+  /**
+   * List transactions recorded for a Safe
+   */
+  async getTransactions(
+    safeId: string,
+    options: SafeTransactionQuery = {}
+  ): Promise<SafeTransaction[]> {
+    return await SafeTransaction.findBySafeId(safeId, options);
+  }
+
+  /**
+   * Get a recorded transaction by its safeTxHash
+   */
+  async getTransaction(
+    safeId: string,
+    safeTxHash: string
+  ): Promise<SafeTransaction> {
+    const transaction = await SafeTransaction.findBySafeTxHash(
+      safeId,
+      safeTxHash
+    );
+    if (!transaction) {
+      throw new Error(`Safe transaction not found: ${safeTxHash}`);
+    }
+    return transaction;
+  }
+
+  /**
+   * Execute a fully signed transaction that is still pending, e.g. after its
+   * receipt did not arrive in time
+   */
+  async executeTransaction(
+    safeId: string,
+    safeTxHash: string
+  ): Promise<SafeTransaction> {
+    const safe = await this.getActiveSafe(safeId, { safeTxHash });
+    const record = await this.getTransaction(safeId, safeTxHash);
+    if (record.status === "pending" && !record.hasEnoughSignatures()) {
+      throw new Error(
+        `Safe transaction ${safeTxHash} is not ready: ${record.signatures.length}/${record.threshold} signatures`
+      );
+    }
+    return await this.executeIfReady(safe, record.safeTxHash);
+  }
+
+  /**
+   * Claim a fully signed transaction and submit it with the agent key
+   * Only one caller wins the claim; others get the current record back until the
+   * claim is older than EXECUTION_LEASE_MS
+   * Without a receipt after RECEIPT_TIMEOUT_MS the record returns to pending with
+   * its txHash; the next execution checks that transaction before sending again
+   */
+  private async executeIfReady(
+    safe: SafeModel,
+    safeTxHash: string
+  ): Promise<SafeTransaction> {
+    const record = await SafeTransaction.claimForExecution(
+      safe.safeId,
+      safeTxHash,
+      EXECUTION_LEASE_MS
+    );
+    if (!record) {
+      return await this.getTransaction(safe.safeId, safeTxHash);
+    }
+
+    const deployment = this.getDeployment(safe, record.networkKey);
+    const network = getNetwork(record.networkKey);
+
+    try {
+      const { protocolKit, agentAddress } = await this.initProtocolKit(
+        safe,
+        deployment
+      );
+      const provider = ProviderPool.getInstance().getProvider(
+        deployment.networkKey
+      );
+
+      // A previous execution timed out waiting: its transaction may have been mined
+      // since, or still be pending; it is only sent again once the node dropped it
+      let txHash = record.txHash;
+      let receipt = txHash
+        ? await provider.getTransactionReceipt(txHash)
+        : null;
+      if (!receipt) {
+        if (!txHash || !(await provider.getTransaction(txHash))) {
+          txHash = await this.submit(
+            record,
+            protocolKit,
+            provider,
+            network.chainId,
+            agentAddress
+          );
+          // Kept on the record so an execution taking over checks it first
+          record.txHash = txHash;
+          await record.save();
+        }
+        receipt = await this.waitForReceipt(provider, txHash);
+      }
+
+      if (!receipt) {
+        // Release the claim; the transaction may still be mined
+        record.status = "pending";
+        record.executingAt = undefined;
+        record.error = `No receipt for ${record.txHash} after ${RECEIPT_TIMEOUT_MS}ms; execute again to check it`;
+        await record.save();
+        logger.warn(
+          `⏳ Safe transaction ${safeTxHash} on ${network.name}: ${record.error}`
+        );
+        return record;
+      }
+
+      record.txHash = receipt.hash;
+      record.blockNumber = receipt.blockNumber;
+      record.gasUsed = receipt.gasUsed.toString();
+      record.executedBy = agentAddress;
+      record.executedAt = new Date();
+      record.executingAt = undefined;
+      record.error = undefined;
+
+      const innerCallFailed = receipt.logs.some(
+        (log) =>
+          log.address.toLowerCase() === deployment.address.toLowerCase() &&
+          log.topics[0] === EXECUTION_FAILURE_TOPIC
+      );
+
+      if (receipt.status !== 1 || innerCallFailed) {
+        record.status = "failed";
+        record.error = innerCallFailed
+          ? "Safe transaction executed but the inner call failed"
+          : "Transaction reverted";
+      } else {
+        record.status = "executed";
+      }
+      await record.save();
+    } catch (error) {
+      record.status = "failed";
+      record.executingAt = undefined;
+      record.error = error instanceof Error ? error.message : String(error);
+      await record.save();
+      logger.error(`Safe transaction ${safeTxHash} failed:`, error);
+      throw error;
+    }
+
+    if (record.status === "executed") {
+      await this.recordExecution(safe, record);
+      logger.info(
+        `✅ Safe transaction ${safeTxHash} executed in tx ${record.txHash}`
+      );
+    }
+
+    return record;
+  }
+
+  /**
+   * Build the Safe transaction from the record with its signatures and send it
+   * from the agent key; returns the transaction hash
+   */
+  private async submit(
+    record: SafeTransaction,
+    protocolKit: Safe,
+    provider: ethers.Provider,
+    chainId: number,
+    agentAddress: string
+  ): Promise<string> {
+    const currentNonce = await protocolKit.getNonce();
+    if (currentNonce !== record.nonce) {
+      throw new Error(
+        `Safe nonce is ${currentNonce} but transaction was signed for nonce ${record.nonce}`
+      );
+    }
+
+    const safeTx = await protocolKit.createTransaction({
+      transactions: [
+        {
+          to: record.to,
+          value: record.value,
+          data: record.data,
+          operation: record.operation,
+        },
+      ],
+      options: {
+        nonce: record.nonce,
+        safeTxGas: record.safeTxGas,
+        baseGas: record.baseGas,
+        gasPrice: record.gasPrice,
+        gasToken: record.gasToken,
+        refundReceiver: record.refundReceiver,
+      },
+    });
+    for (const { signer, signature } of record.signatures) {
+      safeTx.addSignature(new EthSafeSignature(signer, signature));
+    }
+
+    logger.info(
+      `🚀 Executing Safe transaction ${record.safeTxHash} on ${record.networkKey} for Safe ${record.safeId}`
+    );
+
+    // The agent key also deploys Safes: take its nonce from the shared manager
+    const lease = await NonceManager.getInstance().acquire(
+      chainId,
+      agentAddress,
+      provider
+    );
+    try {
+      const result = await protocolKit.executeTransaction(safeTx, {
+        nonce: lease.nonce,
+      });
+      await lease.commit();
+      return result.hash;
+    } catch (error) {
+      await lease.release();
+      throw error;
+    }
+  }
+
+  /**
+   * Receipt of a sent transaction, or null when none arrived within RECEIPT_TIMEOUT_MS
+   */
+  private async waitForReceipt(
+    provider: ethers.Provider,
+    txHash: string
+  ): Promise<ethers.TransactionReceipt | null> {
+    try {
+      return await provider.waitForTransaction(txHash, 1, RECEIPT_TIMEOUT_MS);
+    } catch (error) {
+      if (ethers.isError(error, "TIMEOUT")) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async initProtocolKit(
+    safe: SafeModel,
+    deployment: ISafeDeployment
+  ): Promise<{ protocolKit: Safe; agentAddress: string }> {
+    const network = getNetwork(deployment.networkKey);
+    const signer = await SignerRegistry.getInstance().getSigner(
+      safe.userInfo.agentType
+    );
+    const agentAddress = await signer.getAddress();
+    const { contracts } = resolveSafeContracts(
+      network,
+      safe.config.safeVersion
+    );
+
+    const protocolKit = await Safe.init({
+      // Signs through the agent signer; the key itself never reaches protocol-kit
+      provider: toEip1193Provider(
+        signer.connect(
+          ProviderPool.getInstance().getProvider(deployment.networkKey)
+        ),
+        deployment.networkKey
+      ),
+      signer: agentAddress,
+      safeAddress: deployment.address,
+      contractNetworks: getContractNetworks(network.chainId, contracts),
+    });
+
+    return { protocolKit, agentAddress };
+  }
+
+  private async getActiveSafe(
+    safeId: string,
+    options: { allowSuspended?: boolean; safeTxHash?: string } = {}
+  ): Promise<SafeModel> {
+    const safe = await SafeModel.findOne({ safeId });
+    if (!safe) {
+      throw new Error(`Safe not found: ${safeId}`);
+    }
+    // A suspended Safe only takes freeze owner changes (and their signatures)
+    const freezing =
+      safe.status === "suspended" &&
+      (options.allowSuspended ||
+        (!!options.safeTxHash && safe.isFreezeTransaction(options.safeTxHash)));
+    if (safe.status !== "active" && !freezing) {
+      throw new Error(
+        `Safe ${safeId} is ${safe.status}; transactions require an active Safe`
+      );
+    }
+    return safe;
+  }
+
+  private getDeployment(safe: SafeModel, networkKey: string): ISafeDeployment {
+    if (!isNetworkSupported(networkKey)) {
+      throw new Error(`Unsupported network: ${networkKey}`);
+    }
+    const deployment = safe.getDeployment(networkKey);
+    if (!deployment || !safe.isDeployedOnNetwork(networkKey)) {
+      throw new Error(`Safe ${safe.safeId} is not deployed on ${networkKey}`);
+    }
+    return deployment;
+  }
+
+  /**
+   * Update Safe analytics after a successful execution
+   */
+  private async recordExecution(
+    safe: SafeModel,
+    record: SafeTransaction
+  ): Promise<void> {
+    const countsByNetwork = await SafeTransaction.countExecutedByNetwork(
+      safe.safeId
+    );
+    const mostUsedNetwork = Object.entries(countsByNetwork).sort(
+      ([, a], [, b]) => b - a
+    )[0]?.[0];
+
+    // A MultiSend wrapper carries no value itself; the batched calls do
+    const valueWei = (record.calls || [record]).reduce(
+      (sum, call) => sum + BigInt(call.value),
+      0n
+    );
+
+    // The Safe was loaded before the receipt wait: update in place, not from that copy
+    await SafeModel.recordTransaction(safe.safeId, {
+      valueEther: ethers.formatEther(valueWei),
+      executedAt: record.executedAt || new Date(),
+      mostUsedNetwork,
+    });
+  }
+}
+
+export default SafeTransactionService;
@@ -0,0 +1,103 @@
+import fs from "fs";
+import { ethers } from "ethers";
+import {
+  AgentSignerConfig,
+  getAgentSignerConfig,
+  normalizeAgentType,
+} from "../config/agents.js";
+import RemoteSigner from "./RemoteSigner.js";
+import logger from "../config/logger.js";
+
+interface CachedSigner {
+  signature: string; // Configuration the signer was built from
+  signer: Promise<ethers.Signer>;
+}
+
+/**
+ * SignerRegistry - Agent signers per agentType from the configured backend
+ * Signers are built once and reused (unlocking a keystore takes seconds);
+ * callers connect them to the provider of the network they send on
+ */
+class SignerRegistry {
+  private static instance: SignerRegistry;
+  private signers = new Map<string, CachedSigner>();
+
+  private constructor() {}
+
+  public static getInstance(): SignerRegistry {
+    if (!SignerRegistry.instance) {
+      SignerRegistry.instance = new SignerRegistry();
+    }
+    return SignerRegistry.instance;
+  }
+
+  /**
+   * Signer of an agentType, not connected to a provider
+   */
+  public async getSigner(agentType?: string): Promise<ethers.Signer> {
+    const key = normalizeAgentType(agentType);
+    const config = getAgentSignerConfig(agentType);
+    const signature = JSON.stringify(config);
+
+    const cached = this.signers.get(key);
+    if (cached && cached.signature === signature) {
+      return cached.signer;
+    }
+
+    const signer = this.createSigner(key, config);
+    this.signers.set(key, { signature, signer });
+    // Do not cache failures (e.g. a wrong passphrase) so a fixed config is picked up
+    signer.catch(() => {
+      if (this.signers.get(key)?.signer === signer) {
+        this.signers.delete(key);
+      }
+    });
+    return signer;
+  }
+
+  private async createSigner(
+    agentType: string,
+    config: AgentSignerConfig
+  ): Promise<ethers.Signer> {
+    switch (config.type) {
+      case "env":
+        return new ethers.Wallet(config.privateKey);
+
+      case "keystore": {
+        let json: string;
+        try {
+          json = fs.readFileSync(config.path, "utf8");
+        } catch (error) {
+          throw new Error(
+            `Cannot read keystore for ${agentType} agentType at ${config.path}: ${error instanceof Error ? error.message : error}`
+          );
+        }
+        try {
+          const wallet = await ethers.Wallet.fromEncryptedJson(
+            json,
+            config.passphrase
+          );
+          logger.info(
+            `🔑 Unlocked keystore for ${agentType} agent ${wallet.address}`
+          );
+          return wallet;
+        } catch (error) {
+          throw new Error(
+            `Cannot unlock keystore for ${agentType} agentType: ${error instanceof Error ? error.message : error}`
+          );
+        }
+      }
+
+      case "remote": {
+        const signer = new RemoteSigner(config.url, config.address);
+        await signer.checkAvailable();
+        logger.info(
+          `🔑 Using remote signer ${config.url} for ${agentType} agent ${config.address}`
+        );
+        return signer;
+      }
+    }
+  }
+}
+
+export default SignerRegistry;
@@ -0,0 +1,299 @@
+import { ethers } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+import {
+  SpendEntry,
+  SpendFilter,
+  SpendOutcome,
+  SpendTotal,
+} from "../models/SpendEntry.js";
+import { SpendReservation } from "../models/SpendReservation.js";
+import {
+  SPEND_BUDGETS,
+  getAgentTypeBudget,
+  getUserBudget,
+} from "../config/budgets.js";
+import {
+  getNetwork,
+  isNetworkSupported,
+  NetworkKey,
+} from "../config/networks.js";
+import { normalizeAgentType } from "../config/agents.js";
+import logger from "../config/logger.js";
+
+// Each reservation stops counting after this long, in case its worker crashed
+// before releasing it; longer than a send with all its fee bumps takes
+const RESERVATION_TTL_MS = parseInt(
+  process.env.SPEND_RESERVATION_TTL_MS || "3600000"
+);
+
+export interface BudgetCheck {
+  userId: string;
+  agentType?: string;
+  networkKey: NetworkKey;
+  estimatedCostWei?: bigint;
+  maxCostWei?: bigint; // With every fee bump; reserved instead of the estimate
+}
+
+/**
+ * Budget held for one deployment until its transaction is settled
+ * release() once the spend is recorded or nothing was sent
+ */
+export interface BudgetReservation {
+  release(): Promise<void>;
+}
+
+interface BudgetScope {
+  key: string; // Reservation counter
+  label: string; // For error messages, e.g. "user <userId>"
+  filter: SpendFilter;
+  budget: string;
+}
+
+export interface DeploymentSpend {
+  safeId: string;
+  userId: string;
+  agentType?: string;
+  networkKey: NetworkKey;
+  deployerAddress: string;
+  txHash: string;
+  gasUsed: bigint;
+  gasPrice: bigint;
+  outcome: SpendOutcome;
+}
+
+export interface SpendReportRow {
+  userId?: string;
+  agentType?: string;
+  networkKey: string;
+  currency: string;
+  deployments: number;
+  failedTransactions: number;
+  totalGasUsed: string;
+  totalCostWei: string;
+  totalCost: string;
+  averageGasUsed: string;
+}
+
+export interface SpendReport {
+  filters: SpendFilter;
+  byNetwork: SpendReportRow[];
+  byUser: SpendReportRow[];
+  byAgentType: SpendReportRow[];
+  budgets: {
+    windowHours: number;
+    perUser: Record<string, string | undefined>;
+    perAgentType: Record<string, Record<string, string | undefined>>;
+  };
+}
+
+/**
+ * SpendService - Deployer gas spend ledger and sponsorship budgets
+ */
+class SpendService {
+  /**
+   * Throw if deploying on a network would push the user or agentType over budget
+   */
+  async assertWithinBudget(check: BudgetCheck): Promise<void> {
+    const estimatedCostWei = check.estimatedCostWei || 0n;
+    const symbol = getNetwork(check.networkKey).currency.symbol;
+
+    for (const scope of this.getBudgetScopes(check)) {
+      const spent = await this.getTotalSpent(scope.filter);
+      if (spent + estimatedCostWei > ethers.parseEther(scope.budget)) {
+        throw new Error(
+          `Spend budget exceeded for ${scope.label} on ${check.networkKey}: spent ${ethers.formatEther(spent)} + estimated ${ethers.formatEther(estimatedCostWei)} exceeds budget of ${scope.budget} ${symbol}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Hold the maximum cost against the user and agentType budgets before sending
+   * Deployments in flight count toward the budget until released, so concurrent
+   * deployments cannot together exceed it
+   */
+  async reserveBudget(check: BudgetCheck): Promise<BudgetReservation> {
+    const reservedCostWei = check.maxCostWei ?? check.estimatedCostWei ?? 0n;
+    const symbol = getNetwork(check.networkKey).currency.symbol;
+    const id = uuidv4();
+    const reserved: BudgetScope[] = [];
+
+    const release = async () => {
+      for (const scope of reserved.splice(0)) {
+        try {
+          await SpendReservation.release(scope.key, id);
+        } catch (error) {
+          logger.error(
+            `Failed to release spend reservation ${scope.key}:`,
+            error
+          );
+        }
+      }
+    };
+
+    try {
+      for (const scope of this.getBudgetScopes(check)) {
+        const spent = await this.getTotalSpent(scope.filter);
+        const available = ethers.parseEther(scope.budget) - spent;
+        const ok = await SpendReservation.reserve(
+          scope.key,
+          { id, amountWei: reservedCostWei.toString() },
+          available,
+          RESERVATION_TTL_MS
+        );
+        if (!ok) {
+          throw new Error(
+            `Spend budget exceeded for ${scope.label} on ${check.networkKey}: spent ${ethers.formatEther(spent)} + up to ${ethers.formatEther(reservedCostWei)} and deployments in flight exceed budget of ${scope.budget} ${symbol}`
+          );
+        }
+        reserved.push(scope);
+      }
+    } catch (error) {
+      await release();
+      throw error;
+    }
+
+    return { release };
+  }
+
+  /**
+   * Cheap pre-flight used before enqueueing: rejects networks whose budget is already used up
+   */
+  async assertBudgetsAvailable(
+    userId: string,
+    agentType: string | undefined,
+    networks: NetworkKey[]
+  ): Promise<void> {
+    for (const networkKey of networks) {
+      await this.assertWithinBudget({
+        userId,
+        agentType,
+        networkKey,
+        estimatedCostWei: 1n,
+      });
+    }
+  }
+
+  /**
+   * Record the native-token cost of a mined deployment transaction, including
+   * reverted deployments and cancellations
+   */
+  async recordDeploymentSpend(spend: DeploymentSpend): Promise<void> {
+    const network = getNetwork(spend.networkKey);
+    const costWei = spend.gasUsed * spend.gasPrice;
+
+    await SpendEntry.record({
+      safeId: spend.safeId,
+      userId: spend.userId,
+      agentType: normalizeAgentType(spend.agentType),
+      networkKey: spend.networkKey,
+      chainId: network.chainId,
+      deployerAddress: spend.deployerAddress,
+      txHash: spend.txHash,
+      gasUsed: spend.gasUsed.toString(),
+      gasPrice: spend.gasPrice.toString(),
+      costWei: costWei.toString(),
+      outcome: spend.outcome,
+    });
+
+    logger.info(
+      `💸 ${spend.outcome === "deployed" ? "Deployment" : `Failed deployment (${spend.outcome})`} on ${network.name} cost ${ethers.formatEther(costWei)} ${network.currency.symbol} (Safe ${spend.safeId})`
+    );
+  }
+
+  /**
+   * Aggregate spend by network, user and agentType
+   */
+  async getSpendReport(filters: SpendFilter = {}): Promise<SpendReport> {
+    const normalizedFilters: SpendFilter = {
+      ...filters,
+      agentType: filters.agentType
+        ? normalizeAgentType(filters.agentType)
+        : undefined,
+    };
+
+    const [byNetwork, byUser, byAgentType] = await Promise.all([
+      SpendEntry.sumBy(normalizedFilters, ["networkKey"]),
+      SpendEntry.sumBy(normalizedFilters, ["userId", "networkKey"]),
+      SpendEntry.sumBy(normalizedFilters, ["agentType", "networkKey"]),
+    ]);
+
+    return {
+      filters: normalizedFilters,
+      byNetwork: byNetwork.map((row) => this.toReportRow(row)),
+      byUser: byUser.map((row) => this.toReportRow(row)),
+      byAgentType: byAgentType.map((row) => this.toReportRow(row)),
+      budgets: {
+        windowHours: SPEND_BUDGETS.windowHours,
+        perUser: SPEND_BUDGETS.perUser,
+        perAgentType: SPEND_BUDGETS.perAgentType,
+      },
+    };
+  }
+
+  private async getTotalSpent(filter: SpendFilter): Promise<bigint> {
+    const totals = await SpendEntry.sumBy(filter, []);
+    return totals[0]?.totalCostWei || 0n;
+  }
+
+  /**
+   * Budgets that apply to a deployment; networks without a budget have no scope
+   */
+  private getBudgetScopes(check: BudgetCheck): BudgetScope[] {
+    const { userId, networkKey } = check;
+    const agentType = normalizeAgentType(check.agentType);
+    const from = this.getWindowStart();
+    const scopes: BudgetScope[] = [];
+
+    const userBudget = getUserBudget(networkKey);
+    if (userBudget !== undefined) {
+      scopes.push({
+        key: `user:${userId}:${networkKey}`,
+        label: `user ${userId}`,
+        filter: { userId, networkKey, from },
+        budget: userBudget,
+      });
+    }
+
+    const agentTypeBudget = getAgentTypeBudget(agentType, networkKey);
+    if (agentTypeBudget !== undefined) {
+      scopes.push({
+        key: `agentType:${agentType}:${networkKey}`,
+        label: `agentType ${agentType}`,
+        filter: { agentType, networkKey, from },
+        budget: agentTypeBudget,
+      });
+    }
+
+    return scopes;
+  }
+
+  private getWindowStart(): Date {
+    return new Date(Date.now() - SPEND_BUDGETS.windowHours * 60 * 60 * 1000);
+  }
+
+  private toReportRow(total: SpendTotal): SpendReportRow {
+    const networkKey = total.key.networkKey;
+    const currency = isNetworkSupported(networkKey)
+      ? getNetwork(networkKey).currency.symbol
+      : "";
+
+    return {
+      userId: total.key.userId,
+      agentType: total.key.agentType,
+      networkKey,
+      currency,
+      deployments: total.deployments,
+      failedTransactions: total.failedTransactions,
+      totalGasUsed: total.totalGasUsed.toString(),
+      totalCostWei: total.totalCostWei.toString(),
+      totalCost: ethers.formatEther(total.totalCostWei),
+      averageGasUsed:
+        total.deployments > 0
+          ? (total.deploymentGasUsed / BigInt(total.deployments)).toString()
+          : "0",
+    };
+  }
+}
+
+export default SpendService;
@@ -0,0 +1,329 @@
+import { ethers } from "ethers";
+import { getNetwork, NetworkKey } from "../config/networks.js";
+import { IFeeQuote, ITransactionAttempt } from "../models/Safe.js";
+import FeeStrategy from "./FeeStrategy.js";
+import NonceManager from "./NonceManager.js";
+import logger from "../config/logger.js";
+
+export interface TransactionMonitorConfig {
+  pollIntervalMs: number;
+  stuckTimeoutMs: number; // Time without a receipt before the next replacement
+  maxReplacements: number; // Fee bumps before cancelling
+  feeBumpPercent: number; // Nodes require at least 10% to accept a replacement
+}
+
+export interface MonitoredTransaction {
+  networkKey: NetworkKey;
+  signer: ethers.Signer; // Connected to the network's provider
+  transaction: ethers.TransactionRequest;
+  feeQuote: IFeeQuote;
+  // Called after every attempt so progress can be persisted while waiting
+  onAttempt?: (attempts: ITransactionAttempt[]) => Promise<void>;
+  // Called once one of the attempts is mined, also when it reverted or was the cancellation
+  onMined?: (
+    receipt: ethers.TransactionReceipt,
+    attempt: ITransactionAttempt
+  ) => Promise<void>;
+}
+
+export interface MonitoredTransactionResult {
+  receipt: ethers.TransactionReceipt;
+  attempts: ITransactionAttempt[];
+}
+
+// Gas of the zero-value self-transfer that cancels a nonce
+const CANCELLATION_GAS = 21000n;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * TransactionMonitor - Sends a transaction and watches it by nonce until mined
+ * A transaction without a receipt after stuckTimeoutMs is replaced with bumped fees;
+ * after maxReplacements (or when a bump would exceed the network max) the nonce is
+ * cancelled with a zero-value self-transfer
+ */
+class TransactionMonitor {
+  private config: TransactionMonitorConfig;
+  private feeStrategy: FeeStrategy;
+
+  constructor(
+    feeStrategy: FeeStrategy,
+    config: Partial<TransactionMonitorConfig> = {}
+  ) {
+    this.feeStrategy = feeStrategy;
+    this.config = {
+      pollIntervalMs: parseInt(process.env.TX_POLL_INTERVAL_MS || "5000"),
+      stuckTimeoutMs: parseInt(process.env.TX_STUCK_TIMEOUT_MS || "180000"),
+      maxReplacements: parseInt(process.env.TX_MAX_REPLACEMENTS || "3"),
+      feeBumpPercent: parseInt(process.env.TX_FEE_BUMP_PERCENT || "15"),
+      ...config,
+    };
+  }
+
+  /**
+   * Highest cost sending with a quote can reach: the gas limit at the fees of the
+   * last replacement, or a cancellation bumped once more
+   */
+  getMaxCostWei(networkKey: NetworkKey, feeQuote: IFeeQuote): bigint {
+    const feePerGas = (fees: ethers.TransactionRequest) =>
+      BigInt((fees.type === 0 ? fees.gasPrice : fees.maxFeePerGas) ?? 0);
+
+    let fees = this.feeStrategy.toTransactionOverrides(feeQuote);
+    for (let i = 0; i < this.config.maxReplacements; i++) {
+      const bumped = this.feeStrategy.bumpFees(
+        networkKey,
+        fees,
+        this.config.feeBumpPercent
+      );
+      if (!bumped) break;
+      fees = bumped;
+    }
+    const cancelFees = this.feeStrategy.bumpFees(
+      networkKey,
+      fees,
+      this.config.feeBumpPercent,
+      false
+    )!;
+
+    const replacementCost = BigInt(feeQuote.gasLimit) * feePerGas(fees);
+    const cancellationCost = CANCELLATION_GAS * feePerGas(cancelFees);
+    return replacementCost > cancellationCost
+      ? replacementCost
+      : cancellationCost;
+  }
+
+  /**
+   * Send a transaction and wait for it (or a replacement) to be mined
+   * Throws when it reverts, is cancelled or its nonce is taken by another transaction
+   */
+  async sendAndWait(
+    request: MonitoredTransaction
+  ): Promise<MonitoredTransactionResult> {
+    const { networkKey, signer } = request;
+    const provider = signer.provider!;
+    const address = await signer.getAddress();
+    const attempts: ITransactionAttempt[] = [];
+
+    // Concurrent sends from the same key get consecutive nonces
+    const lease = await NonceManager.getInstance().acquire(
+      getNetwork(networkKey).chainId,
+      address,
+      provider
+    );
+    const { nonce } = lease;
+    let fees = this.feeStrategy.toTransactionOverrides(request.feeQuote);
+
+    // A rejected original transaction means nothing is pending: fail right away
+    let original: ITransactionAttempt;
+    try {
+      original = await this.send(request, attempts, "original", {
+        ...request.transaction,
+        ...fees,
+        nonce,
+      });
+    } catch (error) {
+      await lease.release();
+      throw error;
+    }
+    if (original.status === "rejected") {
+      await lease.release();
+      throw new Error(
+        `Transaction on ${networkKey} was rejected: ${original.error}`
+      );
+    }
+    await lease.commit();
+
+    let lastSentAt = Date.now();
+    let replacements = 0;
+    let cancelling = false;
+
+    while (true) {
+      await sleep(this.config.pollIntervalMs);
+
+      const mined = await this.findMined(provider, attempts);
+      if (mined) {
+        return await this.settle(request, attempts, mined);
+      }
+
+      // The nonce was used but none of our transactions has a receipt
+      const latestNonce = await provider.getTransactionCount(address, "latest");
+      if (latestNonce > nonce) {
+        const lateMined = await this.findMined(provider, attempts);
+        if (lateMined) {
+          return await this.settle(request, attempts, lateMined);
+        }
+        throw new Error(
+          `Nonce ${nonce} on ${networkKey} was used by another transaction`
+        );
+      }
+
+      if (Date.now() - lastSentAt < this.config.stuckTimeoutMs) {
+        continue;
+      }
+
+      if (cancelling) {
+        throw new Error(
+          `Transaction on ${networkKey} is still pending after cancellation (nonce ${nonce})`
+        );
+      }
+
+      const bumped =
+        replacements < this.config.maxReplacements
+          ? this.feeStrategy.bumpFees(
+              networkKey,
+              fees,
+              this.config.feeBumpPercent
+            )
+          : null;
+
+      if (bumped) {
+        replacements++;
+        logger.warn(
+          `⏳ Transaction with nonce ${nonce} on ${networkKey} is stuck; sending replacement ${replacements}/${this.config.maxReplacements}`
+        );
+        const attempt = await this.send(request, attempts, "replacement", {
+          ...request.transaction,
+          ...bumped,
+          nonce,
+        });
+        if (attempt.status !== "rejected") {
+          fees = bumped;
+        }
+      } else {
+        // Cancelling frees the deployer nonce, so it may pay above the network max
+        const cancelFees = this.feeStrategy.bumpFees(
+          networkKey,
+          fees,
+          this.config.feeBumpPercent,
+          false
+        )!;
+        const cancellation: ethers.TransactionRequest = {
+          to: address,
+          value: 0n,
+          data: "0x",
+          nonce,
+        };
+        logger.warn(
+          `🛑 Cancelling stuck transaction with nonce ${nonce} on ${networkKey}`
+        );
+        await this.send(request, attempts, "cancellation", {
+          ...cancellation,
+          ...cancelFees,
+          gasLimit: await signer.estimateGas(cancellation),
+        });
+        cancelling = true;
+      }
+      lastSentAt = Date.now();
+    }
+  }
+
+  private async send(
+    request: MonitoredTransaction,
+    attempts: ITransactionAttempt[],
+    kind: ITransactionAttempt["kind"],
+    transaction: ethers.TransactionRequest
+  ): Promise<ITransactionAttempt> {
+    const attempt: ITransactionAttempt = {
+      kind,
+      nonce: Number(transaction.nonce),
+      maxFeePerGas: transaction.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: transaction.maxPriorityFeePerGas?.toString(),
+      gasPrice: transaction.gasPrice?.toString(),
+      sentAt: new Date(),
+      status: "pending",
+    };
+
+    try {
+      const response = await request.signer.sendTransaction(transaction);
+      attempt.txHash = response.hash;
+      logger.info(
+        `Transaction sent (${kind}) on ${request.networkKey}: ${response.hash}`
+      );
+    } catch (error) {
+      // e.g. "replacement underpriced" or the original was mined meanwhile
+      attempt.status = "rejected";
+      attempt.error = error instanceof Error ? error.message : String(error);
+      logger.warn(
+        `${kind} transaction rejected on ${request.networkKey}: ${attempt.error}`
+      );
+    }
+
+    attempts.push(attempt);
+    await this.reportAttempts(request, attempts);
+    return attempt;
+  }
+
+  private async findMined(
+    provider: ethers.Provider,
+    attempts: ITransactionAttempt[]
+  ): Promise<{
+    attempt: ITransactionAttempt;
+    receipt: ethers.TransactionReceipt;
+  } | null> {
+    for (const attempt of attempts) {
+      if (!attempt.txHash) continue;
+      const receipt = await provider.getTransactionReceipt(attempt.txHash);
+      if (receipt) {
+        return { attempt, receipt };
+      }
+    }
+    return null;
+  }
+
+  private async settle(
+    request: MonitoredTransaction,
+    attempts: ITransactionAttempt[],
+    mined: { attempt: ITransactionAttempt; receipt: ethers.TransactionReceipt }
+  ): Promise<MonitoredTransactionResult> {
+    for (const attempt of attempts) {
+      if (attempt === mined.attempt) {
+        attempt.status = "mined";
+      } else if (attempt.status === "pending") {
+        attempt.status = "replaced";
+      }
+    }
+    await this.reportAttempts(request, attempts);
+
+    const { receipt } = mined;
+    if (request.onMined) {
+      try {
+        await request.onMined(receipt, mined.attempt);
+      } catch (error) {
+        logger.error(
+          `Failed to handle mined transaction ${receipt.hash} on ${request.networkKey}:`,
+          error
+        );
+      }
+    }
+
+    if (mined.attempt.kind === "cancellation") {
+      throw new Error(
+        `Transaction on ${request.networkKey} was cancelled (nonce ${mined.attempt.nonce}, tx ${receipt.hash})`
+      );
+    }
+    if (receipt.status === 0) {
+      throw new Error(
+        `Transaction ${receipt.hash} on ${request.networkKey} reverted`
+      );
+    }
+
+    return { receipt, attempts };
+  }
+
+  private async reportAttempts(
+    request: MonitoredTransaction,
+    attempts: ITransactionAttempt[]
+  ): Promise<void> {
+    if (!request.onAttempt) return;
+    try {
+      await request.onAttempt(attempts.map((attempt) => ({ ...attempt })));
+    } catch (error) {
+      logger.error(
+        `Failed to record transaction attempts on ${request.networkKey}:`,
+        error
+      );
+    }
+  }
+}
+
+export default TransactionMonitor;
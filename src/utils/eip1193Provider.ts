@@ -0,0 +1,96 @@
+import { Eip1193Provider } from "@safe-global/protocol-kit";
+import { ethers } from "ethers";
+import { getNetwork, NetworkKey } from "../config/networks.js";
+import ProviderPool from "../services/ProviderPool.js";
+
+// eth_sendTransaction parameter as sent by protocol-kit (hex quantities)
+interface RpcTransaction {
+  to?: string;
+  data?: string;
+  value?: string | null;
+  nonce?: string | number;
+  gas?: string | null;
+  gasPrice?: string | null;
+  maxFeePerGas?: string | null;
+  maxPriorityFeePerGas?: string | null;
+}
+
+interface RpcTypedData {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, ethers.TypedDataField[]>;
+  message: Record<string, unknown>;
+}
+
+const quantity = (value?: string | null) =>
+  value === undefined || value === null ? undefined : BigInt(value);
+
+/**
+ * EIP-1193 provider for protocol-kit that signs with an agent signer
+ * Lets protocol-kit send and sign without being handed a private key; every
+ * other request goes to the network's RPC pool
+ */
+export function toEip1193Provider(
+  signer: ethers.Signer,
+  networkKey: NetworkKey
+): Eip1193Provider {
+  const network = getNetwork(networkKey);
+
+  return {
+    async request({ method, params }) {
+      const args: unknown[] = Array.isArray(params) ? params : [];
+
+      switch (method) {
+        case "eth_accounts":
+        case "eth_requestAccounts":
+          return [await signer.getAddress()];
+
+        case "eth_chainId":
+          return ethers.toQuantity(network.chainId);
+
+        case "eth_sendTransaction": {
+          const tx = args[0] as RpcTransaction;
+          const response = await signer.sendTransaction({
+            to: tx.to,
+            data: tx.data,
+            value: quantity(tx.value),
+            nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+            gasLimit: quantity(tx.gas),
+            gasPrice: quantity(tx.gasPrice),
+            maxFeePerGas: quantity(tx.maxFeePerGas),
+            maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+            chainId: network.chainId,
+          });
+          return response.hash;
+        }
+
+        case "personal_sign":
+          return await signer.signMessage(ethers.getBytes(args[0] as string));
+
+        case "eth_sign":
+          return await signer.signMessage(ethers.getBytes(args[1] as string));
+
+        case "eth_signTypedData_v4": {
+          const typedData: RpcTypedData =
+            typeof args[1] === "string"
+              ? JSON.parse(args[1])
+              : (args[1] as RpcTypedData);
+          // ethers derives the domain type itself
+          const types = { ...typedData.types };
+          delete types.EIP712Domain;
+          return await signer.signTypedData(
+            typedData.domain,
+            types,
+            typedData.message
+          );
+        }
+
+        default:
+          return await ProviderPool.getInstance().send(
+            networkKey,
+            method,
+            args
+          );
+      }
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import { ethers } from "ethers";
+import { ISafeConfig } from "../models/Safe.js";
+import { NetworkConfig } from "../config/networks.js";
+import {
+  resolveSafeContracts,
+  SafeContractSet,
+  SAFE_PROXY_CREATION_CODE_V1_4_1,
+  SAFE_V1_4_1_CONTRACTS,
+} from "../config/safeContracts.js";
+
+const SAFE_SETUP_ABI = [
+  "function setup(address[] _owners, uint256 _threshold, address to, bytes data, address fallbackHandler, address paymentToken, uint256 payment, address paymentReceiver)",
+];
+
+const safeInterface = new ethers.Interface(SAFE_SETUP_ABI);
+
+/**
+ * Derive a reproducible salt nonce from the user, agentType and Safe index
+ * Lets a lost Safe record be rebuilt from on-chain state alone
+ */
+export function deriveDeterministicSaltNonce(
+  userId: string,
+  agentType: string,
+  index: number
+): string {
+  return ethers.keccak256(
+    ethers.toUtf8Bytes(`safe:${userId}:${agentType}:${index}`)
+  );
+}
+
+/**
+ * Encode the Safe setup() initializer exactly as protocol-kit does for a predicted Safe
+ */
+export function encodeSafeInitializer(
+  safeConfig: Pick<ISafeConfig, "owners" | "threshold">,
+  contracts: SafeContractSet = SAFE_V1_4_1_CONTRACTS
+): string {
+  return safeInterface.encodeFunctionData("setup", [
+    safeConfig.owners,
+    safeConfig.threshold,
+    ethers.ZeroAddress,
+    "0x",
+    contracts.fallbackHandlerAddress,
+    ethers.ZeroAddress,
+    0,
+    ethers.ZeroAddress,
+  ]);
+}
+
+/**
+ * Compute the counterfactual Safe address offline (no RPC)
+ * CREATE2(factory, keccak256(keccak256(initializer) ++ saltNonce), proxyCreationCode ++ singleton)
+ */
+export function computeSafeAddress(
+  safeConfig: Pick<ISafeConfig, "owners" | "threshold" | "saltNonce">,
+  contracts: SafeContractSet = SAFE_V1_4_1_CONTRACTS,
+  proxyCreationCode: string = SAFE_PROXY_CREATION_CODE_V1_4_1
+): string {
+  const initializer = encodeSafeInitializer(safeConfig, contracts);
+  const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+  const salt = ethers.keccak256(
+    ethers.concat([
+      ethers.keccak256(initializer),
+      abiCoder.encode(["uint256"], [safeConfig.saltNonce]),
+    ])
+  );
+
+  const initCode = ethers.concat([
+    proxyCreationCode,
+    abiCoder.encode(["address"], [contracts.safeSingletonAddress]),
+  ]);
+
+  return ethers.getCreate2Address(
+    contracts.safeProxyFactoryAddress,
+    salt,
+    ethers.keccak256(initCode)
+  );
+}
+
+/**
+ * Compute the Safe address on a network from the Safe's version and the network's contracts
+ * Returns null where the network's CREATE2 cannot be reproduced offline (zkSync)
+ */
+export function computeSafeAddressOnNetwork(
+  safeConfig: Pick<
+    ISafeConfig,
+    "owners" | "threshold" | "saltNonce" | "safeVersion"
+  >,
+  network: Pick<NetworkConfig, "safeContracts" | "singletonType">
+): string | null {
+  const { contracts, proxyCreationCode } = resolveSafeContracts(
+    network,
+    safeConfig.safeVersion
+  );
+  if (!proxyCreationCode) {
+    return null;
+  }
+  return computeSafeAddress(safeConfig, contracts, proxyCreationCode);
+}
@@ -0,0 +1,75 @@
+const http = require('http');
+const { ethers } = require('ethers');
+const dotenv = require('dotenv');
+
+dotenv.config();
+
+// Local stand-in for a Web3Signer eth1 endpoint, for testing AGENT_SIGNER_TYPE=remote
+// Never use it with a real key: it signs anything it is asked to
+const PORT = parseInt(process.env.STUB_SIGNER_PORT || '9000');
+const privateKey = process.env.STUB_SIGNER_PRIVATE_KEY;
+const wallet = privateKey ? new ethers.Wallet(privateKey) : ethers.Wallet.createRandom();
+
+function assertAccount(address) {
+    if (!address || address.toLowerCase() !== wallet.address.toLowerCase()) {
+        throw new Error(`No key for ${address}`);
+    }
+}
+
+const handlers = {
+    eth_accounts: async () => [wallet.address],
+
+    eth_signTransaction: async ([tx]) => {
+        assertAccount(tx.from);
+        const { from, gas, ...rest } = tx;
+        return wallet.signTransaction({
+            ...rest,
+            type: tx.type === undefined ? undefined : Number(tx.type),
+            gasLimit: gas
+        });
+    },
+
+    eth_sign: async ([address, data]) => {
+        assertAccount(address);
+        return wallet.signMessage(ethers.getBytes(data));
+    },
+
+    eth_signTypedData: async ([address, typedData]) => {
+        assertAccount(address);
+        const { domain, types, message } = typeof typedData === 'string' ? JSON.parse(typedData) : typedData;
+        const { EIP712Domain, ...signTypes } = types;
+        return wallet.signTypedData(domain, signTypes, message);
+    }
+};
+
+const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+        let request = {};
+        let response;
+        try {
+            request = JSON.parse(body);
+            const handler = handlers[request.method];
+            if (!handler) {
+                response = { error: { code: -32601, message: `Method not found: ${request.method}` } };
+            } else {
+                response = { result: await handler(request.params || []) };
+            }
+        } catch (error) {
+            response = { error: { code: -32000, message: error.message } };
+        }
+
+        console.log(`${request.method} -> ${response.error ? `error: ${response.error.message}` : 'ok'}`);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id ?? null, ...response }));
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`🔏 Stub remote signer on http://localhost:${PORT}`);
+    console.log(`📝 Signer Address: ${wallet.address}`);
+    console.log(`   AGENT_SIGNER_TYPE=remote`);
+    console.log(`   AGENT_REMOTE_SIGNER_URL=http://localhost:${PORT}`);
+    console.log(`   AGENT_REMOTE_SIGNER_ADDRESS=${wallet.address}`);
+});